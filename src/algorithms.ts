@@ -0,0 +1,27 @@
+/**
+ * Hash algorithm names and the chain genesis marker for @guardspine/kernel.
+ * Kept apart from hash.ts, which computes hashes with node:crypto, so code
+ * that must run without Node built-ins (see webcrypto.ts) can import them.
+ */
+
+export type HashAlgorithm = "sha256" | "sha384" | "sha512" | "sha3-256";
+
+export const DEFAULT_HASH_ALGORITHM: HashAlgorithm = "sha256";
+
+export const SUPPORTED_HASH_ALGORITHMS: HashAlgorithm[] = ["sha256", "sha384", "sha512", "sha3-256"];
+
+/** Sentinel value for the first link in a hash chain (no predecessor). */
+export const GENESIS_HASH = "genesis";
+
+export function isHashAlgorithm(value: unknown): value is HashAlgorithm {
+  return SUPPORTED_HASH_ALGORITHMS.includes(value as HashAlgorithm);
+}
+
+/** Algorithm named by a hash's prefix, or null if it is not a supported one. */
+export function hashAlgorithmOf(hash: string): HashAlgorithm | null {
+  if (typeof hash !== "string") {
+    return null;
+  }
+  const prefix = hash.slice(0, hash.indexOf(":"));
+  return isHashAlgorithm(prefix) ? prefix : null;
+}
@@ -0,0 +1,190 @@
+/**
+ * Append-only bundle extension for @guardspine/kernel.
+ * A bundle sealed earlier can be extended with new items without touching
+ * its existing links, and a later version can be checked against an
+ * earlier one to prove that history was only appended to.
+ */
+
+import { ErrorCode } from "./errors.js";
+import type { VerificationError, VerificationResult } from "./errors.js";
+import { DEFAULT_HASH_ALGORITHM } from "./hash.js";
+import { computeMerkleRootHash, computeRootHash, extendHashChain } from "./seal.js";
+import type { ChainInput } from "./seal.js";
+import { verifyHashChain, verifyRootHash } from "./verify.js";
+import type {
+  EvidenceBundle,
+  EvidenceItem,
+  HashChainLink,
+} from "./schemas/evidence-bundle.js";
+
+const LINK_FIELDS: (keyof HashChainLink)[] = [
+  "sequence",
+  "item_id",
+  "content_type",
+  "content_hash",
+  "previous_hash",
+  "chain_hash",
+];
+
+/**
+ * Return a copy of a sealed bundle with newItems chained after its last
+ * link and the root hash recomputed for the bundle's proof_version.
+ *
+ * Throws if the existing chain or root does not verify as v0.2.0/v0.3.0,
+ * so a broken or legacy chain is never extended. Signatures and timestamps
+ * cover the old root or those signatures, so they are dropped; re-sign and
+ * re-stamp the extended bundle.
+ */
+export function appendItems(
+  sealedBundle: EvidenceBundle,
+  newItems: Partial<EvidenceItem>[],
+): EvidenceBundle {
+  if (!Array.isArray(newItems) || newItems.length === 0) {
+    throw new Error("appendItems: newItems must be a non-empty array");
+  }
+  const proof = sealedBundle.immutability_proof;
+  if (!proof || !Array.isArray(proof.hash_chain)) {
+    throw new Error("appendItems: bundle has no immutability_proof");
+  }
+  const existing = [
+    ...verifyHashChain(proof.hash_chain, { acceptProofVersions: ["v0.2.0"] }).errors,
+    ...verifyRootHash(proof).errors,
+  ];
+  if (existing.length > 0) {
+    throw new Error(`appendItems: sealed bundle does not verify (${existing[0].code})`);
+  }
+
+  const knownIds = new Set(sealedBundle.items.map((item) => item.item_id));
+  const chainInputs: ChainInput[] = newItems.map((item, idx) => {
+    if (!item.item_id) {
+      throw new Error(`appendItems: item ${idx} missing item_id`);
+    }
+    if (!item.content_type) {
+      throw new Error(`appendItems: item ${idx} missing content_type`);
+    }
+    if (knownIds.has(item.item_id)) {
+      throw new Error(`appendItems: duplicate item_id ${item.item_id}`);
+    }
+    knownIds.add(item.item_id);
+    return {
+      content: item.content ?? {},
+      contentType: item.content_type,
+      contentId: item.item_id,
+    };
+  });
+
+  const algorithm = proof.hash_algorithm ?? DEFAULT_HASH_ALGORITHM;
+  const chain = extendHashChain(proof.hash_chain, chainInputs, algorithm);
+  const offset = proof.hash_chain.length;
+  const appended: EvidenceItem[] = newItems.map((item, idx) => ({
+    item_id: item.item_id!,
+    content_type: item.content_type!,
+    content: (item.content ?? {}) as Record<string, unknown>,
+    content_hash: chain[offset + idx].content_hash,
+    sequence: offset + idx,
+  }));
+
+  const { signatures: _signatures, timestamps: _timestamps, ...rest } = sealedBundle;
+  return {
+    ...rest,
+    items: [...sealedBundle.items, ...appended],
+    immutability_proof: {
+      ...proof,
+      hash_chain: chain,
+      root_hash:
+        proof.proof_version === "v0.3.0"
+          ? computeMerkleRootHash(chain, algorithm)
+          : computeRootHash(chain, algorithm),
+    },
+  };
+}
+
+/**
+ * Verify that newer is an append-only extension of older.
+ *
+ * Trace rationale: both proofs must verify on their own, and every link of
+ * older must reappear unchanged at the same position in newer. Because each
+ * chain_hash commits to its predecessor, an identical prefix means the
+ * older root is reproducible from newer, so any rewrite, reorder or
+ * removal of earlier evidence is reported as HISTORY_REWRITTEN or
+ * CHAIN_TRUNCATED.
+ */
+export function verifyConsistency(
+  older: EvidenceBundle,
+  newer: EvidenceBundle,
+): VerificationResult {
+  const errors: VerificationError[] = [];
+  const oldProof = older.immutability_proof;
+  const newProof = newer.immutability_proof;
+
+  if (!oldProof || !newProof) {
+    errors.push({
+      code: ErrorCode.MISSING_REQUIRED_FIELD,
+      message: "Both bundles require an immutability_proof",
+      details: { field: "immutability_proof" },
+    });
+    return { valid: false, errors };
+  }
+
+  errors.push(...verifyRootHash(oldProof).errors, ...verifyRootHash(newProof).errors);
+  errors.push(...verifyHashChain(newProof.hash_chain, { acceptProofVersions: ["v0.2.0"] }).errors);
+
+  if (older.bundle_id !== newer.bundle_id) {
+    errors.push({
+      code: ErrorCode.HISTORY_REWRITTEN,
+      message: `Bundle id changed from ${older.bundle_id} to ${newer.bundle_id}`,
+      details: { field: "bundle_id", older: older.bundle_id, newer: newer.bundle_id },
+    });
+  }
+
+  const oldAlgorithm = oldProof.hash_algorithm ?? DEFAULT_HASH_ALGORITHM;
+  const newAlgorithm = newProof.hash_algorithm ?? DEFAULT_HASH_ALGORITHM;
+  if (oldAlgorithm !== newAlgorithm) {
+    errors.push({
+      code: ErrorCode.HISTORY_REWRITTEN,
+      message: "Hash algorithm changed between bundle versions",
+      details: { field: "hash_algorithm", older: oldAlgorithm, newer: newAlgorithm },
+    });
+  }
+
+  if (oldProof.proof_version !== newProof.proof_version) {
+    errors.push({
+      code: ErrorCode.HISTORY_REWRITTEN,
+      message: "Proof version changed between bundle versions",
+      details: {
+        field: "proof_version",
+        older: oldProof.proof_version ?? "v0.2.0",
+        newer: newProof.proof_version ?? "v0.2.0",
+      },
+    });
+  }
+
+  const oldChain = oldProof.hash_chain;
+  const newChain = newProof.hash_chain;
+  if (newChain.length < oldChain.length) {
+    errors.push({
+      code: ErrorCode.CHAIN_TRUNCATED,
+      message: `Newer chain has ${newChain.length} links, older has ${oldChain.length}`,
+      details: { older: oldChain.length, newer: newChain.length },
+    });
+    return { valid: false, errors };
+  }
+
+  for (let seq = 0; seq < oldChain.length; seq++) {
+    const field = LINK_FIELDS.find((name) => oldChain[seq][name] !== newChain[seq][name]);
+    if (field !== undefined) {
+      errors.push({
+        code: ErrorCode.HISTORY_REWRITTEN,
+        message: `Link ${seq} ${field} differs from the older bundle`,
+        details: {
+          sequence: seq,
+          field,
+          older: oldChain[seq][field],
+          newer: newChain[seq][field],
+        },
+      });
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
@@ -0,0 +1,118 @@
+/**
+ * @guardspine/kernel/browser -- sealing and verification without Node
+ * built-ins, for browsers and other WebCrypto runtimes. Hashing and
+ * signature checks are async (globalThis.crypto.subtle) and produce the
+ * same hashes and results as the Node entry point. sha3-256, timestamps,
+ * transparency logs, bundle references and signing are Node-only.
+ */
+
+// Canonical JSON (RFC 8785)
+export { canonicalJson } from "./canonical.js";
+export type { CanonicalJsonOptions } from "./canonical.js";
+
+// Hash algorithms
+export {
+  DEFAULT_HASH_ALGORITHM,
+  GENESIS_HASH,
+  SUPPORTED_HASH_ALGORITHMS,
+  isHashAlgorithm,
+  hashAlgorithmOf,
+} from "./algorithms.js";
+export type { HashAlgorithm } from "./algorithms.js";
+
+// Sealing and verification (WebCrypto)
+export {
+  WEBCRYPTO_HASH_ALGORITHMS,
+  hashString,
+  computeContentHash,
+  sealBundle,
+  verifySignatures,
+  verifyBundle,
+  verifyBundleDetailed,
+} from "./webcrypto.js";
+export type { WebCryptoVerificationOptions } from "./webcrypto.js";
+export type { SealResult, ProofVersion, SealOptions, PolicyBinding } from "./seal.js";
+export type {
+  SignatureVerificationOptions,
+  SignaturePolicy,
+  VerifiedSignature,
+  PublicKeyMaterial,
+  ProofVerificationOptions,
+  PolicyVerificationOptions,
+  RiskTierVerificationOptions,
+  RedactionVerificationOptions,
+  SchemaVerificationOptions,
+  VerificationStepStatus,
+  VerificationStep,
+  VerificationReport,
+} from "./verify.js";
+
+// Checks that need no cryptography
+export { verifySignaturePolicy, verifySanitizationAttestation, findJwk, jwkAlgorithmMismatch } from "./checks.js";
+export { findTrustedKey, checkTrustedKey } from "./trust.js";
+export type { TrustedKey, TrustStore } from "./trust.js";
+export type { Jwk, JwkSet } from "./jwk.js";
+export { DEFAULT_RISK_TIER_PROFILES, verifyRiskTier } from "./tiers.js";
+export type {
+  RiskTier,
+  RiskTierProfile,
+  RiskTierProfiles,
+  RiskTierContext,
+} from "./tiers.js";
+
+// Schema validation
+export { validateBundleSchema, validateSchema } from "./schema.js";
+export { EVIDENCE_BUNDLE_SCHEMA } from "./schemas/evidence-bundle.schema.js";
+export type { JsonSchema, SchemaValidationOptions } from "./schema.js";
+
+// Bundle parsing
+export { parseBundle } from "./parse.js";
+export type { ParsedBundle } from "./parse.js";
+
+// Selective disclosure
+export { isRedactedContent } from "./redact.js";
+export type { RedactedContent } from "./redact.js";
+
+// JSONPath and policy evaluation
+export { compileJsonPath, queryJsonPath, queryBundle } from "./jsonpath.js";
+export type { CompiledJsonPath } from "./jsonpath.js";
+export { evaluatePolicy, resolveField, applyOperator } from "./policy.js";
+export type {
+  PolicySeverity,
+  RuleResult,
+  PolicyEvaluationResult,
+  PolicyEvaluationOptions,
+  ItemQuantifierObservation,
+} from "./policy.js";
+
+// Errors
+export { ErrorCode } from "./errors.js";
+export type { VerificationError, VerificationResult } from "./errors.js";
+
+// Schema types
+export type {
+  EvidenceBundle,
+  EvidenceItem,
+  ImmutabilityProof,
+  HashChainLink,
+  HashChain,
+  Signature,
+  SanitizationAttestation,
+  BundleReference,
+  BundleTimestamp,
+} from "./schemas/evidence-bundle.js";
+
+export type {
+  PolicyPack,
+  PolicyPackSchemaVersion,
+  PolicyRule,
+  PolicyCondition,
+  FieldCondition,
+  AllCondition,
+  AnyCondition,
+  NotCondition,
+  ItemQuantifier,
+  EveryItemCondition,
+  SomeItemCondition,
+  NoItemCondition,
+} from "./schemas/policy-pack.js";
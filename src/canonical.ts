@@ -8,13 +8,47 @@
  *   large magnitudes may use exponent notation
  * - Strings: minimal escaping (control chars, backslash, double-quote)
  * - null, true, false as literals
+ *
+ * Lenient mode (the default) keeps the historical output: values JSON
+ * cannot represent become null and non-plain objects serialize their own
+ * enumerable keys. Strict mode throws on them instead, so two different
+ * inputs can never produce the same bytes.
  */
 
-export function canonicalJson(value: unknown): string {
-  return serializeValue(value);
+export interface CanonicalJsonOptions {
+  /**
+   * Throw on NaN, Infinity, undefined array entries, functions, symbols,
+   * BigInt, lone UTF-16 surrogates and non-plain objects such as Date, Map
+   * or class instances (default: false). undefined object properties are
+   * omitted in both modes.
+   */
+  strict?: boolean;
+}
+
+interface SerializeContext {
+  strict: boolean;
+  /** JSON Pointer segments from the root to the current value. */
+  path: (string | number)[];
+  /** Objects on the current path, for cycle detection. */
+  ancestors: Set<object>;
+}
+
+export function canonicalJson(value: unknown, options?: CanonicalJsonOptions): string {
+  return serializeValue(value, { strict: options?.strict ?? false, path: [], ancestors: new Set() });
+}
+
+/** A lone surrogate; with the u flag a valid pair is one code point and never matches. */
+const LONE_SURROGATE = /[\uD800-\uDFFF]/u;
+
+function fail(ctx: SerializeContext, problem: string): never {
+  const pointer = ctx.path
+    .map((segment) => String(segment).replace(/~/g, "~0").replace(/\//g, "~1"))
+    .map((segment) => `/${segment}`)
+    .join("");
+  throw new Error(`canonicalJson: ${problem} at ${pointer || "/"}`);
 }
 
-function serializeValue(value: unknown): string {
+function serializeValue(value: unknown, ctx: SerializeContext): string {
   if (value === null) {
     return "null";
   }
@@ -24,19 +58,43 @@ function serializeValue(value: unknown): string {
       return value ? "true" : "false";
 
     case "number":
+      if (ctx.strict && !isFinite(value)) {
+        fail(ctx, `${value} is not representable in JSON`);
+      }
       return serializeNumber(value);
 
     case "string":
+      if (ctx.strict && LONE_SURROGATE.test(value)) {
+        fail(ctx, "string contains a lone UTF-16 surrogate");
+      }
       return serializeString(value);
 
-    case "object":
-      if (Array.isArray(value)) {
-        return serializeArray(value);
+    case "object": {
+      if (ctx.ancestors.has(value)) {
+        fail(ctx, "cyclic reference");
       }
-      return serializeObject(value as Record<string, unknown>);
+      ctx.ancestors.add(value);
+      try {
+        if (Array.isArray(value)) {
+          return serializeArray(value, ctx);
+        }
+        if (ctx.strict) {
+          const proto = Object.getPrototypeOf(value);
+          if (proto !== Object.prototype && proto !== null) {
+            fail(ctx, `non-plain object ${proto?.constructor?.name ?? "with custom prototype"}`);
+          }
+        }
+        return serializeObject(value as Record<string, unknown>, ctx);
+      } finally {
+        ctx.ancestors.delete(value);
+      }
+    }
 
     default:
-      // undefined, function, symbol -- omit per JSON spec
+      // undefined, function, symbol, bigint -- omit per JSON spec
+      if (ctx.strict) {
+        fail(ctx, `${typeof value} is not representable in JSON`);
+      }
       return "null";
   }
 }
@@ -67,12 +125,18 @@ function serializeString(text: string): string {
   return JSON.stringify(text);
 }
 
-function serializeArray(arr: unknown[]): string {
-  const items = arr.map((item) => serializeValue(item));
+function serializeArray(arr: unknown[], ctx: SerializeContext): string {
+  const items: string[] = [];
+  // Index loop rather than map: map skips holes, which must become null.
+  for (let i = 0; i < arr.length; i++) {
+    ctx.path.push(i);
+    items.push(serializeValue(arr[i], ctx));
+    ctx.path.pop();
+  }
   return "[" + items.join(",") + "]";
 }
 
-function serializeObject(obj: Record<string, unknown>): string {
+function serializeObject(obj: Record<string, unknown>, ctx: SerializeContext): string {
   const keys = Object.keys(obj).sort();
   const pairs: string[] = [];
 
@@ -82,7 +146,12 @@ function serializeObject(obj: Record<string, unknown>): string {
     if (val === undefined) {
       continue;
     }
-    pairs.push(serializeString(key) + ":" + serializeValue(val));
+    ctx.path.push(key);
+    if (ctx.strict && LONE_SURROGATE.test(key)) {
+      fail(ctx, "key contains a lone UTF-16 surrogate");
+    }
+    pairs.push(serializeString(key) + ":" + serializeValue(val, ctx));
+    ctx.path.pop();
   }
 
   return "{" + pairs.join(",") + "}";
@@ -0,0 +1,1029 @@
+/**
+ * Bundle verification checks that involve no hashing and no key material.
+ * verify.ts (node:crypto) and webcrypto.ts (WebCrypto) run their bundle
+ * steps through these, so both report the same steps and errors. Nothing
+ * here may import a Node built-in, directly or through another module.
+ */
+
+import { DEFAULT_HASH_ALGORITHM, GENESIS_HASH, SUPPORTED_HASH_ALGORITHMS } from "./algorithms.js";
+import type { HashAlgorithm } from "./algorithms.js";
+import { ErrorCode } from "./errors.js";
+import type { VerificationError, VerificationResult } from "./errors.js";
+import type { Jwk, JwkSet } from "./jwk.js";
+import type { BundleParseFailure } from "./parse.js";
+import { validateBundleSchema } from "./schema.js";
+import type { ProofVersion } from "./seal.js";
+import type { SignatureAlgorithm } from "./sign.js";
+import { verifyRiskTier } from "./tiers.js";
+import { checkTrustedKey, findTrustedKey } from "./trust.js";
+import type { TrustStore } from "./trust.js";
+import type { EvidenceBundle, Signature } from "./schemas/evidence-bundle.js";
+import type { PolicyPack } from "./schemas/policy-pack.js";
+import type {
+  BundleVerificationOptions,
+  ProofVerificationOptions,
+  PublicKeyMaterial,
+  SignatureVerificationOptions,
+  VerificationReport,
+  VerificationStep,
+} from "./verify.js";
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Constant-time string comparison over UTF-8 bytes, like safeEqual in
+ * verify.ts but without Buffer.
+ */
+export function constantTimeEqual(left: string, right: string): boolean {
+  const bytesLeft = textEncoder.encode(left);
+  const bytesRight = textEncoder.encode(right);
+  if (bytesLeft.length !== bytesRight.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < bytesLeft.length; i++) {
+    difference |= bytesLeft[i] ^ bytesRight[i];
+  }
+  return difference === 0;
+}
+
+// ---------------------------------------------------------------------------
+// Keys and signatures
+// ---------------------------------------------------------------------------
+
+interface JwkProfile {
+  kty: string;
+  crv?: string;
+  alg: string;
+}
+
+const JWK_PROFILES: Record<Exclude<SignatureAlgorithm, "hmac-sha256">, JwkProfile> = {
+  "ed25519": { kty: "OKP", crv: "Ed25519", alg: "EdDSA" },
+  "rsa-sha256": { kty: "RSA", alg: "RS256" },
+  "ecdsa-p256": { kty: "EC", crv: "P-256", alg: "ES256" },
+};
+
+/** Find the key whose kid equals keyId. */
+export function findJwk(set: JwkSet, keyId: string): Jwk | undefined {
+  return set.keys.find((jwk) => jwk.kid === keyId);
+}
+
+/**
+ * Check a JWK against a signature algorithm.
+ * Returns a human-readable reason if the key cannot be used, or null.
+ */
+export function jwkAlgorithmMismatch(
+  jwk: Jwk,
+  algorithm: SignatureAlgorithm,
+): string | null {
+  if (algorithm === "hmac-sha256") {
+    return "JWK keys are not used for hmac-sha256 signatures";
+  }
+  const profile = JWK_PROFILES[algorithm];
+  if (!profile) {
+    return `unsupported algorithm ${String(algorithm)}`;
+  }
+  if (jwk.kty !== profile.kty) {
+    return `kty ${jwk.kty} does not match ${algorithm} (expected ${profile.kty})`;
+  }
+  if (profile.crv !== undefined && jwk.crv !== profile.crv) {
+    return `crv ${String(jwk.crv)} does not match ${algorithm} (expected ${profile.crv})`;
+  }
+  if (jwk.alg !== undefined && jwk.alg !== profile.alg) {
+    return `alg ${jwk.alg} does not match ${algorithm} (expected ${profile.alg})`;
+  }
+  if (jwk.use !== undefined && jwk.use !== "sig") {
+    return `use ${jwk.use} is not a signature key`;
+  }
+  return null;
+}
+
+/**
+ * Multi-signature requirements. Quorums count distinct verified keys, not
+ * signer_id labels: signer_id is not signed, so one key's signature copied
+ * under another name still counts once. allowedSigners and roles go by
+ * signer_id, which only names a key's owner when signerKeys binds it.
+ */
+export interface SignaturePolicy {
+  /** Minimum number of distinct signers, each with a valid signature from a distinct key. */
+  minSignatures?: number;
+  /** If set, only signatures from these signer_ids count toward the policy. */
+  allowedSigners?: string[];
+  /** Map of signer_id -> roles held by that signer. */
+  signerRoles?: Record<string, string[]>;
+  /** Each role must be held by at least one valid, eligible signer. */
+  requiredRoles?: string[];
+  /**
+   * Map of signer_id -> key ids (publicKeys entries, JWK kids or trust
+   * store key_ids) that signer signs with. When set, a valid signature
+   * whose key is not bound to its signer_id fails with SIGNER_KEY_MISMATCH
+   * and does not count. HMAC signatures have no key id and never match.
+   */
+  signerKeys?: Record<string, string[]>;
+  /** Reject repeated signer_id, public_key_id or key across signatures. */
+  uniqueSigners?: boolean;
+}
+
+/** A signature that verified, and the key it verified with. */
+export interface VerifiedSignature {
+  signature: Signature;
+  /** The publicKeys entry, JWK kid or trust store key_id the key resolved from; absent for HMAC. */
+  keyId?: string;
+  /**
+   * The key itself (base64 SPKI DER, or "hmac-sha256" for the shared
+   * secret), so one key reached through several ids is one key.
+   */
+  keyFingerprint: string;
+}
+
+/** How one signature fared: the error, or the key it verified with. */
+export type SignatureOutcome = { error: VerificationError } | Omit<VerifiedSignature, "signature">;
+
+type KeyResolution =
+  | { material: PublicKeyMaterial; keyId: string }
+  | { material: null }
+  | { error: VerificationError };
+
+/**
+ * Lookup order: publicKeys[public_key_id], then the JWKS entry whose kid
+ * matches, then publicKeys.default.
+ */
+function resolvePublicKey(
+  signature: Signature,
+  options: SignatureVerificationOptions | undefined,
+): KeyResolution {
+  const keyId = signature.public_key_id || "default";
+  const key =
+    options?.publicKeys?.[keyId] ?? (options?.jwks ? findJwk(options.jwks, keyId) : undefined);
+  if (key !== undefined) {
+    return { material: key, keyId };
+  }
+  const fallback = options?.publicKeys?.default;
+  return fallback !== undefined ? { material: fallback, keyId: "default" } : { material: null };
+}
+
+/**
+ * Resolve a signature's key through the trust store, enforcing the key's
+ * allowed algorithms, validity window and revocation.
+ */
+function resolveTrustedPublicKey(
+  signature: Signature,
+  trustStore: TrustStore,
+): KeyResolution {
+  const keyId = signature.public_key_id || "default";
+  const trusted = findTrustedKey(trustStore, keyId);
+  if (!trusted) {
+    return {
+      error: {
+        code: ErrorCode.KEY_NOT_TRUSTED,
+        message: `Key ${keyId} is not in the trust store`,
+        details: { signature_id: signature.signature_id, public_key_id: keyId },
+      },
+    };
+  }
+  const violation = checkTrustedKey(trusted, signature);
+  if (violation) {
+    return { error: violation };
+  }
+  return { material: trusted.public_key, keyId: trusted.key_id };
+}
+
+/** What a signature is verified with, once everything short of cryptography has passed. */
+export type SignatureKey =
+  | { algorithm: "hmac-sha256"; secret: string }
+  | { algorithm: "ed25519" | "rsa-sha256" | "ecdsa-p256"; material: PublicKeyMaterial; keyId: string };
+
+/**
+ * Every check on a signature that comes before cryptography: it has a
+ * value, its algorithm is supported, and a usable secret or public key
+ * resolves for it. Returns the key to verify with, or the error.
+ */
+export function resolveSignatureKey(
+  sig: Signature,
+  options: SignatureVerificationOptions | undefined,
+): SignatureKey | { error: VerificationError } {
+  if (!sig.signature_value) {
+    return {
+      error: {
+        code: ErrorCode.SIGNATURE_INVALID,
+        message: "Signature missing signature_value",
+        details: { signature_id: sig.signature_id },
+      },
+    };
+  }
+
+  const algo = sig.algorithm;
+  if (algo === "hmac-sha256") {
+    if (!options?.hmacSecret) {
+      return {
+        error: {
+          code: ErrorCode.SIGNATURE_INVALID,
+          message: "HMAC signature present but no hmacSecret provided",
+          details: { signature_id: sig.signature_id },
+        },
+      };
+    }
+    return { algorithm: algo, secret: options.hmacSecret };
+  }
+
+  if (algo !== "ed25519" && algo !== "rsa-sha256" && algo !== "ecdsa-p256") {
+    return {
+      error: {
+        code: ErrorCode.SIGNATURE_INVALID,
+        message: `Unsupported signature algorithm: ${String(algo)}`,
+        details: { signature_id: sig.signature_id, algorithm: algo },
+      },
+    };
+  }
+
+  const resolution = options?.trustStore
+    ? resolveTrustedPublicKey(sig, options.trustStore)
+    : resolvePublicKey(sig, options);
+  if ("error" in resolution) {
+    return resolution;
+  }
+  if (!resolution.material) {
+    return {
+      error: {
+        code: ErrorCode.SIGNATURE_INVALID,
+        message: "No public key available for signature",
+        details: { signature_id: sig.signature_id, public_key_id: sig.public_key_id },
+      },
+    };
+  }
+
+  const { material, keyId } = resolution;
+  if (typeof material !== "string") {
+    const mismatch = jwkAlgorithmMismatch(material, algo);
+    if (mismatch) {
+      return {
+        error: {
+          code: ErrorCode.KEY_ALGORITHM_MISMATCH,
+          message: `JWK ${material.kid ?? ""} cannot verify ${algo} signature: ${mismatch}`,
+          details: {
+            signature_id: sig.signature_id,
+            public_key_id: sig.public_key_id,
+            algorithm: algo,
+            kty: material.kty,
+            crv: material.crv,
+            alg: material.alg,
+          },
+        },
+      };
+    }
+  }
+  return { algorithm: algo, material, keyId };
+}
+
+/**
+ * Check signature presence and quorum rules against a signature policy.
+ *
+ * Trace rationale: only cryptographically valid signatures from eligible
+ * signers count toward the threshold and required roles, so a forged or
+ * unlisted signature can never satisfy a quorum. The threshold counts
+ * distinct keys as well as distinct signer_ids, since signer_id is an
+ * unsigned label. Duplicate detection runs over every present signature,
+ * valid or not, and over the keys of the valid ones.
+ */
+export function verifySignaturePolicy(
+  signatures: Signature[],
+  verified: VerifiedSignature[],
+  policy: SignaturePolicy,
+): VerificationResult {
+  const errors: VerificationError[] = [];
+
+  if (policy.uniqueSigners) {
+    const seenSigners = new Set<string>();
+    const seenKeys = new Set<string>();
+    for (const sig of signatures) {
+      if (seenSigners.has(sig.signer_id)) {
+        errors.push({
+          code: ErrorCode.DUPLICATE_SIGNER,
+          message: `Signer ${sig.signer_id} signed the bundle more than once`,
+          details: { signature_id: sig.signature_id, signer_id: sig.signer_id },
+        });
+      } else if (sig.public_key_id !== undefined && seenKeys.has(sig.public_key_id)) {
+        errors.push({
+          code: ErrorCode.DUPLICATE_SIGNER,
+          message: `Key ${sig.public_key_id} was used by more than one signature`,
+          details: { signature_id: sig.signature_id, public_key_id: sig.public_key_id },
+        });
+      }
+      seenSigners.add(sig.signer_id);
+      if (sig.public_key_id !== undefined) {
+        seenKeys.add(sig.public_key_id);
+      }
+    }
+    // A key relabelled with a fresh signer_id and public_key_id passes the
+    // checks above, so also compare the keys the signatures verified with.
+    const reported = new Set(errors.map((error) => error.details?.signature_id));
+    const seenFingerprints = new Set<string>();
+    for (const { signature, keyFingerprint } of verified) {
+      if (seenFingerprints.has(keyFingerprint) && !reported.has(signature.signature_id)) {
+        errors.push({
+          code: ErrorCode.DUPLICATE_SIGNER,
+          message: `Signature ${signature.signature_id} was made with a key that already signed the bundle`,
+          details: { signature_id: signature.signature_id, signer_id: signature.signer_id },
+        });
+      }
+      seenFingerprints.add(keyFingerprint);
+    }
+  }
+
+  const eligible: VerifiedSignature[] = [];
+  for (const entry of verified) {
+    const { signature, keyId } = entry;
+    if (policy.allowedSigners && !policy.allowedSigners.includes(signature.signer_id)) {
+      continue;
+    }
+    if (policy.signerKeys && (keyId === undefined || !policy.signerKeys[signature.signer_id]?.includes(keyId))) {
+      errors.push({
+        code: ErrorCode.SIGNER_KEY_MISMATCH,
+        message: `Signature ${signature.signature_id} was not made with a key bound to signer ${signature.signer_id}`,
+        details: {
+          signature_id: signature.signature_id,
+          signer_id: signature.signer_id,
+          key_id: keyId,
+          bound_keys: policy.signerKeys[signature.signer_id] ?? [],
+        },
+      });
+      continue;
+    }
+    eligible.push(entry);
+  }
+  const signers = new Set(eligible.map(({ signature }) => signature.signer_id));
+  const keys = new Set(eligible.map(({ keyFingerprint }) => keyFingerprint));
+  const count = Math.min(signers.size, keys.size);
+
+  const threshold = policy.minSignatures ?? 0;
+  if (count < threshold) {
+    errors.push({
+      code: ErrorCode.SIGNATURE_THRESHOLD_NOT_MET,
+      message: `Signature threshold not met: ${count} of ${threshold} required signers`,
+      details: {
+        required: threshold,
+        actual: count,
+        signers: [...signers],
+        distinct_keys: keys.size,
+        allowed_signers: policy.allowedSigners,
+      },
+    });
+  }
+
+  for (const role of policy.requiredRoles ?? []) {
+    const holders = [...signers].filter((signer) =>
+      (policy.signerRoles?.[signer] ?? []).includes(role),
+    );
+    if (holders.length === 0) {
+      errors.push({
+        code: ErrorCode.SIGNATURE_ROLE_MISSING,
+        message: `No valid signature from a signer with role ${role}`,
+        details: { role, signers: [...signers] },
+      });
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+export interface SignatureCheck {
+  errors: VerificationError[];
+  verified: VerifiedSignature[];
+  /** Outcome of each signature, in bundle order. */
+  entries: { signature: Signature; error: VerificationError | null }[];
+  policyErrors: VerificationError[];
+}
+
+/**
+ * Combine per-signature outcomes (outcomes[i] is the error or the key of
+ * signature i) with the signature policy, if any.
+ */
+export function summarizeSignatures(
+  signatures: Signature[],
+  outcomes: SignatureOutcome[],
+  options?: SignatureVerificationOptions,
+): SignatureCheck {
+  const errors: VerificationError[] = [];
+  const verified: VerifiedSignature[] = [];
+  const entries: SignatureCheck["entries"] = [];
+  const policyErrors: VerificationError[] = [];
+
+  signatures.forEach((sig, idx) => {
+    const outcome = outcomes[idx];
+    if ("error" in outcome) {
+      entries.push({ signature: sig, error: outcome.error });
+      errors.push(outcome.error);
+    } else {
+      entries.push({ signature: sig, error: null });
+      verified.push({ signature: sig, ...outcome });
+    }
+  });
+
+  if (options?.signaturePolicy) {
+    const policyResult = verifySignaturePolicy(signatures, verified, options.signaturePolicy);
+    policyErrors.push(...policyResult.errors);
+    errors.push(...policyResult.errors);
+  }
+
+  return { errors, verified, entries, policyErrors };
+}
+
+// ---------------------------------------------------------------------------
+// Hash algorithms and proofs
+// ---------------------------------------------------------------------------
+
+export function resolveAcceptedProofVersions(
+  options?: ProofVerificationOptions,
+): ProofVersion[] {
+  const versions = options?.acceptProofVersions;
+  if (!versions || versions.length === 0) {
+    return ["v0.2.0", "v0.3.0"];
+  }
+  if (versions.includes("legacy")) {
+    console.warn(
+      "guardspine-kernel: accepting 'legacy' proof version is deprecated. Migrate chains to 'v0.2.0'.",
+    );
+  }
+  return versions;
+}
+
+/**
+ * Check a hash algorithm against the verifier's allowlist. Unknown
+ * algorithm names are never allowed.
+ */
+export function checkHashAlgorithm(
+  algorithm: unknown,
+  options?: ProofVerificationOptions,
+): VerificationError | null {
+  const allowed = options?.acceptHashAlgorithms ?? SUPPORTED_HASH_ALGORITHMS;
+  if (SUPPORTED_HASH_ALGORITHMS.includes(algorithm as HashAlgorithm) && allowed.includes(algorithm as HashAlgorithm)) {
+    return null;
+  }
+  return {
+    code: ErrorCode.HASH_ALGORITHM_NOT_ALLOWED,
+    message: `Hash algorithm ${String(algorithm)} is not accepted`,
+    details: { algorithm, allowed },
+  };
+}
+
+/**
+ * Report every content, chain and root hash whose prefix is not the
+ * algorithm declared by the proof. Without this a chain could mix
+ * algorithms, since verifyHashChain and verifyContentHashes read the
+ * algorithm from the hashes themselves.
+ */
+export function checkHashAlgorithmConsistency(
+  bundle: EvidenceBundle,
+  algorithm: HashAlgorithm,
+): VerificationError[] {
+  const errors: VerificationError[] = [];
+  const prefix = `${algorithm}:`;
+  const report = (field: string, value: unknown, extra: Record<string, unknown>): void => {
+    if (typeof value === "string" && !value.startsWith(prefix)) {
+      errors.push({
+        code: ErrorCode.HASH_ALGORITHM_MISMATCH,
+        message: `${field} does not use declared hash algorithm ${algorithm}`,
+        details: { field, algorithm, actual: value, ...extra },
+      });
+    }
+  };
+
+  for (const item of bundle.items) {
+    report("content_hash", item.content_hash, { item_id: item.item_id });
+  }
+  for (const link of bundle.immutability_proof.hash_chain ?? []) {
+    report("chain_hash", link.chain_hash, { sequence: link.sequence });
+    if (link.previous_hash !== GENESIS_HASH) {
+      report("previous_hash", link.previous_hash, { sequence: link.sequence });
+    }
+  }
+  report("root_hash", bundle.immutability_proof.root_hash, {});
+  return errors;
+}
+
+/**
+ * Compare a bundle's policy binding with a pack whose canonical content
+ * hash is expectedHash. See verifyPolicyBinding.
+ */
+export function checkPolicyBinding(
+  bundle: EvidenceBundle,
+  pack: PolicyPack,
+  expectedHash: string,
+): VerificationResult {
+  const errors: VerificationError[] = [];
+
+  if (typeof bundle.policy_hash !== "string") {
+    errors.push({
+      code: ErrorCode.POLICY_MISMATCH,
+      message: "Bundle does not record a policy_hash",
+      details: { field: "policy_hash", expected_policy_id: pack.policy_id },
+    });
+    return { valid: false, errors };
+  }
+
+  if (!constantTimeEqual(bundle.policy_hash, expectedHash)) {
+    errors.push({
+      code: ErrorCode.POLICY_MISMATCH,
+      message: "Policy pack hash does not match bundle policy_hash",
+      details: { field: "policy_hash", expected: expectedHash, actual: bundle.policy_hash },
+    });
+  }
+
+  if (bundle.policy_id !== pack.policy_id) {
+    errors.push({
+      code: ErrorCode.POLICY_MISMATCH,
+      message: `Bundle policy_id ${String(bundle.policy_id)} does not match policy pack ${pack.policy_id}`,
+      details: { field: "policy_id", expected: pack.policy_id, actual: bundle.policy_id },
+    });
+  }
+
+  if (bundle.policy_version !== pack.version) {
+    errors.push({
+      code: ErrorCode.POLICY_MISMATCH,
+      message: `Bundle policy_version ${String(bundle.policy_version)} does not match policy pack ${pack.version}`,
+      details: { field: "policy_version", expected: pack.version, actual: bundle.policy_version },
+    });
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Sanitization attestation
+// ---------------------------------------------------------------------------
+
+export const RULE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const HASH_PATTERN = /^sha256:[a-f0-9]{64}$/;
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Validate the structure of bundle.sanitization.
+ *
+ * Trace rationale: the attestation is only meaningful on 0.2.1 bundles,
+ * must name each rule once, and its per-item counts must refer to items
+ * in the bundle and rules that ran and add up to redaction_count. This
+ * checks consistency, not that the content is actually clean; the
+ * attestation is a top-level field, so only signatures protect it.
+ */
+export function verifySanitizationAttestation(bundle: EvidenceBundle): VerificationResult {
+  const errors: VerificationError[] = [];
+  const attestation = bundle.sanitization as unknown;
+  if (attestation === undefined) {
+    return { valid: true, errors };
+  }
+
+  const fail = (message: string, details: Record<string, unknown>): VerificationResult => {
+    errors.push({ code: ErrorCode.SANITIZATION_ATTESTATION_INVALID, message, details });
+    return { valid: false, errors };
+  };
+
+  if (bundle.version !== "0.2.1") {
+    return fail("Sanitization attestation requires bundle version 0.2.1", {
+      version: bundle.version,
+    });
+  }
+  if (typeof attestation !== "object" || attestation === null || Array.isArray(attestation)) {
+    return fail("Sanitization attestation must be an object", { received: typeof attestation });
+  }
+
+  const { rules_applied, ruleset_hash, item_redactions, redaction_count } =
+    attestation as Record<string, unknown>;
+
+  if (
+    !Array.isArray(rules_applied) ||
+    !rules_applied.every((id) => typeof id === "string" && RULE_ID_PATTERN.test(id)) ||
+    new Set(rules_applied).size !== rules_applied.length
+  ) {
+    return fail("rules_applied must be an array of unique rule ids", { field: "rules_applied" });
+  }
+  if (typeof ruleset_hash !== "string" || !HASH_PATTERN.test(ruleset_hash)) {
+    return fail("ruleset_hash must be a sha256 hash", { field: "ruleset_hash" });
+  }
+  if (!isNonNegativeInteger(redaction_count)) {
+    return fail("redaction_count must be a non-negative integer", { field: "redaction_count" });
+  }
+  if (typeof item_redactions !== "object" || item_redactions === null || Array.isArray(item_redactions)) {
+    return fail("item_redactions must be an object", { field: "item_redactions" });
+  }
+
+  const itemIds = new Set((bundle.items ?? []).map((item) => item.item_id));
+  const rules = new Set(rules_applied as string[]);
+  let total = 0;
+  for (const [itemId, counts] of Object.entries(item_redactions)) {
+    if (!itemIds.has(itemId)) {
+      errors.push({
+        code: ErrorCode.SANITIZATION_ATTESTATION_INVALID,
+        message: `item_redactions names unknown item ${itemId}`,
+        details: { field: "item_redactions", item_id: itemId },
+      });
+      continue;
+    }
+    if (typeof counts !== "object" || counts === null || Array.isArray(counts)) {
+      errors.push({
+        code: ErrorCode.SANITIZATION_ATTESTATION_INVALID,
+        message: `item_redactions for ${itemId} must be an object`,
+        details: { field: "item_redactions", item_id: itemId },
+      });
+      continue;
+    }
+    for (const [ruleId, count] of Object.entries(counts)) {
+      if (!rules.has(ruleId) || !isNonNegativeInteger(count)) {
+        errors.push({
+          code: ErrorCode.SANITIZATION_ATTESTATION_INVALID,
+          message: `item_redactions for ${itemId} has an invalid count for rule ${ruleId}`,
+          details: { field: "item_redactions", item_id: itemId, rule_id: ruleId, count },
+        });
+        continue;
+      }
+      total += count;
+    }
+  }
+
+  if (errors.length === 0 && total !== redaction_count) {
+    errors.push({
+      code: ErrorCode.SANITIZATION_ATTESTATION_INVALID,
+      message: `redaction_count ${redaction_count} does not equal the per-item total ${total}`,
+      details: { field: "redaction_count", expected: total, actual: redaction_count },
+    });
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Bundle steps
+// ---------------------------------------------------------------------------
+
+/** Every top-level step in the order verifyBundle runs them. */
+export const BUNDLE_STEPS = [
+  "schema",
+  "required_fields",
+  "version",
+  "sanitization",
+  "hash_algorithm",
+  "content_hashes",
+  "hash_chain",
+  "root_hash",
+  "cross_check",
+  "signatures",
+  "signature_policy",
+  "risk_tier",
+  "policy_binding",
+  "timestamps",
+  "log_inclusion",
+  "references",
+];
+
+export function stepOf(
+  step: string,
+  inputs: Record<string, unknown>,
+  errors: VerificationError[],
+  skipReason?: string,
+): VerificationStep {
+  if (skipReason !== undefined) {
+    return { step, status: "skipped", reason: skipReason, inputs, errors: [] };
+  }
+  return errors.length === 0
+    ? { step, status: "passed", inputs, errors }
+    : { step, status: "failed", reason: errors[0].message, inputs, errors };
+}
+
+export function resultFromReport(report: VerificationReport): VerificationResult {
+  const errors = report.steps.flatMap((step) => step.errors);
+  return report.redacted_items
+    ? { valid: errors.length === 0, errors, redactedItems: report.redacted_items }
+    : { valid: errors.length === 0, errors };
+}
+
+/** Collects the steps of one bundle's report. */
+export interface StepRecorder {
+  record(step: string, inputs: Record<string, unknown>, errors: VerificationError[], skipReason?: string): void;
+  /** The report so far; with stoppedReason, every step not yet recorded is skipped. */
+  finish(redactedItems?: string[], stoppedReason?: string): VerificationReport;
+}
+
+export function createStepRecorder(bundle: EvidenceBundle): StepRecorder {
+  const steps: VerificationStep[] = [];
+  const record: StepRecorder["record"] = (step, inputs, errors, skipReason) => {
+    steps.push(stepOf(step, inputs, errors, skipReason));
+  };
+  const finish: StepRecorder["finish"] = (redactedItems, stoppedReason) => {
+    if (stoppedReason !== undefined) {
+      for (const name of BUNDLE_STEPS) {
+        if (!steps.some((step) => step.step === name)) {
+          record(name, {}, [], stoppedReason);
+        }
+      }
+    }
+    const report: VerificationReport = {
+      report_version: "1.0",
+      bundle_id: bundle.bundle_id,
+      root_hash: bundle.immutability_proof?.root_hash,
+      valid: steps.every((step) => step.status !== "failed"),
+      steps,
+    };
+    if (redactedItems) {
+      report.redacted_items = redactedItems;
+    }
+    return report;
+  };
+  return { record, finish };
+}
+
+/** Report for bundle bytes that do not parse: every other step is skipped. */
+export function parseFailureReport(byteLength: number, failure: BundleParseFailure): VerificationReport {
+  const { message, offset, pointer } = failure;
+  const parseStep = stepOf("parse", { byte_length: byteLength }, [
+    {
+      code: ErrorCode.BUNDLE_PARSE_FAILED,
+      message: `Bundle bytes do not parse: ${message} at byte ${offset}`,
+      details: { reason: message, offset, pointer },
+    },
+  ]);
+  return {
+    report_version: "1.0",
+    valid: false,
+    steps: [
+      parseStep,
+      ...BUNDLE_STEPS.map((name) => stepOf(name, {}, [], "bundle bytes could not be parsed")),
+    ],
+  };
+}
+
+/** Prefix a parsed bundle's report with its "parse" step. */
+export function withParseStep(report: VerificationReport, byteLength: number, canonical: boolean): VerificationReport {
+  const parseStep = stepOf("parse", { byte_length: byteLength, canonical }, []);
+  return { ...report, steps: [parseStep, ...report.steps] };
+}
+
+/**
+ * Schema violations that a later step reports with a more specific code
+ * (MISSING_REQUIRED_FIELD, UNSUPPORTED_VERSION, HASH_ALGORITHM_NOT_ALLOWED,
+ * RISK_TIER_MISSING, SANITIZATION_ATTESTATION_INVALID). Those steps handle
+ * any value safely, so verification continues to reach them.
+ */
+function delegatedSchemaError(
+  error: VerificationError,
+  options: BundleVerificationOptions | undefined,
+): boolean {
+  const pointer = error.details?.pointer as string;
+  if (pointer === "") {
+    return error.details?.keyword === "required";
+  }
+  if (
+    pointer === "/version" ||
+    pointer === "/immutability_proof/hash_algorithm" ||
+    pointer === "/immutability_proof/proof_version"
+  ) {
+    return true;
+  }
+  if (pointer === "/risk_tier") {
+    return options?.riskTierProfiles !== undefined;
+  }
+  return pointer === "/sanitization" || pointer.startsWith("/sanitization/");
+}
+
+/**
+ * The steps before any hashing: schema, required_fields, version,
+ * sanitization and hash_algorithm. Returns the reason to stop, if the
+ * remaining steps cannot run.
+ */
+export function runStructureSteps(
+  bundle: EvidenceBundle,
+  options: BundleVerificationOptions | undefined,
+  record: StepRecorder["record"],
+): string | undefined {
+  // Structure first: every later step assumes well-typed fields.
+  const assertFormats = options?.assertSchemaFormats ?? false;
+  const schemaErrors = validateBundleSchema(bundle, { assertFormats }).errors.filter(
+    (error) => !delegatedSchemaError(error, options),
+  );
+  record("schema", { assert_formats: assertFormats }, schemaErrors);
+  if (schemaErrors.length > 0) {
+    return "bundle does not match the schema";
+  }
+
+  // Check required fields
+  const requiredFields: (keyof EvidenceBundle)[] = [
+    "bundle_id",
+    "version",
+    "created_at",
+    "items",
+    "immutability_proof",
+  ];
+
+  const fieldErrors: VerificationError[] = [];
+  for (const field of requiredFields) {
+    if (bundle[field] === undefined || bundle[field] === null) {
+      fieldErrors.push({
+        code: ErrorCode.MISSING_REQUIRED_FIELD,
+        message: `Missing required field: ${field}`,
+        details: { field },
+      });
+    }
+  }
+  record("required_fields", { fields: requiredFields }, fieldErrors);
+
+  // Verify bundle version VALUE (not just presence).
+  // v0.2.1 adds optional sanitization metadata; proof format is unchanged from v0.2.0.
+  const SUPPORTED_VERSIONS = ["0.2.0", "0.2.1"];
+  const versionInputs = { version: bundle.version, supported: SUPPORTED_VERSIONS };
+  if (!bundle.version) {
+    record("version", versionInputs, [], "bundle has no version");
+  } else if (!SUPPORTED_VERSIONS.includes(bundle.version)) {
+    record("version", versionInputs, [
+      {
+        code: ErrorCode.UNSUPPORTED_VERSION,
+        message: `Unsupported bundle version: ${bundle.version}. Supported: ${SUPPORTED_VERSIONS.join(", ")}`,
+        details: { version: bundle.version, supported: SUPPORTED_VERSIONS },
+      },
+    ]);
+  } else {
+    record("version", versionInputs, []);
+  }
+
+  // If critical fields missing, return early
+  if (!bundle.items || !bundle.immutability_proof) {
+    return "items or immutability_proof is missing";
+  }
+  const proof = bundle.immutability_proof;
+
+  // v0.2.1 sanitization attestation, when present
+  if (bundle.sanitization === undefined) {
+    record("sanitization", {}, [], "bundle has no sanitization attestation");
+  } else {
+    record(
+      "sanitization",
+      { ruleset_hash: bundle.sanitization.ruleset_hash },
+      verifySanitizationAttestation(bundle).errors,
+    );
+  }
+
+  // Hash algorithm: allowed, and used by every hash in the bundle
+  const hashAlgorithm = proof.hash_algorithm ?? DEFAULT_HASH_ALGORITHM;
+  const algorithmInputs = {
+    hash_algorithm: hashAlgorithm,
+    accepted: options?.acceptHashAlgorithms ?? SUPPORTED_HASH_ALGORITHMS,
+  };
+  const algorithmError = checkHashAlgorithm(hashAlgorithm, options);
+  if (algorithmError) {
+    record("hash_algorithm", algorithmInputs, [algorithmError]);
+    return "hash algorithm is not accepted";
+  }
+  record("hash_algorithm", algorithmInputs, checkHashAlgorithmConsistency(bundle, hashAlgorithm));
+  return undefined;
+}
+
+/** The cross_check step: items and chain links must agree position by position. */
+export function crossCheckErrors(bundle: EvidenceBundle): VerificationError[] {
+  // Verify items count matches chain length
+  const crossErrors: VerificationError[] = [];
+  const chain = bundle.immutability_proof.hash_chain;
+  if (bundle.items.length !== chain.length) {
+    crossErrors.push({
+      code: ErrorCode.LENGTH_MISMATCH,
+      message: `Items count (${bundle.items.length}) does not match chain length (${chain.length})`,
+      details: { items: bundle.items.length, chain: chain.length },
+    });
+  }
+
+  // Cross-check: chain content_hash, item_id, content_type, sequence should match items
+  for (let seq = 0; seq < bundle.items.length && seq < chain.length; seq++) {
+    const item = bundle.items[seq];
+    const link = chain[seq];
+
+    // Verify item.sequence matches its position
+    if (item.sequence !== seq) {
+      crossErrors.push({
+        code: ErrorCode.SEQUENCE_GAP,
+        message: `Item ${seq} has sequence ${item.sequence}, expected ${seq}`,
+        details: { sequence: seq, item_sequence: item.sequence },
+      });
+    }
+
+    if (!constantTimeEqual(item.content_hash, link.content_hash)) {
+      crossErrors.push({
+        code: ErrorCode.CONTENT_HASH_MISMATCH,
+        message: `Item ${seq} content_hash does not match chain link`,
+        details: {
+          sequence: seq,
+          item_hash: item.content_hash,
+          chain_hash: link.content_hash,
+        },
+      });
+    }
+
+    // v0.2.0: verify item_id and content_type are bound to the chain
+    if (link.item_id !== undefined && !constantTimeEqual(item.item_id, link.item_id)) {
+      crossErrors.push({
+        code: ErrorCode.CONTENT_HASH_MISMATCH,
+        message: `Item ${seq} item_id does not match chain link`,
+        details: { sequence: seq, item_id: item.item_id, chain_item_id: link.item_id },
+      });
+    }
+
+    if (link.content_type !== undefined && !constantTimeEqual(item.content_type, link.content_type)) {
+      crossErrors.push({
+        code: ErrorCode.CONTENT_HASH_MISMATCH,
+        message: `Item ${seq} content_type does not match chain link`,
+        details: { sequence: seq, content_type: item.content_type, chain_content_type: link.content_type },
+      });
+    }
+  }
+  return crossErrors;
+}
+
+/** Where a signature's key is resolved from, as recorded in reports. */
+function describeKeySource(
+  sig: Signature,
+  options: SignatureVerificationOptions | undefined,
+): string {
+  if (sig.algorithm === "hmac-sha256") {
+    return options?.hmacSecret ? "hmac_secret" : "none";
+  }
+  if (options?.trustStore) {
+    return "trust_store";
+  }
+  const keyId = sig.public_key_id || "default";
+  if (options?.publicKeys?.[keyId] !== undefined) {
+    return "public_keys";
+  }
+  if (options?.jwks && findJwk(options.jwks, keyId)) {
+    return "jwks";
+  }
+  return options?.publicKeys?.default !== undefined ? "public_keys" : "none";
+}
+
+/**
+ * The signature and policy steps that follow cross_check: one "signature"
+ * step per signature, then signature_policy, risk_tier and policy_binding.
+ * usesLegacyProof and policyHash are computed by the caller, which owns the
+ * hashing; policyHash is only read when options.policyPack is set.
+ */
+export function recordSignatureAndPolicySteps(
+  bundle: EvidenceBundle,
+  sigResult: SignatureCheck,
+  context: { usesLegacyProof: boolean; policyHash?: string },
+  options: BundleVerificationOptions | undefined,
+  record: StepRecorder["record"],
+): void {
+  if ((bundle.signatures ?? []).length === 0) {
+    record("signatures", { signatures: 0 }, [], "bundle has no signatures");
+  }
+  for (const { signature, error } of sigResult.entries) {
+    record(
+      "signature",
+      {
+        signature_id: signature.signature_id,
+        algorithm: signature.algorithm,
+        signer_id: signature.signer_id,
+        public_key_id: signature.public_key_id,
+        key_source: describeKeySource(signature, options),
+      },
+      error ? [error] : [],
+    );
+  }
+  if (options?.signaturePolicy) {
+    record(
+      "signature_policy",
+      {
+        valid_signatures: sigResult.verified.length,
+        min_signatures: options.signaturePolicy.minSignatures,
+        required_roles: options.signaturePolicy.requiredRoles,
+        allowed_signers: options.signaturePolicy.allowedSigners,
+        signer_keys: options.signaturePolicy.signerKeys,
+        unique_signers: options.signaturePolicy.uniqueSigners,
+      },
+      sigResult.policyErrors,
+    );
+  } else {
+    record("signature_policy", {}, [], "no signaturePolicy given");
+  }
+
+  if (options?.riskTierProfiles) {
+    const tierResult = verifyRiskTier(bundle, options.riskTierProfiles, {
+      verifiedSignatures: sigResult.verified,
+      usesLegacyProof: context.usesLegacyProof,
+    });
+    record(
+      "risk_tier",
+      { risk_tier: bundle.risk_tier, valid_signatures: sigResult.verified.length },
+      tierResult.errors,
+    );
+  } else {
+    record("risk_tier", { risk_tier: bundle.risk_tier }, [], "no riskTierProfiles given");
+  }
+
+  if (options?.policyPack) {
+    record(
+      "policy_binding",
+      { policy_id: options.policyPack.policy_id, policy_version: options.policyPack.version },
+      checkPolicyBinding(bundle, options.policyPack, context.policyHash ?? "").errors,
+    );
+  } else {
+    record("policy_binding", { policy_id: bundle.policy_id }, [], "no policyPack given");
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Minimal DER decoder for @guardspine/kernel.
+ * Covers the subset of ASN.1 needed to read RFC 3161 timestamp tokens
+ * (CMS SignedData): definite lengths only, single-byte tags, and a handful
+ * of primitive types. Anything outside that subset throws.
+ */
+
+export const DER_TAG = {
+  INTEGER: 0x02,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+  GENERALIZED_TIME: 0x18,
+} as const;
+
+export interface DerNode {
+  /** Full identifier octet, e.g. 0x30 for SEQUENCE or 0xa0 for [0] constructed. */
+  tag: number;
+  constructed: boolean;
+  /** The complete encoding (header and content). */
+  der: Buffer;
+  /** The content octets. */
+  content: Buffer;
+  /** Child nodes when constructed, otherwise empty. */
+  children: DerNode[];
+}
+
+const MAX_DEPTH = 32;
+
+function parseNode(buf: Buffer, offset: number, depth: number): DerNode {
+  if (depth > MAX_DEPTH) {
+    throw new Error("parseDer: nesting too deep");
+  }
+  if (offset + 2 > buf.length) {
+    throw new Error("parseDer: truncated header");
+  }
+  const tag = buf[offset];
+  if ((tag & 0x1f) === 0x1f) {
+    throw new Error("parseDer: multi-byte tags are not supported");
+  }
+
+  let length = buf[offset + 1];
+  let headerLength = 2;
+  if (length === 0x80) {
+    throw new Error("parseDer: indefinite length is not allowed in DER");
+  }
+  if (length > 0x80) {
+    const octets = length & 0x7f;
+    if (octets > 4 || offset + 2 + octets > buf.length) {
+      throw new Error("parseDer: unsupported length encoding");
+    }
+    length = 0;
+    for (let i = 0; i < octets; i++) {
+      length = length * 256 + buf[offset + 2 + i];
+    }
+    if (length < 0x80 || buf[offset + 2] === 0) {
+      throw new Error("parseDer: non-minimal length encoding");
+    }
+    headerLength += octets;
+  }
+
+  const end = offset + headerLength + length;
+  if (end > buf.length) {
+    throw new Error("parseDer: content exceeds input");
+  }
+
+  const constructed = (tag & 0x20) !== 0;
+  const content = buf.subarray(offset + headerLength, end);
+  const children: DerNode[] = [];
+  if (constructed) {
+    let pos = 0;
+    while (pos < content.length) {
+      const child = parseNode(content, pos, depth + 1);
+      children.push(child);
+      pos += child.der.length;
+    }
+  }
+
+  return { tag, constructed, der: buf.subarray(offset, end), content, children };
+}
+
+/** Decode exactly one DER element. Trailing bytes are an error. */
+export function parseDer(input: Uint8Array): DerNode {
+  const buf = Buffer.from(input.buffer, input.byteOffset, input.byteLength);
+  const node = parseNode(buf, 0, 0);
+  if (node.der.length !== buf.length) {
+    throw new Error("parseDer: trailing data after element");
+  }
+  return node;
+}
+
+/** Assert a node's tag and return it. */
+export function expectTag(node: DerNode | undefined, tag: number, what: string): DerNode {
+  if (!node || node.tag !== tag) {
+    const actual = node ? `0x${node.tag.toString(16)}` : "nothing";
+    throw new Error(`parseDer: expected ${what} (0x${tag.toString(16)}), found ${actual}`);
+  }
+  return node;
+}
+
+/** Dotted-decimal form of an OBJECT IDENTIFIER. */
+export function decodeOid(node: DerNode): string {
+  expectTag(node, DER_TAG.OID, "OBJECT IDENTIFIER");
+  const bytes = node.content;
+  if (bytes.length === 0) {
+    throw new Error("parseDer: empty OBJECT IDENTIFIER");
+  }
+  const arcs: number[] = [];
+  let value = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    value = value * 128 + (bytes[i] & 0x7f);
+    if (value > Number.MAX_SAFE_INTEGER / 128) {
+      throw new Error("parseDer: OBJECT IDENTIFIER arc too large");
+    }
+    if ((bytes[i] & 0x80) === 0) {
+      arcs.push(value);
+      value = 0;
+    } else if (i === bytes.length - 1) {
+      throw new Error("parseDer: truncated OBJECT IDENTIFIER");
+    }
+  }
+  const first = arcs[0] < 80 ? Math.floor(arcs[0] / 40) : 2;
+  return [first, arcs[0] - first * 40, ...arcs.slice(1)].join(".");
+}
+
+/** Lower-case hex of an INTEGER's magnitude, without leading zero octets. */
+export function decodeIntegerHex(node: DerNode): string {
+  expectTag(node, DER_TAG.INTEGER, "INTEGER");
+  const hex = node.content.toString("hex").replace(/^(00)+(?=.)/, "");
+  return hex.length === 0 ? "00" : hex;
+}
+
+/** Parse GeneralizedTime in the UTC form RFC 3161 requires (YYYYMMDDHHMMSS[.f]Z). */
+export function decodeGeneralizedTime(node: DerNode): Date {
+  expectTag(node, DER_TAG.GENERALIZED_TIME, "GeneralizedTime");
+  const text = node.content.toString("latin1");
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(?:\.(\d{1,9}))?Z$/.exec(text);
+  if (!match) {
+    throw new Error(`parseDer: invalid GeneralizedTime ${JSON.stringify(text)}`);
+  }
+  const [, y, mo, d, h, mi, s, frac] = match;
+  const ms = frac ? Math.floor(Number(`0.${frac}`) * 1000) : 0;
+  const date = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s, ms));
+  if (Number.isNaN(date.getTime()) || date.getUTCDate() !== +d || date.getUTCMonth() !== +mo - 1) {
+    throw new Error(`parseDer: invalid GeneralizedTime ${JSON.stringify(text)}`);
+  }
+  return date;
+}
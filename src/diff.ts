@@ -0,0 +1,441 @@
+/**
+ * Bundle diffing for @guardspine/kernel.
+ * verifyBundle says that a bundle was changed; these functions say what
+ * changed. diffBundles compares two bundles item by item, and
+ * diffBundleChain compares a bundle's items with its own hash chain to find
+ * the first link that no longer matches what was sealed.
+ */
+
+import { canonicalJson } from "./canonical.js";
+import { DEFAULT_HASH_ALGORITHM, isHashAlgorithm } from "./hash.js";
+import { isRedactedContent } from "./redact.js";
+import {
+  GENESIS_HASH,
+  chainHashV020,
+  computeContentHash,
+  computeMerkleRootHash,
+  computeRootHash,
+} from "./seal.js";
+import type { EvidenceBundle, EvidenceItem, Signature } from "./schemas/evidence-bundle.js";
+
+/** One structural difference, in RFC 6902 (JSON Patch) terms. */
+export interface JsonChange {
+  op: "add" | "remove" | "replace";
+  /** JSON Pointer (RFC 6901) of the changed value. */
+  pointer: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ItemChange {
+  /**
+   * "reordered": only the item's position relative to the other items
+   * changed. A modified item that also moved has a /sequence change.
+   */
+  kind: "added" | "removed" | "modified" | "reordered";
+  item_id: string;
+  before_sequence?: number;
+  after_sequence?: number;
+  /** Changes within the item, with pointers relative to it (e.g. /content/score). */
+  changes: JsonChange[];
+}
+
+export interface SignatureChange {
+  kind: "added" | "removed" | "modified";
+  signature_id: string;
+  /** Changes within the signature, with pointers relative to it. */
+  changes: JsonChange[];
+}
+
+export interface BundleDiff {
+  identical: boolean;
+  items: ItemChange[];
+  signatures: SignatureChange[];
+  /** Top-level fields other than items, immutability_proof and signatures. */
+  metadata: JsonChange[];
+  /** Changes under /immutability_proof. */
+  proof: JsonChange[];
+}
+
+export interface LinkDivergence {
+  sequence: number;
+  item_id?: string;
+  /** JSON Pointer of the value that no longer matches. */
+  pointer: string;
+  reason: string;
+  /** The sealed (or recomputed) value. */
+  expected: unknown;
+  /** The value the bundle now holds. */
+  actual: unknown;
+}
+
+export interface ChainDiff {
+  /** The earliest divergence in chain order, or null if items and chain agree. */
+  first_divergence: LinkDivergence | null;
+  divergences: LinkDivergence[];
+  /** expected is null when a link is not an object, so no root can be recomputed. */
+  root_hash: { expected: string | null; actual: string; matches: boolean };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function pointerSegment(segment: string | number): string {
+  return String(segment).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/** Structural diff; undefined counts as absent, as in canonicalJson. */
+function diffJson(before: unknown, after: unknown, pointer: string, changes: JsonChange[]): void {
+  if (before === undefined && after === undefined) {
+    return;
+  }
+  if (before === undefined) {
+    changes.push({ op: "add", pointer, after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ op: "remove", pointer, before });
+    return;
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    for (const key of keys) {
+      diffJson(before[key], after[key], `${pointer}/${pointerSegment(key)}`, changes);
+    }
+    return;
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      diffJson(before[i], after[i], `${pointer}/${i}`, changes);
+    }
+    return;
+  }
+  if (canonicalJson(before) !== canonicalJson(after)) {
+    changes.push({ op: "replace", pointer, before, after });
+  }
+}
+
+/**
+ * Pair entries of two lists by key, in order, so a repeated key pairs its
+ * first occurrences first. Returns [beforeIndex, afterIndex] pairs and the
+ * unpaired indexes of each side.
+ */
+function alignBy<T>(
+  before: T[],
+  after: T[],
+  keyOf: (entry: T, index: number) => string,
+): { pairs: [number, number][]; removed: number[]; added: number[] } {
+  const queues = new Map<string, number[]>();
+  after.forEach((entry, index) => {
+    const key = keyOf(entry, index);
+    const queue = queues.get(key);
+    if (queue) {
+      queue.push(index);
+    } else {
+      queues.set(key, [index]);
+    }
+  });
+  const pairs: [number, number][] = [];
+  const removed: number[] = [];
+  before.forEach((entry, index) => {
+    const match = queues.get(keyOf(entry, index))?.shift();
+    if (match === undefined) {
+      removed.push(index);
+    } else {
+      pairs.push([index, match]);
+    }
+  });
+  const paired = new Set(pairs.map(([, afterIndex]) => afterIndex));
+  const added = after.map((_, index) => index).filter((index) => !paired.has(index));
+  return { pairs, removed, added };
+}
+
+/**
+ * Indexes into values that form a longest strictly increasing
+ * subsequence. Entries outside it are the ones that moved.
+ */
+function longestIncreasingRun(values: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = [];
+  values.forEach((value, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+  const run = new Set<number>();
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index !== -1; index = previous[index]) {
+    run.add(index);
+  }
+  return run;
+}
+
+function diffItems(before: EvidenceItem[], after: EvidenceItem[]): ItemChange[] {
+  // item_id aligns items; sequence stands in for a missing item_id, and
+  // position for an entry that is not an object at all.
+  const { pairs, removed, added } = alignBy(before, after, (item, index) => {
+    if (!isPlainObject(item)) {
+      return `index:${index}`;
+    }
+    return typeof item.item_id === "string" ? `id:${item.item_id}` : `seq:${item.sequence}`;
+  });
+  const inOrder = longestIncreasingRun(pairs.map(([, afterIndex]) => afterIndex));
+  const removedSet = new Set(removed);
+
+  const changes: ItemChange[] = [];
+  const pairByBefore = new Map(pairs.map((pair, position) => [pair[0], position]));
+  before.forEach((item, index) => {
+    if (removedSet.has(index)) {
+      changes.push({ kind: "removed", item_id: item?.item_id, before_sequence: item?.sequence, changes: [] });
+      return;
+    }
+    const position = pairByBefore.get(index)!;
+    const other = after[pairs[position][1]];
+    const moved = !inOrder.has(position);
+    if (!isPlainObject(item) || !isPlainObject(other)) {
+      // Entries that are not objects are compared whole.
+      const valueChanges: JsonChange[] = [];
+      diffJson(item, other, "", valueChanges);
+      if (valueChanges.length > 0) {
+        changes.push({ kind: "modified", item_id: item?.item_id, changes: valueChanges });
+      }
+      return;
+    }
+    const { sequence: beforeSequence, ...beforeFields } = item;
+    const { sequence: afterSequence, ...afterFields } = other;
+    const fieldChanges: JsonChange[] = [];
+    diffJson(beforeFields, afterFields, "", fieldChanges);
+    if (fieldChanges.length === 0 && !moved) {
+      return;
+    }
+    if (fieldChanges.length > 0 && moved) {
+      fieldChanges.unshift({
+        op: "replace",
+        pointer: "/sequence",
+        before: beforeSequence,
+        after: afterSequence,
+      });
+    }
+    changes.push({
+      kind: fieldChanges.length > 0 ? "modified" : "reordered",
+      item_id: item.item_id,
+      before_sequence: beforeSequence,
+      after_sequence: afterSequence,
+      changes: fieldChanges,
+    });
+  });
+  for (const index of added) {
+    const item = after[index];
+    changes.push({ kind: "added", item_id: item?.item_id, after_sequence: item?.sequence, changes: [] });
+  }
+  return changes;
+}
+
+function diffSignatures(before: Signature[], after: Signature[]): SignatureChange[] {
+  const { pairs, removed, added } = alignBy(before, after, (sig, index) =>
+    typeof sig?.signature_id === "string" ? `id:${sig.signature_id}` : `index:${index}`,
+  );
+  const changes: SignatureChange[] = removed.map((index) => ({
+    kind: "removed",
+    signature_id: before[index]?.signature_id,
+    changes: [],
+  }));
+  for (const [beforeIndex, afterIndex] of pairs) {
+    const fieldChanges: JsonChange[] = [];
+    diffJson(before[beforeIndex], after[afterIndex], "", fieldChanges);
+    if (fieldChanges.length > 0) {
+      changes.push({
+        kind: "modified",
+        signature_id: before[beforeIndex].signature_id,
+        changes: fieldChanges,
+      });
+    }
+  }
+  for (const index of added) {
+    changes.push({ kind: "added", signature_id: after[index]?.signature_id, changes: [] });
+  }
+  return changes;
+}
+
+/**
+ * Compare two bundles, typically an earlier copy (before) and the one
+ * under review (after). Items are aligned by item_id, or by sequence when
+ * an item has none, and reported as added, removed, modified (with a
+ * structural diff of their fields) or reordered. Signatures are aligned by
+ * signature_id. Items whose sequence only shifted because others were
+ * added or removed before them are not reported.
+ */
+export function diffBundles(before: EvidenceBundle, after: EvidenceBundle): BundleDiff {
+  if (!isPlainObject(before) || !isPlainObject(after)) {
+    throw new Error("diffBundles: both bundles must be objects");
+  }
+  const list = <T>(value: T[] | undefined): T[] => (Array.isArray(value) ? value : []);
+  const {
+    items: _beforeItems,
+    immutability_proof: beforeProof,
+    signatures: _beforeSignatures,
+    ...beforeRest
+  } = before;
+  const {
+    items: _afterItems,
+    immutability_proof: afterProof,
+    signatures: _afterSignatures,
+    ...afterRest
+  } = after;
+
+  const metadata: JsonChange[] = [];
+  diffJson(beforeRest, afterRest, "", metadata);
+  const proof: JsonChange[] = [];
+  diffJson(beforeProof, afterProof, "/immutability_proof", proof);
+  const items = diffItems(list(before.items), list(after.items));
+  const signatures = diffSignatures(list(before.signatures), list(after.signatures));
+
+  return {
+    identical: items.length + signatures.length + metadata.length + proof.length === 0,
+    items,
+    signatures,
+    metadata,
+    proof,
+  };
+}
+
+/**
+ * Compare a bundle's items with its own hash chain, link by link, and
+ * report where they diverge: an item whose id, type, sequence or content
+ * no longer matches its sealed link, a link whose previous_hash or
+ * chain_hash does not follow, a link or item that is not an object, and a
+ * root hash that does not match the chain. Redacted items are compared by
+ * content_hash alone.
+ *
+ * Trace rationale: verifyBundle reports every mismatch as a flat list; a
+ * single edit usually breaks one link and then every link after it. The
+ * first divergence in chain order is where the tampering happened. A
+ * chain rewritten consistently, root included, shows no divergence; only
+ * signatures, or diffBundles against an earlier copy, reveal that.
+ */
+export function diffBundleChain(bundle: EvidenceBundle): ChainDiff {
+  const proof = bundle?.immutability_proof;
+  if (!proof || !Array.isArray(proof.hash_chain)) {
+    throw new Error("diffBundleChain: bundle has no immutability_proof.hash_chain");
+  }
+  const algorithm = proof.hash_algorithm ?? DEFAULT_HASH_ALGORITHM;
+  if (!isHashAlgorithm(algorithm)) {
+    throw new Error(`diffBundleChain: unsupported hash algorithm ${String(algorithm)}`);
+  }
+
+  const chain = proof.hash_chain;
+  const items = Array.isArray(bundle.items) ? bundle.items : [];
+  const divergences: LinkDivergence[] = [];
+
+  for (let seq = 0; seq < Math.max(chain.length, items.length); seq++) {
+    const link = chain[seq];
+    const item = items[seq];
+    const itemPointer = `/items/${seq}`;
+    const linkPointer = `/immutability_proof/hash_chain/${seq}`;
+    const diverge = (pointer: string, reason: string, expected: unknown, actual: unknown): void => {
+      const itemId = link?.item_id ?? item?.item_id;
+      divergences.push({ sequence: seq, item_id: itemId, pointer, reason, expected, actual });
+    };
+
+    if (seq >= chain.length) {
+      diverge(itemPointer, "item has no link in the hash chain", null, item?.item_id);
+      continue;
+    }
+    if (!isPlainObject(link)) {
+      diverge(linkPointer, "link is not an object", null, link);
+      continue;
+    }
+    if (seq >= items.length) {
+      diverge(linkPointer, "link has no item", link.item_id, null);
+      continue;
+    }
+    if (!isPlainObject(item)) {
+      diverge(itemPointer, "item is not an object", link.item_id, item);
+      continue;
+    }
+
+    for (const field of ["sequence", "item_id", "content_type"] as const) {
+      if (item[field] !== link[field]) {
+        diverge(
+          `${itemPointer}/${field}`,
+          `item ${field} differs from the sealed link`,
+          link[field],
+          item[field],
+        );
+      }
+    }
+    if (!isRedactedContent(item.content)) {
+      const recomputed = computeContentHash(item.content, algorithm);
+      if (recomputed !== link.content_hash) {
+        diverge(
+          `${itemPointer}/content`,
+          "content does not hash to the sealed content_hash",
+          link.content_hash,
+          recomputed,
+        );
+      }
+    }
+    if (item.content_hash !== link.content_hash) {
+      diverge(
+        `${itemPointer}/content_hash`,
+        "item content_hash differs from the sealed link",
+        link.content_hash,
+        item.content_hash,
+      );
+    }
+
+    // A prior link that is not an object is reported on its own and has
+    // no chain_hash to compare previous_hash with.
+    const prior: unknown = seq === 0 ? { chain_hash: GENESIS_HASH } : chain[seq - 1];
+    const expectedPrevious = isPlainObject(prior) ? prior.chain_hash : undefined;
+    if (isPlainObject(prior) && link.previous_hash !== expectedPrevious) {
+      diverge(
+        `${linkPointer}/previous_hash`,
+        "previous_hash is not the prior link's chain_hash",
+        expectedPrevious,
+        link.previous_hash,
+      );
+    }
+    const expectedChain = chainHashV020(
+      link.sequence,
+      link.item_id,
+      link.content_type,
+      link.content_hash,
+      link.previous_hash,
+      algorithm,
+    );
+    if (link.chain_hash !== expectedChain) {
+      diverge(
+        `${linkPointer}/chain_hash`,
+        "chain_hash does not match the link's fields",
+        expectedChain,
+        link.chain_hash,
+      );
+    }
+  }
+
+  const wellFormed = chain.every((link) => isPlainObject(link));
+  const expectedRoot = !wellFormed
+    ? null
+    : proof.proof_version === "v0.3.0"
+      ? computeMerkleRootHash(chain, algorithm)
+      : computeRootHash(chain, algorithm);
+  return {
+    first_divergence: divergences[0] ?? null,
+    divergences,
+    root_hash: {
+      expected: expectedRoot,
+      actual: proof.root_hash,
+      matches: expectedRoot === proof.root_hash,
+    },
+  };
+}
@@ -12,6 +12,42 @@ export enum ErrorCode {
   INPUT_VALIDATION_FAILED = "INPUT_VALIDATION_FAILED",
   LENGTH_MISMATCH = "LENGTH_MISMATCH",
   UNSUPPORTED_VERSION = "UNSUPPORTED_VERSION",
+  SIGNATURE_THRESHOLD_NOT_MET = "SIGNATURE_THRESHOLD_NOT_MET",
+  SIGNATURE_ROLE_MISSING = "SIGNATURE_ROLE_MISSING",
+  DUPLICATE_SIGNER = "DUPLICATE_SIGNER",
+  SIGNER_KEY_MISMATCH = "SIGNER_KEY_MISMATCH",
+  KEY_NOT_TRUSTED = "KEY_NOT_TRUSTED",
+  KEY_ALGORITHM_MISMATCH = "KEY_ALGORITHM_MISMATCH",
+  KEY_NOT_YET_VALID = "KEY_NOT_YET_VALID",
+  KEY_EXPIRED = "KEY_EXPIRED",
+  KEY_REVOKED = "KEY_REVOKED",
+  POLICY_MISMATCH = "POLICY_MISMATCH",
+  RISK_TIER_MISSING = "RISK_TIER_MISSING",
+  RISK_TIER_SIGNATURES_INSUFFICIENT = "RISK_TIER_SIGNATURES_INSUFFICIENT",
+  RISK_TIER_CONTENT_TYPE_MISSING = "RISK_TIER_CONTENT_TYPE_MISSING",
+  RISK_TIER_ALGORITHM_NOT_ALLOWED = "RISK_TIER_ALGORITHM_NOT_ALLOWED",
+  RISK_TIER_LEGACY_PROOF = "RISK_TIER_LEGACY_PROOF",
+  INCLUSION_PROOF_INVALID = "INCLUSION_PROOF_INVALID",
+  REDACTION_NOT_ALLOWED = "REDACTION_NOT_ALLOWED",
+  SANITIZATION_ATTESTATION_INVALID = "SANITIZATION_ATTESTATION_INVALID",
+  HISTORY_REWRITTEN = "HISTORY_REWRITTEN",
+  CHAIN_TRUNCATED = "CHAIN_TRUNCATED",
+  REFERENCE_UNRESOLVED = "REFERENCE_UNRESOLVED",
+  REFERENCE_MISMATCH = "REFERENCE_MISMATCH",
+  REFERENCE_INVALID = "REFERENCE_INVALID",
+  REFERENCE_CYCLE = "REFERENCE_CYCLE",
+  REFERENCE_DEPTH_EXCEEDED = "REFERENCE_DEPTH_EXCEEDED",
+  HASH_ALGORITHM_NOT_ALLOWED = "HASH_ALGORITHM_NOT_ALLOWED",
+  HASH_ALGORITHM_MISMATCH = "HASH_ALGORITHM_MISMATCH",
+  TIMESTAMP_MALFORMED = "TIMESTAMP_MALFORMED",
+  TIMESTAMP_IMPRINT_MISMATCH = "TIMESTAMP_IMPRINT_MISMATCH",
+  TIMESTAMP_SIGNATURE_INVALID = "TIMESTAMP_SIGNATURE_INVALID",
+  TIMESTAMP_TIME_INVALID = "TIMESTAMP_TIME_INVALID",
+  TIMESTAMP_MISSING = "TIMESTAMP_MISSING",
+  LOG_TREE_HEAD_INVALID = "LOG_TREE_HEAD_INVALID",
+  LOG_INCLUSION_INVALID = "LOG_INCLUSION_INVALID",
+  LOG_CONSISTENCY_INVALID = "LOG_CONSISTENCY_INVALID",
+  BUNDLE_PARSE_FAILED = "BUNDLE_PARSE_FAILED",
 }
 
 export interface VerificationError {
@@ -23,4 +59,6 @@ export interface VerificationError {
 export interface VerificationResult {
   valid: boolean;
   errors: VerificationError[];
+  /** item_ids whose content was redacted and so could not be verified. */
+  redactedItems?: string[];
 }
@@ -0,0 +1,23 @@
+/**
+ * Hash algorithm selection for @guardspine/kernel.
+ * Every hash is written as "<algorithm>:<hex>", so a hash names the
+ * algorithm that produced it. sha256 is the default and the only algorithm
+ * used by bundles that do not record ImmutabilityProof.hash_algorithm.
+ */
+
+import { createHash } from "node:crypto";
+import { DEFAULT_HASH_ALGORITHM } from "./algorithms.js";
+import type { HashAlgorithm } from "./algorithms.js";
+
+export {
+  DEFAULT_HASH_ALGORITHM,
+  SUPPORTED_HASH_ALGORITHMS,
+  isHashAlgorithm,
+  hashAlgorithmOf,
+} from "./algorithms.js";
+export type { HashAlgorithm } from "./algorithms.js";
+
+/** Hash a UTF-8 string. Returns "<algorithm>:<hex>". */
+export function hashString(data: string, algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM): string {
+  return `${algorithm}:${createHash(algorithm).update(data, "utf-8").digest("hex")}`;
+}
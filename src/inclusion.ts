@@ -0,0 +1,155 @@
+/**
+ * Per-item inclusion proofs for v0.3.0 (Merkle) bundles.
+ * An inclusion proof carries one item plus the sibling hashes needed to
+ * recompute the bundle's root_hash, so a single finding can be shared
+ * without disclosing the rest of the bundle.
+ */
+
+import { ErrorCode } from "./errors.js";
+import type { VerificationError, VerificationResult } from "./errors.js";
+import { DEFAULT_HASH_ALGORITHM, hashAlgorithmOf } from "./hash.js";
+import { itemLeafHash, merkleAuditPath, rootFromAuditPath } from "./merkle.js";
+import { computeContentHash } from "./seal.js";
+import type { EvidenceBundle, EvidenceItem } from "./schemas/evidence-bundle.js";
+
+export interface InclusionProof {
+  proof_version: "v0.3.0";
+  /** Informational only; the proof is bound to the root hash, not the id. */
+  bundle_id?: string;
+  item: EvidenceItem;
+  leaf_index: number;
+  tree_size: number;
+  /** Sibling hashes from the leaf up to the root. */
+  audit_path: string[];
+  root_hash: string;
+}
+
+/**
+ * Build an inclusion proof for one item of a v0.3.0 bundle.
+ * Throws if the bundle is not Merkle-sealed or the item is absent.
+ */
+export function generateInclusionProof(bundle: EvidenceBundle, itemId: string): InclusionProof {
+  const proof = bundle.immutability_proof;
+  if (!proof || proof.proof_version !== "v0.3.0") {
+    throw new Error("generateInclusionProof: bundle is not sealed with proof_version v0.3.0");
+  }
+  const index = proof.hash_chain.findIndex((link) => link.item_id === itemId);
+  const item = bundle.items.find((candidate) => candidate.item_id === itemId);
+  if (index === -1 || !item) {
+    throw new Error(`generateInclusionProof: item ${itemId} not found in bundle`);
+  }
+
+  const algorithm = proof.hash_algorithm ?? DEFAULT_HASH_ALGORITHM;
+  const leaves = proof.hash_chain.map((link) =>
+    itemLeafHash(link.sequence, link.item_id, link.content_type, link.content_hash, algorithm),
+  );
+
+  return {
+    proof_version: "v0.3.0",
+    bundle_id: bundle.bundle_id,
+    item,
+    leaf_index: index,
+    tree_size: leaves.length,
+    audit_path: merkleAuditPath(leaves, index, algorithm),
+    root_hash: proof.root_hash,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Verify an inclusion proof against a root hash the caller already trusts.
+ *
+ * Trace rationale: the item's content hash is recomputed rather than read
+ * from the proof, and the recomputed root is compared with the supplied
+ * rootHash, never with proof.root_hash, so a forged proof cannot vouch
+ * for itself. The hash algorithm is taken from rootHash for the same reason.
+ */
+export function verifyInclusionProof(proof: InclusionProof, rootHash: string): VerificationResult {
+  const errors: VerificationError[] = [];
+
+  if (!isObject(proof)) {
+    errors.push({
+      code: ErrorCode.INPUT_VALIDATION_FAILED,
+      message: "Inclusion proof must be an object",
+      details: { received: proof === null ? "null" : typeof proof },
+    });
+    return { valid: false, errors };
+  }
+
+  if (proof.proof_version !== "v0.3.0") {
+    errors.push({
+      code: ErrorCode.UNSUPPORTED_VERSION,
+      message: `Unsupported inclusion proof version: ${String(proof.proof_version)}`,
+      details: { proof_version: proof.proof_version, supported: ["v0.3.0"] },
+    });
+    return { valid: false, errors };
+  }
+
+  const algorithm = hashAlgorithmOf(rootHash);
+  if (algorithm === null) {
+    errors.push({
+      code: ErrorCode.INPUT_VALIDATION_FAILED,
+      message: "Root hash does not name a supported hash algorithm",
+      details: { root_hash: rootHash },
+    });
+    return { valid: false, errors };
+  }
+
+  const item = proof.item;
+  if (!isObject(item) || !isObject(item.content)) {
+    errors.push({
+      code: ErrorCode.INPUT_VALIDATION_FAILED,
+      message: "Inclusion proof item must be an object with object content",
+      details: { received: item === null ? "null" : typeof item },
+    });
+    return { valid: false, errors };
+  }
+  const computed = computeContentHash(item.content, algorithm);
+  if (item.content_hash !== computed) {
+    errors.push({
+      code: ErrorCode.CONTENT_HASH_MISMATCH,
+      message: `Content hash mismatch for item ${item.item_id}`,
+      details: { item_id: item.item_id, expected: computed, actual: item.content_hash },
+    });
+    return { valid: false, errors };
+  }
+
+  if (item.sequence !== proof.leaf_index) {
+    errors.push({
+      code: ErrorCode.INCLUSION_PROOF_INVALID,
+      message: `Item sequence ${item.sequence} does not match leaf_index ${proof.leaf_index}`,
+      details: { item_id: item.item_id, sequence: item.sequence, leaf_index: proof.leaf_index },
+    });
+    return { valid: false, errors };
+  }
+
+  const leaf = itemLeafHash(item.sequence, item.item_id, item.content_type, computed, algorithm);
+  const root = Array.isArray(proof.audit_path)
+    ? rootFromAuditPath(leaf, proof.leaf_index, proof.tree_size, proof.audit_path, algorithm)
+    : null;
+  if (root === null) {
+    errors.push({
+      code: ErrorCode.INCLUSION_PROOF_INVALID,
+      message: "Audit path does not fit the stated leaf_index and tree_size",
+      details: {
+        leaf_index: proof.leaf_index,
+        tree_size: proof.tree_size,
+        path_length: Array.isArray(proof.audit_path) ? proof.audit_path.length : null,
+      },
+    });
+    return { valid: false, errors };
+  }
+
+  if (root !== rootHash) {
+    errors.push({
+      code: ErrorCode.ROOT_HASH_MISMATCH,
+      message: "Inclusion proof does not lead to the trusted root hash",
+      details: { expected: rootHash, computed: root },
+    });
+  }
+
+  return { valid: errors.length === 0, errors };
+}
@@ -1,20 +1,77 @@
 /**
  * @guardspine/kernel -- offline evidence-bundle verification and sealing.
- * Zero runtime dependencies. Works in Node 18+ and modern browsers.
+ * Zero runtime dependencies. Node 18+; browsers use @guardspine/kernel/browser.
  */
 
 // Canonical JSON (RFC 8785)
 export { canonicalJson } from "./canonical.js";
+export type { CanonicalJsonOptions } from "./canonical.js";
+
+// Hash algorithms
+export {
+  DEFAULT_HASH_ALGORITHM,
+  SUPPORTED_HASH_ALGORITHMS,
+  isHashAlgorithm,
+  hashAlgorithmOf,
+  hashString,
+} from "./hash.js";
+export type { HashAlgorithm } from "./hash.js";
 
 // Sealing
 export {
   GENESIS_HASH,
   computeContentHash,
   buildHashChain,
+  extendHashChain,
   computeRootHash,
   sealBundle,
+  computePolicyHash,
+  createPolicyBinding,
+} from "./seal.js";
+export type {
+  ChainInput,
+  SealResult,
+  ProofVersion,
+  SealOptions,
+  PolicyBinding,
 } from "./seal.js";
-export type { ChainInput, SealResult, ProofVersion, SealOptions } from "./seal.js";
+
+// Append-only extension
+export { appendItems, verifyConsistency } from "./append.js";
+
+// Signing
+export {
+  signingPayload,
+  treeHeadPayload,
+  createSignature,
+  createPayloadSignature,
+  addSignature,
+  signBundle,
+  createSignatureWithSigner,
+  signBundleWithSigner,
+  createLocalSigner,
+} from "./sign.js";
+export type {
+  SignatureAlgorithm,
+  SignerOptions,
+  Signer,
+  AsyncSignOptions,
+  LocalSignerOptions,
+} from "./sign.js";
+
+// Trust store
+export { findTrustedKey, checkTrustedKey } from "./trust.js";
+export type { TrustedKey, TrustStore } from "./trust.js";
+
+// JWK / JWKS
+export {
+  findJwk,
+  jwkAlgorithmMismatch,
+  jwkToKeyObject,
+  parseJwks,
+  readJwksFile,
+} from "./jwk.js";
+export type { Jwk, JwkSet } from "./jwk.js";
 
 // Verification
 export {
@@ -22,14 +79,133 @@ export {
   verifyRootHash,
   verifyContentHashes,
   verifySignatures,
+  verifySignaturePolicy,
+  verifyPolicyBinding,
+  verifyTreeHead,
+  verifyLogInclusion,
   verifyBundle,
+  verifyBundleDetailed,
+  verificationReportJson,
 } from "./verify.js";
 export type {
   SignatureVerificationOptions,
+  SignaturePolicy,
+  VerifiedSignature,
+  PublicKeyMaterial,
   ProofVerificationOptions,
+  PolicyVerificationOptions,
+  RiskTierVerificationOptions,
+  RedactionVerificationOptions,
+  BundleResolver,
+  ReferenceVerificationOptions,
+  TransparencyLogVerificationOptions,
+  SchemaVerificationOptions,
   BundleVerificationOptions,
+  VerificationStepStatus,
+  VerificationStep,
+  VerificationReport,
 } from "./verify.js";
 
+// Schema validation
+export { validateBundleSchema, validateSchema } from "./schema.js";
+export { EVIDENCE_BUNDLE_SCHEMA } from "./schemas/evidence-bundle.schema.js";
+export type { JsonSchema, SchemaValidationOptions } from "./schema.js";
+
+// Streaming sealing and verification
+export { createStreamSealer, sealItemStream, verifyItemStream } from "./stream.js";
+export type {
+  ProofSummary,
+  SealedEntry,
+  StreamSealResult,
+  StreamSealer,
+  StreamVerificationOptions,
+  StreamVerificationResult,
+} from "./stream.js";
+
+// Bundle diffing
+export { diffBundles, diffBundleChain } from "./diff.js";
+export type {
+  BundleDiff,
+  ChainDiff,
+  ItemChange,
+  JsonChange,
+  LinkDivergence,
+  SignatureChange,
+} from "./diff.js";
+
+// Bundle parsing
+export { parseBundle } from "./parse.js";
+export type { ParsedBundle } from "./parse.js";
+
+// Bundle ledger
+export { createFileLedger } from "./ledger.js";
+export type { BundleLedger, LedgerEntry } from "./ledger.js";
+
+// Transparency log
+export { createFileTransparencyLog, verifyLogConsistency } from "./transparency.js";
+export type {
+  LogEntry,
+  SignedTreeHead,
+  LogInclusionProof,
+  LogConsistencyProof,
+  TransparencyLogOptions,
+  TransparencyLog,
+} from "./transparency.js";
+
+// Sanitization (v0.2.1)
+export {
+  DEFAULT_SANITIZATION_RULES,
+  computeRulesetHash,
+  sanitizeItems,
+  verifySanitizationAttestation,
+} from "./sanitize.js";
+export type { SanitizationRule, SanitizeOptions, SanitizeResult } from "./sanitize.js";
+
+// Selective disclosure
+export { redactItems, isRedactedContent } from "./redact.js";
+export type { RedactedContent } from "./redact.js";
+
+// Merkle inclusion proofs
+export { generateInclusionProof, verifyInclusionProof } from "./inclusion.js";
+export type { InclusionProof } from "./inclusion.js";
+
+// RFC 3161 timestamps
+export {
+  parseTimestampToken,
+  verifyTimestampToken,
+  timestampMessage,
+  attachTimestamp,
+  verifyBundleTimestamps,
+} from "./timestamp.js";
+export type {
+  ParsedTimestampToken,
+  TimestampVerificationResult,
+  TimestampVerificationOptions,
+} from "./timestamp.js";
+
+// JSONPath
+export { compileJsonPath, queryJsonPath, queryBundle } from "./jsonpath.js";
+export type { CompiledJsonPath } from "./jsonpath.js";
+
+// Risk tiers
+export { DEFAULT_RISK_TIER_PROFILES, verifyRiskTier } from "./tiers.js";
+export type {
+  RiskTier,
+  RiskTierProfile,
+  RiskTierProfiles,
+  RiskTierContext,
+} from "./tiers.js";
+
+// Policy evaluation
+export { evaluatePolicy, resolveField, applyOperator } from "./policy.js";
+export type {
+  PolicySeverity,
+  RuleResult,
+  PolicyEvaluationResult,
+  PolicyEvaluationOptions,
+  ItemQuantifierObservation,
+} from "./policy.js";
+
 // Errors
 export { ErrorCode } from "./errors.js";
 export type { VerificationError, VerificationResult } from "./errors.js";
@@ -41,10 +217,23 @@ export type {
   ImmutabilityProof,
   HashChainLink,
   HashChain,
+  Signature,
+  SanitizationAttestation,
+  BundleReference,
+  BundleTimestamp,
 } from "./schemas/evidence-bundle.js";
 
 export type {
   PolicyPack,
+  PolicyPackSchemaVersion,
   PolicyRule,
   PolicyCondition,
+  FieldCondition,
+  AllCondition,
+  AnyCondition,
+  NotCondition,
+  ItemQuantifier,
+  EveryItemCondition,
+  SomeItemCondition,
+  NoItemCondition,
 } from "./schemas/policy-pack.js";
@@ -0,0 +1,597 @@
+/**
+ * JSONPath subset (RFC 9535) for @guardspine/kernel.
+ *
+ * Supported: root ($), dot and bracket member access, wildcards, array
+ * indices (including negative), slices, unions, recursive descent (..) and
+ * filter expressions with comparisons, existence tests, &&, || and !.
+ * Function extensions and arithmetic are not supported.
+ *
+ * Safe on untrusted input: no eval, only own properties are read,
+ * __proto__/constructor/prototype are never selected, and path length,
+ * expression nesting, document depth and result size are bounded. Object
+ * members are visited in sorted key order, so results do not depend on
+ * key order.
+ */
+
+import { canonicalJson } from "./canonical.js";
+import type { EvidenceBundle } from "./schemas/evidence-bundle.js";
+
+/** Longest accepted path expression, in characters. */
+const MAX_PATH_LENGTH = 1024;
+/** Deepest nesting of parentheses, brackets and negations in a path. */
+const MAX_EXPRESSION_DEPTH = 32;
+/** Deepest document nesting walked by recursive descent. */
+const MAX_DOCUMENT_DEPTH = 64;
+/** Most nodes any single segment may select. */
+const MAX_NODES = 1_000_000;
+
+const FORBIDDEN_NAMES = new Set(["__proto__", "constructor", "prototype"]);
+
+type Selector =
+  | { kind: "name"; name: string }
+  | { kind: "wildcard" }
+  | { kind: "index"; index: number }
+  | { kind: "slice"; start?: number; end?: number; step?: number }
+  | { kind: "filter"; expr: FilterExpr };
+
+interface Segment {
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+interface Query {
+  root: "$" | "@";
+  segments: Segment[];
+}
+
+type Operand = { kind: "literal"; value: unknown } | { kind: "query"; query: Query };
+
+type ComparisonOp = "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+type FilterExpr =
+  | { kind: "or"; left: FilterExpr; right: FilterExpr }
+  | { kind: "and"; left: FilterExpr; right: FilterExpr }
+  | { kind: "not"; expr: FilterExpr }
+  | { kind: "exists"; query: Query }
+  | { kind: "compare"; op: ComparisonOp; left: Operand; right: Operand };
+
+/** Parsed path expression. Opaque to callers. */
+export interface CompiledJsonPath {
+  readonly source: string;
+  /** True when the path can select at most one node (names and indices only). */
+  readonly definite: boolean;
+  /** @internal */
+  readonly query: Query;
+}
+
+function hasOwn(obj: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+class Parser {
+  private pos = 0;
+  private depth = 0;
+
+  constructor(private readonly src: string) {}
+
+  parse(): Query {
+    this.skipSpace();
+    if (this.peek() !== "$") {
+      this.fail("path must start with $");
+    }
+    this.pos++;
+    const segments = this.parseSegments();
+    this.skipSpace();
+    if (this.pos < this.src.length) {
+      this.fail(`unexpected character '${this.peek()}'`);
+    }
+    return { root: "$", segments };
+  }
+
+  private fail(message: string): never {
+    throw new Error(`queryJsonPath: ${message} at position ${this.pos} in ${JSON.stringify(this.src)}`);
+  }
+
+  private peek(offset = 0): string {
+    return this.src.charAt(this.pos + offset);
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.peek()) && this.pos < this.src.length) {
+      this.pos++;
+    }
+  }
+
+  private enter(): void {
+    this.depth++;
+    if (this.depth > MAX_EXPRESSION_DEPTH) {
+      this.fail(`expression nesting exceeds ${MAX_EXPRESSION_DEPTH}`);
+    }
+  }
+
+  private leave(): void {
+    this.depth--;
+  }
+
+  private parseSegments(): Segment[] {
+    const segments: Segment[] = [];
+    for (;;) {
+      const ch = this.peek();
+      if (ch === "." && this.peek(1) === ".") {
+        this.pos += 2;
+        if (this.peek() === "[") {
+          segments.push({ descendant: true, selectors: this.parseBracket() });
+        } else {
+          segments.push({ descendant: true, selectors: [this.parseDotSelector()] });
+        }
+      } else if (ch === ".") {
+        this.pos++;
+        segments.push({ descendant: false, selectors: [this.parseDotSelector()] });
+      } else if (ch === "[") {
+        segments.push({ descendant: false, selectors: this.parseBracket() });
+      } else {
+        return segments;
+      }
+    }
+  }
+
+  private parseDotSelector(): Selector {
+    if (this.peek() === "*") {
+      this.pos++;
+      return { kind: "wildcard" };
+    }
+    const match = /^[A-Za-z_\u0080-\uFFFF][A-Za-z0-9_\-\u0080-\uFFFF]*/.exec(this.src.slice(this.pos));
+    if (!match) {
+      this.fail("expected member name or * after .");
+    }
+    this.pos += match[0].length;
+    return this.nameSelector(match[0]);
+  }
+
+  private nameSelector(name: string): Selector {
+    if (FORBIDDEN_NAMES.has(name)) {
+      this.fail(`member name ${name} is not allowed`);
+    }
+    return { kind: "name", name };
+  }
+
+  private parseBracket(): Selector[] {
+    this.enter();
+    this.pos++; // [
+    const selectors: Selector[] = [];
+    for (;;) {
+      this.skipSpace();
+      selectors.push(this.parseBracketSelector());
+      this.skipSpace();
+      const ch = this.peek();
+      if (ch === ",") {
+        this.pos++;
+        continue;
+      }
+      if (ch === "]") {
+        this.pos++;
+        break;
+      }
+      this.fail("expected , or ] in bracket selector");
+    }
+    this.leave();
+    return selectors;
+  }
+
+  private parseBracketSelector(): Selector {
+    const ch = this.peek();
+    if (ch === "'" || ch === '"') {
+      return this.nameSelector(this.parseString());
+    }
+    if (ch === "*") {
+      this.pos++;
+      return { kind: "wildcard" };
+    }
+    if (ch === "?") {
+      this.pos++;
+      this.skipSpace();
+      return { kind: "filter", expr: this.parseOr() };
+    }
+
+    const start = this.parseOptionalInt();
+    this.skipSpace();
+    if (this.peek() !== ":") {
+      if (start === undefined) {
+        this.fail("expected selector");
+      }
+      return { kind: "index", index: start };
+    }
+    this.pos++;
+    this.skipSpace();
+    const end = this.parseOptionalInt();
+    this.skipSpace();
+    let step: number | undefined;
+    if (this.peek() === ":") {
+      this.pos++;
+      this.skipSpace();
+      step = this.parseOptionalInt();
+    }
+    return { kind: "slice", start, end, step };
+  }
+
+  private parseOptionalInt(): number | undefined {
+    const match = /^-?(0|[1-9][0-9]*)/.exec(this.src.slice(this.pos));
+    if (!match) {
+      return undefined;
+    }
+    const value = Number(match[0]);
+    if (!Number.isSafeInteger(value)) {
+      this.fail("integer out of range");
+    }
+    this.pos += match[0].length;
+    return value;
+  }
+
+  private parseString(): string {
+    const quote = this.peek();
+    this.pos++;
+    let out = "";
+    while (this.pos < this.src.length) {
+      const ch = this.peek();
+      if (ch === quote) {
+        this.pos++;
+        return out;
+      }
+      if (ch === "\\") {
+        const next = this.peek(1);
+        const simple: Record<string, string> = {
+          "\\": "\\", "/": "/", "'": "'", '"': '"', b: "\b", f: "\f", n: "\n", r: "\r", t: "\t",
+        };
+        if (hasOwn(simple, next)) {
+          out += simple[next];
+          this.pos += 2;
+        } else if (next === "u" && /^[0-9a-fA-F]{4}$/.test(this.src.slice(this.pos + 2, this.pos + 6))) {
+          out += String.fromCharCode(parseInt(this.src.slice(this.pos + 2, this.pos + 6), 16));
+          this.pos += 6;
+        } else {
+          this.fail("invalid escape in string literal");
+        }
+        continue;
+      }
+      out += ch;
+      this.pos++;
+    }
+    this.fail("unterminated string literal");
+  }
+
+  private parseOr(): FilterExpr {
+    let left = this.parseAnd();
+    for (;;) {
+      this.skipSpace();
+      if (this.src.startsWith("||", this.pos)) {
+        this.pos += 2;
+        this.skipSpace();
+        left = { kind: "or", left, right: this.parseAnd() };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseAnd(): FilterExpr {
+    let left = this.parseUnary();
+    for (;;) {
+      this.skipSpace();
+      if (this.src.startsWith("&&", this.pos)) {
+        this.pos += 2;
+        this.skipSpace();
+        left = { kind: "and", left, right: this.parseUnary() };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseUnary(): FilterExpr {
+    this.skipSpace();
+    if (this.peek() === "!" && this.peek(1) !== "=") {
+      this.pos++;
+      this.enter();
+      const expr: FilterExpr = { kind: "not", expr: this.parseUnary() };
+      this.leave();
+      return expr;
+    }
+    if (this.peek() === "(") {
+      this.pos++;
+      this.enter();
+      this.skipSpace();
+      const expr = this.parseOr();
+      this.skipSpace();
+      if (this.peek() !== ")") {
+        this.fail("expected )");
+      }
+      this.pos++;
+      this.leave();
+      return expr;
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): FilterExpr {
+    const left = this.parseOperand();
+    this.skipSpace();
+    const match = /^(==|!=|<=|>=|<|>)/.exec(this.src.slice(this.pos));
+    if (!match) {
+      if (left.kind !== "query") {
+        this.fail("a literal must be compared to something");
+      }
+      return { kind: "exists", query: left.query };
+    }
+    this.pos += match[0].length;
+    this.skipSpace();
+    const right = this.parseOperand();
+    return { kind: "compare", op: match[0] as ComparisonOp, left, right };
+  }
+
+  private parseOperand(): Operand {
+    const ch = this.peek();
+    if (ch === "@" || ch === "$") {
+      this.pos++;
+      this.enter();
+      const segments = this.parseSegments();
+      this.leave();
+      return { kind: "query", query: { root: ch, segments } };
+    }
+    if (ch === "'" || ch === '"') {
+      return { kind: "literal", value: this.parseString() };
+    }
+    const rest = this.src.slice(this.pos);
+    const number = /^-?(0|[1-9][0-9]*)(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(rest);
+    if (number) {
+      this.pos += number[0].length;
+      const value = Number(number[0]);
+      if (!Number.isFinite(value)) {
+        this.fail("number literal out of range");
+      }
+      return { kind: "literal", value };
+    }
+    for (const [word, value] of [["true", true], ["false", false], ["null", null]] as const) {
+      if (rest.startsWith(word)) {
+        this.pos += word.length;
+        return { kind: "literal", value };
+      }
+    }
+    this.fail("expected @, $, or a literal");
+  }
+}
+
+function isDefinite(query: Query): boolean {
+  return query.segments.every(
+    (segment) =>
+      !segment.descendant &&
+      segment.selectors.length === 1 &&
+      (segment.selectors[0].kind === "name" || segment.selectors[0].kind === "index"),
+  );
+}
+
+/** Parse a path once for repeated evaluation. Throws on syntax errors. */
+export function compileJsonPath(path: string): CompiledJsonPath {
+  if (typeof path !== "string") {
+    throw new Error("queryJsonPath: path must be a string");
+  }
+  if (path.length > MAX_PATH_LENGTH) {
+    throw new Error(`queryJsonPath: path exceeds ${MAX_PATH_LENGTH} characters`);
+  }
+  const query = new Parser(path).parse();
+  return { source: path, definite: isDefinite(query), query };
+}
+
+function sortedOwnKeys(obj: Record<string, unknown>): string[] {
+  return Object.keys(obj)
+    .filter((key) => !FORBIDDEN_NAMES.has(key))
+    .sort();
+}
+
+function children(value: unknown): unknown[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (typeof value === "object" && value !== null) {
+    const obj = value as Record<string, unknown>;
+    return sortedOwnKeys(obj).map((key) => obj[key]);
+  }
+  return [];
+}
+
+function collectDescendants(value: unknown, out: unknown[], depth: number): void {
+  if (depth > MAX_DOCUMENT_DEPTH) {
+    throw new Error(`queryJsonPath: document nesting exceeds ${MAX_DOCUMENT_DEPTH} levels`);
+  }
+  out.push(value);
+  for (const child of children(value)) {
+    collectDescendants(child, out, depth + 1);
+  }
+}
+
+function normalizeIndex(index: number, length: number): number {
+  return index >= 0 ? index : length + index;
+}
+
+function sliceArray(arr: unknown[], selector: Extract<Selector, { kind: "slice" }>): unknown[] {
+  const len = arr.length;
+  const step = selector.step ?? 1;
+  const out: unknown[] = [];
+  if (step === 0) {
+    return out;
+  }
+  const clamp = (n: number, lo: number, hi: number) => Math.min(Math.max(n, lo), hi);
+  if (step > 0) {
+    const lower = clamp(normalizeIndex(selector.start ?? 0, len), 0, len);
+    const upper = clamp(normalizeIndex(selector.end ?? len, len), 0, len);
+    for (let i = lower; i < upper; i += step) {
+      out.push(arr[i]);
+    }
+  } else {
+    const upper = clamp(normalizeIndex(selector.start ?? len - 1, len), -1, len - 1);
+    const lower = clamp(
+      selector.end === undefined ? -1 : normalizeIndex(selector.end, len),
+      -1,
+      len - 1,
+    );
+    for (let i = upper; i > lower; i += step) {
+      out.push(arr[i]);
+    }
+  }
+  return out;
+}
+
+interface EvalContext {
+  root: unknown;
+}
+
+function applySelector(
+  node: unknown,
+  selector: Selector,
+  ctx: EvalContext,
+  out: unknown[],
+): void {
+  switch (selector.kind) {
+    case "name":
+      if (
+        typeof node === "object" &&
+        node !== null &&
+        !Array.isArray(node) &&
+        hasOwn(node, selector.name)
+      ) {
+        out.push((node as Record<string, unknown>)[selector.name]);
+      }
+      return;
+    case "wildcard":
+      // Push one at a time: spreading a large array into push overflows the stack.
+      for (const child of children(node)) {
+        out.push(child);
+      }
+      return;
+    case "index":
+      if (Array.isArray(node)) {
+        const index = normalizeIndex(selector.index, node.length);
+        if (index >= 0 && index < node.length) {
+          out.push(node[index]);
+        }
+      }
+      return;
+    case "slice":
+      if (Array.isArray(node)) {
+        for (const element of sliceArray(node, selector)) {
+          out.push(element);
+        }
+      }
+      return;
+    case "filter":
+      for (const child of children(node)) {
+        if (evaluateFilter(selector.expr, child, ctx)) {
+          out.push(child);
+        }
+      }
+      return;
+  }
+}
+
+function evaluateSegments(start: unknown, segments: Segment[], ctx: EvalContext): unknown[] {
+  let nodes: unknown[] = [start];
+  for (const segment of segments) {
+    const next: unknown[] = [];
+    for (const node of nodes) {
+      const targets: unknown[] = [];
+      if (segment.descendant) {
+        collectDescendants(node, targets, 0);
+      } else {
+        targets.push(node);
+      }
+      for (const target of targets) {
+        for (const selector of segment.selectors) {
+          applySelector(target, selector, ctx, next);
+        }
+      }
+      if (next.length > MAX_NODES) {
+        throw new Error(`queryJsonPath: query selects more than ${MAX_NODES} nodes`);
+      }
+    }
+    nodes = next;
+  }
+  return nodes;
+}
+
+const NOTHING = Symbol("nothing");
+
+function operandValue(operand: Operand, current: unknown, ctx: EvalContext): unknown {
+  if (operand.kind === "literal") {
+    return operand.value;
+  }
+  const start = operand.query.root === "@" ? current : ctx.root;
+  const nodes = evaluateSegments(start, operand.query.segments, ctx);
+  return nodes.length === 1 ? nodes[0] : NOTHING;
+}
+
+function valuesEqual(left: unknown, right: unknown): boolean {
+  if (left === NOTHING || right === NOTHING) {
+    return left === right;
+  }
+  return canonicalJson(left) === canonicalJson(right);
+}
+
+function compareValues(op: ComparisonOp, left: unknown, right: unknown): boolean {
+  switch (op) {
+    case "==":
+      return valuesEqual(left, right);
+    case "!=":
+      return !valuesEqual(left, right);
+    default: {
+      const ordered =
+        (typeof left === "number" && typeof right === "number") ||
+        (typeof left === "string" && typeof right === "string");
+      if (!ordered) {
+        return false;
+      }
+      const l = left as number | string;
+      const r = right as number | string;
+      if (op === "<") return l < r;
+      if (op === "<=") return l <= r;
+      if (op === ">") return l > r;
+      return l >= r;
+    }
+  }
+}
+
+function evaluateFilter(expr: FilterExpr, current: unknown, ctx: EvalContext): boolean {
+  switch (expr.kind) {
+    case "or":
+      return evaluateFilter(expr.left, current, ctx) || evaluateFilter(expr.right, current, ctx);
+    case "and":
+      return evaluateFilter(expr.left, current, ctx) && evaluateFilter(expr.right, current, ctx);
+    case "not":
+      return !evaluateFilter(expr.expr, current, ctx);
+    case "exists": {
+      const start = expr.query.root === "@" ? current : ctx.root;
+      return evaluateSegments(start, expr.query.segments, ctx).length > 0;
+    }
+    case "compare":
+      return compareValues(
+        expr.op,
+        operandValue(expr.left, current, ctx),
+        operandValue(expr.right, current, ctx),
+      );
+  }
+}
+
+/**
+ * Evaluate a JSONPath expression against a JSON value and return the
+ * selected values in document order. Throws on syntax errors.
+ */
+export function queryJsonPath(value: unknown, path: string | CompiledJsonPath): unknown[] {
+  const compiled = typeof path === "string" ? compileJsonPath(path) : path;
+  return evaluateSegments(value, compiled.query.segments, { root: value });
+}
+
+/**
+ * Evaluate a JSONPath expression against an evidence bundle,
+ * e.g. "$.items[?@.content_type == 'guardspine/approval'].content".
+ */
+export function queryBundle(bundle: EvidenceBundle, path: string): unknown[] {
+  return queryJsonPath(bundle, path);
+}
@@ -0,0 +1,78 @@
+/**
+ * JWK / JWKS key material for @guardspine/kernel signature verification.
+ * Keys are matched by kid against Signature.public_key_id, and kty/crv/alg
+ * are checked against Signature.algorithm before any verification.
+ */
+
+import { readFileSync } from "node:fs";
+import { createPublicKey } from "node:crypto";
+import type { KeyObject } from "node:crypto";
+
+export { findJwk, jwkAlgorithmMismatch } from "./checks.js";
+
+/** A public JSON Web Key (RFC 7517). Only the members the kernel reads are typed. */
+export interface Jwk {
+  kty: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+  crv?: string;
+  x?: string;
+  y?: string;
+  n?: string;
+  e?: string;
+  [member: string]: unknown;
+}
+
+/** A JSON Web Key Set (RFC 7517 section 5). */
+export interface JwkSet {
+  keys: Jwk[];
+}
+
+/** Convert a JWK to a public KeyObject. Private members are ignored. */
+export function jwkToKeyObject(jwk: Jwk): KeyObject {
+  const { kty, crv, x, y, n, e } = jwk;
+  const publicJwk = Object.fromEntries(
+    Object.entries({ kty, crv, x, y, n, e }).filter(([, v]) => v !== undefined),
+  );
+  return createPublicKey({ key: publicJwk, format: "jwk" });
+}
+
+function isJwk(value: unknown): value is Jwk {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as Jwk).kty === "string"
+  );
+}
+
+/**
+ * Parse a JWKS document. Throws if it is not a JSON object with a
+ * keys array of JWK objects, or if two keys share a kid.
+ */
+export function parseJwks(json: string): JwkSet {
+  const parsed: unknown = JSON.parse(json);
+  if (typeof parsed !== "object" || parsed === null || !Array.isArray((parsed as JwkSet).keys)) {
+    throw new Error("parseJwks: document must be an object with a keys array");
+  }
+  const keys = (parsed as { keys: unknown[] }).keys;
+  const seen = new Set<string>();
+  keys.forEach((key, idx) => {
+    if (!isJwk(key)) {
+      throw new Error(`parseJwks: key ${idx} is not a JWK object with kty`);
+    }
+    if (key.kid !== undefined) {
+      if (seen.has(key.kid)) {
+        throw new Error(`parseJwks: duplicate kid ${key.kid}`);
+      }
+      seen.add(key.kid);
+    }
+  });
+  return { keys: keys as Jwk[] };
+}
+
+/** Read and parse a JWKS document from disk. */
+export function readJwksFile(path: string): JwkSet {
+  return parseJwks(readFileSync(path, "utf-8"));
+}
@@ -0,0 +1,107 @@
+/**
+ * File-backed bundle ledger for @guardspine/kernel.
+ * Stores sealed bundles one file per (bundle_id, root_hash) so every sealed
+ * state of a bundle is kept, and resolves BundleReferences for verifyBundle.
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { canonicalJson } from "./canonical.js";
+import { verifyBundle } from "./verify.js";
+import type { BundleResolver, BundleVerificationOptions } from "./verify.js";
+import type { BundleReference, EvidenceBundle } from "./schemas/evidence-bundle.js";
+
+export type LedgerEntry = Pick<BundleReference, "bundle_id" | "root_hash">;
+
+export interface BundleLedger extends BundleResolver {
+  /** Store a bundle that verifies on its own, with the ledger's options. Returns its ledger key. */
+  put(bundle: EvidenceBundle): LedgerEntry;
+  get(reference: LedgerEntry): EvidenceBundle | undefined;
+  list(): LedgerEntry[];
+}
+
+const ROOT_HASH_PATTERN = /^(sha256|sha384|sha512|sha3-256):([a-f0-9]{64}|[a-f0-9]{96}|[a-f0-9]{128})$/;
+/** "<bundle_id>.<hex>.json" for sha256 roots, "<bundle_id>.<algorithm>-<hex>.json" otherwise. */
+const FILE_PATTERN = /^(.+)\.(?:(sha384|sha512|sha3-256)-)?([a-f0-9]{64,128})\.json$/;
+
+function entryFileName(entry: LedgerEntry): string | null {
+  const match = typeof entry.root_hash === "string" ? ROOT_HASH_PATTERN.exec(entry.root_hash) : null;
+  if (!match || typeof entry.bundle_id !== "string" || entry.bundle_id.length === 0) {
+    return null;
+  }
+  const hash = match[1] === "sha256" ? match[2] : `${match[1]}-${match[2]}`;
+  return `${encodeURIComponent(entry.bundle_id)}.${hash}.json`;
+}
+
+/**
+ * Open (creating if needed) a ledger stored in directory.
+ *
+ * Entries are never overwritten: putting a different bundle under an
+ * existing (bundle_id, root_hash) throws, so a stored state cannot be
+ * replaced, e.g. by a copy with different references or signatures.
+ *
+ * put verifies each bundle with options; a signed bundle is only stored
+ * when options supply its keys (publicKeys, jwks, trustStore, hmacSecret).
+ */
+export function createFileLedger(directory: string, options?: BundleVerificationOptions): BundleLedger {
+  mkdirSync(directory, { recursive: true });
+
+  const get = (reference: LedgerEntry): EvidenceBundle | undefined => {
+    const name = entryFileName(reference);
+    if (name === null) {
+      return undefined;
+    }
+    const path = join(directory, name);
+    if (!existsSync(path)) {
+      return undefined;
+    }
+    return JSON.parse(readFileSync(path, "utf-8")) as EvidenceBundle;
+  };
+
+  const put = (bundle: EvidenceBundle): LedgerEntry => {
+    const result = verifyBundle(bundle, options);
+    if (!result.valid) {
+      throw new Error(
+        `createFileLedger: bundle ${bundle.bundle_id} does not verify (${result.errors[0].code})`,
+      );
+    }
+    const entry = { bundle_id: bundle.bundle_id, root_hash: bundle.immutability_proof.root_hash };
+    const name = entryFileName(entry);
+    if (name === null) {
+      throw new Error(
+        `createFileLedger: bundle ${bundle.bundle_id} has an unusable bundle_id or root_hash`,
+      );
+    }
+
+    const serialized = JSON.stringify(bundle, null, 2);
+    const existing = get(entry);
+    if (existing) {
+      if (canonicalJson(existing) !== canonicalJson(JSON.parse(serialized))) {
+        throw new Error(
+          `createFileLedger: ledger already holds a different bundle for ${bundle.bundle_id} at ${entry.root_hash}`,
+        );
+      }
+      return entry;
+    }
+
+    const path = join(directory, name);
+    const tmp = `${path}.tmp`;
+    writeFileSync(tmp, serialized, "utf-8");
+    renameSync(tmp, path);
+    return entry;
+  };
+
+  const list = (): LedgerEntry[] =>
+    readdirSync(directory)
+      .map((name) => FILE_PATTERN.exec(name))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => ({
+        bundle_id: decodeURIComponent(match[1]),
+        root_hash: `${match[2] ?? "sha256"}:${match[3]}`,
+      }))
+      .sort(
+        (a, b) => a.bundle_id.localeCompare(b.bundle_id) || a.root_hash.localeCompare(b.root_hash),
+      );
+
+  return { get, put, list };
+}
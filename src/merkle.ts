@@ -0,0 +1,285 @@
+/**
+ * Merkle tree primitives for @guardspine/kernel (v0.3.0 proofs).
+ *
+ * Tree shape follows RFC 9162 (Certificate Transparency v2): a tree of n
+ * leaves splits at the largest power of two below n, so no node is ever
+ * duplicated. Leaf and interior hashes are domain-separated ("leaf|" and
+ * "node|" prefixes) so an interior node can never be passed off as a leaf.
+ */
+
+import { DEFAULT_HASH_ALGORITHM, hashString } from "./hash.js";
+import type { HashAlgorithm } from "./hash.js";
+import { itemLeafData, merkleLeafInput, merkleNodeInput, merkleSplit } from "./sealing.js";
+
+/** Hash of an interior node from its two children. */
+export function merkleNodeHash(
+  left: string,
+  right: string,
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM,
+): string {
+  return hashString(merkleNodeInput(left, right), algorithm);
+}
+
+/** Hash of a leaf from its serialized data. */
+export function merkleLeafHash(data: string, algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM): string {
+  return hashString(merkleLeafInput(data), algorithm);
+}
+
+/**
+ * Leaf hash for one evidence item. Binds the same fields as a v0.2.0
+ * chain link except previous_hash, so each leaf stands on its own.
+ */
+export function itemLeafHash(
+  sequence: number,
+  itemId: string,
+  contentType: string,
+  contentHash: string,
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM,
+): string {
+  return merkleLeafHash(itemLeafData(sequence, itemId, contentType, contentHash), algorithm);
+}
+
+/**
+ * Leaf hash for one transparency log entry. root_hash never contains "|",
+ * so the encoding is unambiguous for any bundle_id.
+ */
+export function logLeafHash(
+  bundleId: string,
+  rootHash: string,
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM,
+): string {
+  return merkleLeafHash(`${bundleId}|${rootHash}`, algorithm);
+}
+
+/** Merkle tree hash over already-hashed leaves. Throws on an empty list. */
+export function merkleRoot(leaves: string[], algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM): string {
+  if (leaves.length === 0) {
+    throw new Error("merkleRoot: at least one leaf is required");
+  }
+  return subtreeRoot(leaves, 0, leaves.length, algorithm);
+}
+
+export interface MerkleAccumulator {
+  add(leaf: string): void;
+  /** Root over the leaves added so far. Throws if there are none. */
+  root(): string;
+}
+
+/**
+ * Incremental merkleRoot for leaves that arrive one at a time. Keeps one
+ * complete subtree per set bit of the leaf count, so memory is O(log n);
+ * folding them right to left reproduces the RFC 9162 split.
+ */
+export function createMerkleAccumulator(
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM,
+): MerkleAccumulator {
+  const subtrees: { hash: string; size: number }[] = [];
+  return {
+    add(leaf: string): void {
+      let node = { hash: leaf, size: 1 };
+      while (subtrees.length > 0 && subtrees[subtrees.length - 1].size === node.size) {
+        const left = subtrees.pop()!;
+        node = { hash: merkleNodeHash(left.hash, node.hash, algorithm), size: left.size * 2 };
+      }
+      subtrees.push(node);
+    },
+    root(): string {
+      if (subtrees.length === 0) {
+        throw new Error("merkleRoot: at least one leaf is required");
+      }
+      let root = subtrees[subtrees.length - 1].hash;
+      for (let i = subtrees.length - 2; i >= 0; i--) {
+        root = merkleNodeHash(subtrees[i].hash, root, algorithm);
+      }
+      return root;
+    },
+  };
+}
+
+function subtreeRoot(
+  leaves: string[],
+  start: number,
+  end: number,
+  algorithm: HashAlgorithm,
+): string {
+  const n = end - start;
+  if (n === 1) {
+    return leaves[start];
+  }
+  const k = merkleSplit(n);
+  return merkleNodeHash(
+    subtreeRoot(leaves, start, start + k, algorithm),
+    subtreeRoot(leaves, start + k, end, algorithm),
+    algorithm,
+  );
+}
+
+/** Sibling hashes from leaf `index` up to the root (RFC 9162 PATH). */
+export function merkleAuditPath(
+  leaves: string[],
+  index: number,
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM,
+): string[] {
+  if (!Number.isInteger(index) || index < 0 || index >= leaves.length) {
+    throw new Error(`merkleAuditPath: index ${index} out of range for ${leaves.length} leaves`);
+  }
+  return auditPath(leaves, index, 0, leaves.length, algorithm);
+}
+
+function auditPath(
+  leaves: string[],
+  index: number,
+  start: number,
+  end: number,
+  algorithm: HashAlgorithm,
+): string[] {
+  const n = end - start;
+  if (n === 1) {
+    return [];
+  }
+  const k = merkleSplit(n);
+  if (index < k) {
+    return [
+      ...auditPath(leaves, index, start, start + k, algorithm),
+      subtreeRoot(leaves, start + k, end, algorithm),
+    ];
+  }
+  return [
+    ...auditPath(leaves, index - k, start + k, end, algorithm),
+    subtreeRoot(leaves, start, start + k, algorithm),
+  ];
+}
+
+/**
+ * Recompute the root from a leaf hash and its audit path (RFC 9162
+ * section 2.1.3.2). Returns null if the path has the wrong shape for
+ * the given index and tree size.
+ */
+export function rootFromAuditPath(
+  leafHash: string,
+  index: number,
+  treeSize: number,
+  path: string[],
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM,
+): string | null {
+  if (!Number.isInteger(index) || !Number.isInteger(treeSize) || index < 0 || index >= treeSize) {
+    return null;
+  }
+  let fn = index;
+  let sn = treeSize - 1;
+  let r = leafHash;
+  for (const sibling of path) {
+    if (sn === 0) {
+      return null;
+    }
+    if (fn % 2 === 1 || fn === sn) {
+      r = merkleNodeHash(sibling, r, algorithm);
+      if (fn % 2 === 0) {
+        while (fn % 2 === 0 && fn !== 0) {
+          fn = Math.floor(fn / 2);
+          sn = Math.floor(sn / 2);
+        }
+      }
+    } else {
+      r = merkleNodeHash(r, sibling, algorithm);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return sn === 0 ? r : null;
+}
+
+/**
+ * Consistency proof that the first oldSize leaves are a prefix of leaves
+ * (RFC 9162 section 2.1.4.1). Empty when oldSize equals leaves.length.
+ */
+export function merkleConsistencyProof(
+  leaves: string[],
+  oldSize: number,
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM,
+): string[] {
+  if (!Number.isInteger(oldSize) || oldSize < 1 || oldSize > leaves.length) {
+    throw new Error(`merkleConsistencyProof: oldSize ${oldSize} out of range for ${leaves.length} leaves`);
+  }
+  if (oldSize === leaves.length) {
+    return [];
+  }
+  return subProof(leaves, oldSize, 0, leaves.length, true, algorithm);
+}
+
+function subProof(
+  leaves: string[],
+  m: number,
+  start: number,
+  end: number,
+  complete: boolean,
+  algorithm: HashAlgorithm,
+): string[] {
+  const n = end - start;
+  if (m === n) {
+    return complete ? [] : [subtreeRoot(leaves, start, end, algorithm)];
+  }
+  const k = merkleSplit(n);
+  if (m <= k) {
+    return [
+      ...subProof(leaves, m, start, start + k, complete, algorithm),
+      subtreeRoot(leaves, start + k, end, algorithm),
+    ];
+  }
+  return [
+    ...subProof(leaves, m - k, start + k, end, false, algorithm),
+    subtreeRoot(leaves, start, start + k, algorithm),
+  ];
+}
+
+/**
+ * Check a consistency proof between two tree heads (RFC 9162 section
+ * 2.1.4.2): true only if oldRoot over oldSize leaves is a prefix of
+ * newRoot over newSize leaves.
+ */
+export function verifyMerkleConsistency(
+  oldSize: number,
+  oldRoot: string,
+  newSize: number,
+  newRoot: string,
+  proof: string[],
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM,
+): boolean {
+  if (!Number.isInteger(oldSize) || !Number.isInteger(newSize) || oldSize < 1 || oldSize > newSize) {
+    return false;
+  }
+  if (oldSize === newSize) {
+    return proof.length === 0 && oldRoot === newRoot;
+  }
+  const path = (oldSize & (oldSize - 1)) === 0 ? [oldRoot, ...proof] : proof;
+  if (path.length === 0) {
+    return false;
+  }
+
+  let fn = oldSize - 1;
+  let sn = newSize - 1;
+  while (fn % 2 === 1) {
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  let fr = path[0];
+  let sr = path[0];
+  for (const c of path.slice(1)) {
+    if (sn === 0) {
+      return false;
+    }
+    if (fn % 2 === 1 || fn === sn) {
+      fr = merkleNodeHash(c, fr, algorithm);
+      sr = merkleNodeHash(c, sr, algorithm);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      sr = merkleNodeHash(sr, c, algorithm);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return fr === oldRoot && sr === newRoot && sn === 0;
+}
@@ -0,0 +1,349 @@
+/**
+ * Strict bundle parsing for @guardspine/kernel.
+ * JSON.parse keeps the last of any duplicate keys and maps out-of-range
+ * numbers to Infinity, so two readers of the same bytes can disagree on
+ * what a bundle says. This parser reads UTF-8 bytes directly and rejects
+ * anything with more than one reading: invalid UTF-8, duplicate object
+ * keys, and numbers a double cannot hold.
+ */
+
+import { canonicalJson } from "./canonical.js";
+import type { EvidenceBundle } from "./schemas/evidence-bundle.js";
+
+export interface ParsedBundle {
+  bundle: EvidenceBundle;
+  /** True when the input bytes are exactly canonicalJson of the bundle. */
+  canonical: boolean;
+}
+
+/** A parse failure with the byte offset and JSON Pointer where it was found. */
+export interface BundleParseFailure {
+  message: string;
+  offset: number;
+  pointer: string;
+}
+
+/** Bundles nest a few levels; anything this deep is hostile, not evidence. */
+const MAX_NESTING_DEPTH = 512;
+
+const WHITESPACE = new Set([0x20, 0x09, 0x0a, 0x0d]);
+const ESCAPES: Record<number, string> = {
+  0x22: '"',
+  0x5c: "\\",
+  0x2f: "/",
+  0x62: "\b",
+  0x66: "\f",
+  0x6e: "\n",
+  0x72: "\r",
+  0x74: "\t",
+};
+const NUMBER_BYTES = new Set(Array.from("-+.eE0123456789", (char) => char.charCodeAt(0)));
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/;
+/** Longer number literals are shortened in failure messages. */
+const MAX_QUOTED_NUMBER = 32;
+
+/**
+ * Offset of the first byte that is not well-formed UTF-8 (RFC 3629:
+ * no overlongs, surrogates or code points above U+10FFFF), or -1.
+ */
+function invalidUtf8Offset(bytes: Uint8Array): number {
+  let i = 0;
+  while (i < bytes.length) {
+    const lead = bytes[i];
+    if (lead < 0x80) {
+      i++;
+      continue;
+    }
+    let length: number;
+    let min: number;
+    let max = 0xbf;
+    if (lead >= 0xc2 && lead <= 0xdf) {
+      length = 2;
+      min = 0x80;
+    } else if (lead >= 0xe0 && lead <= 0xef) {
+      length = 3;
+      min = lead === 0xe0 ? 0xa0 : 0x80;
+      max = lead === 0xed ? 0x9f : 0xbf;
+    } else if (lead >= 0xf0 && lead <= 0xf4) {
+      length = 4;
+      min = lead === 0xf0 ? 0x90 : 0x80;
+      max = lead === 0xf4 ? 0x8f : 0xbf;
+    } else {
+      return i;
+    }
+    // Only the first continuation byte has a narrowed range.
+    for (let k = 1; k < length; k++) {
+      const byte = bytes[i + k];
+      const low = k === 1 ? min : 0x80;
+      const high = k === 1 ? max : 0xbf;
+      if (byte === undefined || byte < low || byte > high) {
+        return i;
+      }
+    }
+    i += length;
+  }
+  return -1;
+}
+
+/** Thrown inside the parser and caught at its entry point. */
+interface ParseAbort {
+  failure: BundleParseFailure;
+}
+
+function pointerSegment(segment: string | number): string {
+  return String(segment).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function parseJsonBytes(bytes: Uint8Array): unknown {
+  const decoder = new TextDecoder("utf-8", { ignoreBOM: true });
+  let pos = 0;
+
+  const abort = (message: string, pointer: string, offset = pos): never => {
+    throw { failure: { message, offset, pointer } } satisfies ParseAbort;
+  };
+  const describe = (offset: number): string =>
+    offset >= bytes.length
+      ? "unexpected end of input"
+      : `unexpected byte 0x${bytes[offset].toString(16).padStart(2, "0")}`;
+  const skipWhitespace = (): void => {
+    while (pos < bytes.length && WHITESPACE.has(bytes[pos])) {
+      pos++;
+    }
+  };
+  const expectLiteral = (literal: string, value: unknown, pointer: string): unknown => {
+    for (let k = 0; k < literal.length; k++) {
+      if (bytes[pos + k] !== literal.charCodeAt(k)) {
+        abort(describe(pos + k), pointer, pos + k);
+      }
+    }
+    pos += literal.length;
+    return value;
+  };
+
+  const parseString = (pointer: string): string => {
+    // Caller has checked the opening quote.
+    pos++;
+    let text = "";
+    let runStart = pos;
+    for (;;) {
+      const byte = bytes[pos];
+      if (byte === undefined) {
+        abort("unterminated string", pointer);
+      }
+      if (byte === 0x22) {
+        text += decoder.decode(bytes.subarray(runStart, pos));
+        pos++;
+        return text;
+      }
+      if (byte < 0x20) {
+        abort("unescaped control character in string", pointer);
+      }
+      if (byte !== 0x5c) {
+        pos++;
+        continue;
+      }
+      text += decoder.decode(bytes.subarray(runStart, pos));
+      const escape = bytes[pos + 1];
+      if (escape === 0x75) {
+        const hex = String.fromCharCode(...bytes.subarray(pos + 2, pos + 6));
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          abort("invalid \\u escape", pointer);
+        }
+        text += String.fromCharCode(parseInt(hex, 16));
+        pos += 6;
+      } else if (escape !== undefined && ESCAPES[escape] !== undefined) {
+        text += ESCAPES[escape];
+        pos += 2;
+      } else {
+        abort("invalid escape sequence", pointer);
+      }
+      runStart = pos;
+    }
+  };
+
+  const parseNumber = (pointer: string): number => {
+    let end = pos;
+    while (end < bytes.length && NUMBER_BYTES.has(bytes[end])) {
+      end++;
+    }
+    // Decoded, not spread into String.fromCharCode: a digit run can be
+    // longer than the engine's argument limit.
+    const match = NUMBER_PATTERN.exec(decoder.decode(bytes.subarray(pos, end)));
+    if (!match) {
+      abort(describe(pos), pointer);
+    }
+    const literal = match![0];
+    const quoted =
+      literal.length > MAX_QUOTED_NUMBER ? `${literal.slice(0, MAX_QUOTED_NUMBER)}...` : literal;
+    const value = Number(literal);
+    if (!Number.isFinite(value)) {
+      abort(`number ${quoted} overflows an IEEE-754 double`, pointer);
+    }
+    if (value === 0 && /[1-9]/.test(literal.split(/[eE]/)[0])) {
+      abort(`number ${quoted} underflows an IEEE-754 double`, pointer);
+    }
+    pos += literal.length;
+    return value;
+  };
+
+  const parseValue = (pointer: string, depth: number): unknown => {
+    skipWhitespace();
+    const byte = bytes[pos];
+    if (byte === 0x7b || byte === 0x5b) {
+      if (depth >= MAX_NESTING_DEPTH) {
+        abort(`nesting exceeds ${MAX_NESTING_DEPTH} levels`, pointer);
+      }
+      return byte === 0x7b ? parseObject(pointer, depth + 1) : parseArray(pointer, depth + 1);
+    }
+    if (byte === 0x22) {
+      return parseString(pointer);
+    }
+    if (byte === 0x2d || (byte >= 0x30 && byte <= 0x39)) {
+      return parseNumber(pointer);
+    }
+    if (byte === 0x74) {
+      return expectLiteral("true", true, pointer);
+    }
+    if (byte === 0x66) {
+      return expectLiteral("false", false, pointer);
+    }
+    if (byte === 0x6e) {
+      return expectLiteral("null", null, pointer);
+    }
+    return abort(describe(pos), pointer);
+  };
+
+  const parseObject = (pointer: string, depth: number): Record<string, unknown> => {
+    pos++;
+    const object: Record<string, unknown> = {};
+    const seen = new Set<string>();
+    skipWhitespace();
+    if (bytes[pos] === 0x7d) {
+      pos++;
+      return object;
+    }
+    for (;;) {
+      skipWhitespace();
+      if (bytes[pos] !== 0x22) {
+        abort(`${describe(pos)}, expected a key`, pointer);
+      }
+      const keyOffset = pos;
+      const key = parseString(pointer);
+      // Compared after unescaping, so "a" and "\u0061" collide.
+      if (seen.has(key)) {
+        abort(`duplicate key ${JSON.stringify(key)}`, pointer, keyOffset);
+      }
+      seen.add(key);
+      skipWhitespace();
+      if (bytes[pos] !== 0x3a) {
+        abort(`${describe(pos)}, expected ":"`, pointer);
+      }
+      pos++;
+      const value = parseValue(`${pointer}/${pointerSegment(key)}`, depth);
+      // defineProperty, so a "__proto__" key stays data, as with JSON.parse.
+      Object.defineProperty(object, key, { value, enumerable: true, writable: true, configurable: true });
+      skipWhitespace();
+      if (bytes[pos] === 0x2c) {
+        pos++;
+      } else if (bytes[pos] === 0x7d) {
+        pos++;
+        return object;
+      } else {
+        abort(`${describe(pos)}, expected "," or "}"`, pointer);
+      }
+    }
+  };
+
+  const parseArray = (pointer: string, depth: number): unknown[] => {
+    pos++;
+    const array: unknown[] = [];
+    skipWhitespace();
+    if (bytes[pos] === 0x5d) {
+      pos++;
+      return array;
+    }
+    for (;;) {
+      array.push(parseValue(`${pointer}/${array.length}`, depth));
+      skipWhitespace();
+      if (bytes[pos] === 0x2c) {
+        pos++;
+      } else if (bytes[pos] === 0x5d) {
+        pos++;
+        return array;
+      } else {
+        abort(`${describe(pos)}, expected "," or "]"`, pointer);
+      }
+    }
+  };
+
+  const value = parseValue("", 0);
+  skipWhitespace();
+  if (pos < bytes.length) {
+    abort(`${describe(pos)} after the top-level value`, "");
+  }
+  return value;
+}
+
+/**
+ * Parse one JSON object from bytes, returning the failure instead of
+ * throwing. verifyBundle and verifyItemStream use this to report a parse
+ * failure as a verification error, so any exception from the parser, not
+ * only a ParseAbort, becomes a failure.
+ */
+export function tryParseObject(
+  bytes: Uint8Array,
+): { value: Record<string, unknown>; canonical: boolean } | { failure: BundleParseFailure } {
+  const badByte = invalidUtf8Offset(bytes);
+  if (badByte !== -1) {
+    return { failure: { message: "invalid UTF-8", offset: badByte, pointer: "" } };
+  }
+
+  let value: unknown;
+  try {
+    value = parseJsonBytes(bytes);
+  } catch (err) {
+    if ((err as ParseAbort).failure) {
+      return { failure: (err as ParseAbort).failure };
+    }
+    return { failure: { message: `parser error: ${(err as Error).message}`, offset: 0, pointer: "" } };
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { failure: { message: "top-level value is not an object", offset: 0, pointer: "" } };
+  }
+
+  let canonical: boolean;
+  try {
+    canonical = canonicalJson(value, { strict: true }) === new TextDecoder().decode(bytes);
+  } catch {
+    // Escaped lone surrogates parse but have no canonical form.
+    canonical = false;
+  }
+  return { value: value as Record<string, unknown>, canonical };
+}
+
+/** tryParseObject for a whole bundle. */
+export function tryParseBundle(bytes: Uint8Array): ParsedBundle | { failure: BundleParseFailure } {
+  const result = tryParseObject(bytes);
+  return "failure" in result
+    ? result
+    : { bundle: result.value as unknown as EvidenceBundle, canonical: result.canonical };
+}
+
+/**
+ * Parse a bundle from UTF-8 bytes, rejecting invalid UTF-8, duplicate
+ * object keys, numbers outside IEEE-754 double range and nesting deeper
+ * than 512 levels. Throws with the byte offset and JSON Pointer of the
+ * first problem. The result says whether the bytes were already
+ * canonicalJson output, i.e. whether re-serializing would change them.
+ */
+export function parseBundle(bytes: Uint8Array): ParsedBundle {
+  if (!(bytes instanceof Uint8Array)) {
+    throw new Error("parseBundle: bytes must be a Uint8Array");
+  }
+  const result = tryParseBundle(bytes);
+  if ("failure" in result) {
+    const { message, offset, pointer } = result.failure;
+    throw new Error(`parseBundle: ${message} at byte ${offset} (${pointer || "/"})`);
+  }
+  return result;
+}
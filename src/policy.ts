@@ -0,0 +1,347 @@
+/**
+ * Policy pack evaluation for @guardspine/kernel.
+ * Evaluates PolicyPack rules against an evidence bundle. Deterministic and
+ * side-effect free: the same bundle and pack always produce the same result.
+ */
+
+import { canonicalJson } from "./canonical.js";
+import { compileJsonPath, queryJsonPath } from "./jsonpath.js";
+import type { EvidenceBundle } from "./schemas/evidence-bundle.js";
+import type {
+  FieldCondition,
+  ItemQuantifier,
+  PolicyCondition,
+  PolicyPack,
+  PolicyRule,
+} from "./schemas/policy-pack.js";
+
+export type PolicySeverity = PolicyRule["severity"];
+
+export interface RuleResult {
+  ruleId: string;
+  name: string;
+  severity: PolicySeverity;
+  passed: boolean;
+  /**
+   * What the condition saw. For a field condition, the value its field
+   * resolved to (undefined if absent). For all/any, the list of child
+   * observations; for not, the child observation; for item quantifiers,
+   * the selected and matching item_ids.
+   */
+  observed: unknown;
+  /** Set when the rule could not be evaluated (bad operator, invalid regex). */
+  error?: string;
+}
+
+export interface PolicyEvaluationResult {
+  policyId: string;
+  policyVersion: string;
+  verdict: "pass" | "fail";
+  results: RuleResult[];
+}
+
+export interface PolicyEvaluationOptions {
+  /**
+   * Lowest severity whose failure fails the verdict (default: "low").
+   * Failures below it are still reported in results.
+   */
+  failOnSeverity?: PolicySeverity;
+}
+
+const SUPPORTED_SCHEMA_VERSIONS: string[] = ["0.1.0", "0.2.0"];
+
+const SEVERITY_RANK: Record<PolicySeverity, number> = {
+  info: 0,
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+};
+
+function hasOwn(obj: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+/**
+ * Resolve a condition field against a value.
+ *
+ * Fields starting with "$" are JSONPath (see queryJsonPath). A definite
+ * path (names and indices only) yields its single value or undefined; any
+ * other path yields the array of matched values.
+ *
+ * Other fields are dotted paths. Numeric segments index arrays. Any other
+ * segment applied to an array is projected over its elements, so
+ * "items.content_type" yields the list of every item's content_type.
+ * Only own properties are read.
+ */
+export function resolveField(root: unknown, field: string): unknown {
+  if (field.startsWith("$")) {
+    const compiled = compileJsonPath(field);
+    const matches = queryJsonPath(root, compiled);
+    return compiled.definite ? matches[0] : matches;
+  }
+  const segments = field.split(".").filter((seg) => seg.length > 0);
+  let current: unknown = root;
+  for (const segment of segments) {
+    current = step(current, segment);
+    if (current === undefined) {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+function step(value: unknown, segment: string): unknown {
+  if (Array.isArray(value)) {
+    if (/^\d+$/.test(segment)) {
+      const index = Number(segment);
+      return index < value.length ? value[index] : undefined;
+    }
+    const projected: unknown[] = [];
+    for (const element of value) {
+      const next = step(element, segment);
+      if (next === undefined) {
+        continue;
+      }
+      if (Array.isArray(element) && Array.isArray(next)) {
+        // Not push(...next): spreading a large array overflows the stack.
+        for (const nested of next) {
+          projected.push(nested);
+        }
+      } else {
+        projected.push(next);
+      }
+    }
+    return projected;
+  }
+  if (typeof value === "object" && value !== null && hasOwn(value, segment)) {
+    return (value as Record<string, unknown>)[segment];
+  }
+  return undefined;
+}
+
+function deepEqual(left: unknown, right: unknown): boolean {
+  if (left === undefined || right === undefined) {
+    return left === right;
+  }
+  return canonicalJson(left) === canonicalJson(right);
+}
+
+function compareOrdered(
+  observed: unknown,
+  expected: unknown,
+  test: (cmp: number) => boolean,
+): boolean {
+  if (typeof observed === "number" && typeof expected === "number") {
+    return test(observed - expected);
+  }
+  if (typeof observed === "string" && typeof expected === "string") {
+    return test(observed < expected ? -1 : observed > expected ? 1 : 0);
+  }
+  return false;
+}
+
+/**
+ * Apply a single condition's operator to an observed value.
+ * Throws on an unknown operator or an invalid "matches" pattern.
+ */
+export function applyOperator(
+  operator: FieldCondition["operator"],
+  observed: unknown,
+  expected: unknown,
+): boolean {
+  switch (operator) {
+    case "eq":
+      return deepEqual(observed, expected);
+    case "neq":
+      return !deepEqual(observed, expected);
+    case "gt":
+      return compareOrdered(observed, expected, (cmp) => cmp > 0);
+    case "gte":
+      return compareOrdered(observed, expected, (cmp) => cmp >= 0);
+    case "lt":
+      return compareOrdered(observed, expected, (cmp) => cmp < 0);
+    case "lte":
+      return compareOrdered(observed, expected, (cmp) => cmp <= 0);
+    case "contains":
+      if (Array.isArray(observed)) {
+        return observed.some((element) => deepEqual(element, expected));
+      }
+      if (typeof observed === "string" && typeof expected === "string") {
+        return observed.includes(expected);
+      }
+      return false;
+    case "matches": {
+      if (typeof expected !== "string") {
+        throw new Error("matches requires a string pattern");
+      }
+      const pattern = new RegExp(expected, "u");
+      return typeof observed === "string" && pattern.test(observed);
+    }
+    case "exists": {
+      const present = observed !== undefined && observed !== null;
+      return expected === false ? !present : present;
+    }
+    default:
+      throw new Error(`Unknown operator: ${String(operator)}`);
+  }
+}
+
+/** Nesting limit for combinators and quantifiers. */
+const MAX_CONDITION_DEPTH = 32;
+
+const COMPOSITE_KEYS = ["all", "any", "not", "every", "some", "none"] as const;
+
+interface ConditionOutcome {
+  passed: boolean;
+  observed: unknown;
+}
+
+export interface ItemQuantifierObservation {
+  selected: string[];
+  matched: string[];
+}
+
+function isComposite(condition: PolicyCondition): boolean {
+  return (
+    typeof condition === "object" &&
+    condition !== null &&
+    COMPOSITE_KEYS.some((key) => hasOwn(condition, key))
+  );
+}
+
+function selectItems(bundle: EvidenceBundle, quantifier: ItemQuantifier) {
+  const items = Array.isArray(bundle.items) ? bundle.items : [];
+  return items.filter(
+    (item) => quantifier.content_type === undefined || item.content_type === quantifier.content_type,
+  );
+}
+
+function evaluateQuantifier(
+  bundle: EvidenceBundle,
+  quantifier: ItemQuantifier,
+  depth: number,
+): ItemQuantifierObservation {
+  const selected = selectItems(bundle, quantifier);
+  const matched = selected.filter(
+    (item) =>
+      quantifier.condition === undefined ||
+      evaluateCondition(bundle, item, quantifier.condition, depth + 1).passed,
+  );
+  return {
+    selected: selected.map((item) => item.item_id),
+    matched: matched.map((item) => item.item_id),
+  };
+}
+
+/**
+ * Evaluate a condition. Field conditions resolve against target, which is
+ * the bundle at the top level and the current item inside a quantifier.
+ * Quantifiers always range over the bundle's items.
+ */
+function evaluateCondition(
+  bundle: EvidenceBundle,
+  target: unknown,
+  condition: PolicyCondition,
+  depth: number,
+): ConditionOutcome {
+  if (depth > MAX_CONDITION_DEPTH) {
+    throw new Error(`Condition nesting exceeds ${MAX_CONDITION_DEPTH} levels`);
+  }
+  if (typeof condition !== "object" || condition === null) {
+    throw new Error("Condition must be an object");
+  }
+
+  if ("all" in condition) {
+    const outcomes = condition.all.map((child) => evaluateCondition(bundle, target, child, depth + 1));
+    return { passed: outcomes.every((o) => o.passed), observed: outcomes.map((o) => o.observed) };
+  }
+  if ("any" in condition) {
+    const outcomes = condition.any.map((child) => evaluateCondition(bundle, target, child, depth + 1));
+    return { passed: outcomes.some((o) => o.passed), observed: outcomes.map((o) => o.observed) };
+  }
+  if ("not" in condition) {
+    const outcome = evaluateCondition(bundle, target, condition.not, depth + 1);
+    return { passed: !outcome.passed, observed: outcome.observed };
+  }
+  if ("every" in condition) {
+    const observed = evaluateQuantifier(bundle, condition.every, depth);
+    return { passed: observed.matched.length === observed.selected.length, observed };
+  }
+  if ("some" in condition) {
+    const observed = evaluateQuantifier(bundle, condition.some, depth);
+    return { passed: observed.matched.length > 0, observed };
+  }
+  if ("none" in condition) {
+    const observed = evaluateQuantifier(bundle, condition.none, depth);
+    return { passed: observed.matched.length === 0, observed };
+  }
+
+  if (typeof condition.field !== "string") {
+    throw new Error("Field condition requires a string field");
+  }
+  const observed = resolveField(target, condition.field);
+  return { passed: applyOperator(condition.operator, observed, condition.value), observed };
+}
+
+function evaluateRule(bundle: EvidenceBundle, rule: PolicyRule): RuleResult {
+  const base = {
+    ruleId: rule.rule_id,
+    name: rule.name,
+    severity: rule.severity,
+  };
+
+  try {
+    return { ...base, ...evaluateCondition(bundle, bundle, rule.condition, 0) };
+  } catch (err) {
+    return { ...base, passed: false, observed: undefined, error: (err as Error).message };
+  }
+}
+
+/**
+ * Evaluate every rule in a policy pack against a bundle.
+ *
+ * Field conditions resolve against the bundle (see resolveField), so item
+ * data is reachable through "items"; inside every/some/none quantifiers
+ * they resolve against each selected item. Packs without schema_version
+ * are treated as 0.1.0 and may only use field conditions. The verdict is "fail" if any rule
+ * at or above failOnSeverity failed or could not be evaluated.
+ */
+export function evaluatePolicy(
+  bundle: EvidenceBundle,
+  pack: PolicyPack,
+  options?: PolicyEvaluationOptions,
+): PolicyEvaluationResult {
+  if (!pack || !Array.isArray(pack.rules)) {
+    throw new Error("evaluatePolicy: pack.rules must be an array");
+  }
+  const schemaVersion = pack.schema_version ?? "0.1.0";
+  if (!SUPPORTED_SCHEMA_VERSIONS.includes(schemaVersion)) {
+    throw new Error(
+      `evaluatePolicy: unsupported schema_version ${schemaVersion}. Supported: ${SUPPORTED_SCHEMA_VERSIONS.join(", ")}`,
+    );
+  }
+  if (schemaVersion === "0.1.0") {
+    const rule = pack.rules.find((r) => isComposite(r.condition));
+    if (rule) {
+      throw new Error(
+        `evaluatePolicy: rule ${rule.rule_id} uses combinators or quantifiers, which require schema_version 0.2.0`,
+      );
+    }
+  }
+
+  const threshold = SEVERITY_RANK[options?.failOnSeverity ?? "low"];
+  const results = pack.rules.map((rule) => evaluateRule(bundle, rule));
+  const failed = results.some(
+    (result) =>
+      !result.passed &&
+      (SEVERITY_RANK[result.severity] ?? SEVERITY_RANK.critical) >= threshold,
+  );
+
+  return {
+    policyId: pack.policy_id,
+    policyVersion: pack.version,
+    verdict: failed ? "fail" : "pass",
+    results,
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Post-seal selective disclosure for @guardspine/kernel.
+ * Redaction swaps an item's content for a marker and keeps its content_hash,
+ * so the hash chain and root still verify while the content itself does not.
+ */
+
+import type { EvidenceBundle } from "./schemas/evidence-bundle.js";
+
+/** Content of a redacted item. content_hash still commits to the original. */
+export interface RedactedContent {
+  _redacted: true;
+}
+
+/** True when content is exactly the redaction marker. */
+export function isRedactedContent(content: unknown): content is RedactedContent {
+  if (typeof content !== "object" || content === null || Array.isArray(content)) {
+    return false;
+  }
+  const keys = Object.keys(content);
+  return keys.length === 1 && keys[0] === "_redacted" && (content as RedactedContent)._redacted === true;
+}
+
+/**
+ * Return a copy of the bundle with the listed items' content replaced by
+ * the redaction marker. Throws if an item_id is not in the bundle.
+ *
+ * Signatures cover item content, so they are dropped from the copy and
+ * the original signer's attestation does not carry over. Only the redactor
+ * can sign the copy again, and an unsigned copy does not stop a later holder
+ * from redacting more items. Timestamps over a dropped signature go with
+ * it; timestamps over root_hash are kept, since redaction leaves the root
+ * unchanged.
+ */
+export function redactItems(bundle: EvidenceBundle, itemIds: string[]): EvidenceBundle {
+  const targets = new Set(itemIds);
+  const known = new Set(bundle.items.map((item) => item.item_id));
+  for (const itemId of targets) {
+    if (!known.has(itemId)) {
+      throw new Error(`redactItems: item ${itemId} not found in bundle`);
+    }
+  }
+
+  const { signatures: _signatures, timestamps, ...rest } = bundle;
+  const redacted: EvidenceBundle = {
+    ...rest,
+    items: bundle.items.map((item) =>
+      targets.has(item.item_id)
+        ? { ...item, content: { _redacted: true } satisfies RedactedContent }
+        : item,
+    ),
+  };
+  const rootTimestamps = (timestamps ?? []).filter((entry) => entry.signature_id === undefined);
+  if (rootTimestamps.length > 0) {
+    redacted.timestamps = rootTimestamps;
+  }
+  return redacted;
+}
@@ -0,0 +1,158 @@
+/**
+ * Pre-seal sanitization for @guardspine/kernel (bundle version 0.2.1).
+ * Replaces secrets and PII in item content with deterministic placeholders
+ * and records a SanitizationAttestation describing what was done.
+ */
+
+import { computeContentHash } from "./seal.js";
+import { RULE_ID_PATTERN } from "./checks.js";
+import type {
+  EvidenceItem,
+  SanitizationAttestation,
+} from "./schemas/evidence-bundle.js";
+
+export { verifySanitizationAttestation } from "./checks.js";
+
+export interface SanitizationRule {
+  /** Stable identifier recorded in the attestation and used in placeholders. */
+  id: string;
+  /** Matches are replaced. The global flag is added if missing. */
+  pattern: RegExp;
+}
+
+export interface SanitizeOptions {
+  /** Rules to run, in order (default: DEFAULT_SANITIZATION_RULES). */
+  rules?: SanitizationRule[];
+  /** Extra rules appended after `rules`. */
+  customRules?: SanitizationRule[];
+}
+
+export interface SanitizeResult<T extends Partial<EvidenceItem>> {
+  items: T[];
+  attestation: SanitizationAttestation;
+}
+
+export const DEFAULT_SANITIZATION_RULES: SanitizationRule[] = [
+  {
+    id: "private-key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  { id: "jwt", pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+  { id: "bearer-token", pattern: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/g },
+  { id: "aws-access-key-id", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { id: "github-token", pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { id: "slack-token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+  { id: "email", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+];
+
+function toGlobal(pattern: RegExp): RegExp {
+  return pattern.flags.includes("g") ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+}
+
+/**
+ * SHA-256 over the canonical JSON of each rule's id, pattern source and
+ * flags, in order. Lets a verifier check which exact ruleset was applied.
+ */
+export function computeRulesetHash(rules: SanitizationRule[]): string {
+  return computeContentHash(
+    rules.map((rule) => ({
+      id: rule.id,
+      source: rule.pattern.source,
+      flags: toGlobal(rule.pattern).flags,
+    })),
+  );
+}
+
+/**
+ * Sanitize item content before sealing. String values anywhere in content
+ * are scanned (object keys are not); each distinct match becomes
+ * "[REDACTED:<rule id>:<n>]", numbered per rule in order of first
+ * appearance, so equal secrets map to equal placeholders across items.
+ * Items without content are passed through untouched.
+ */
+export function sanitizeItems<T extends Partial<EvidenceItem>>(
+  items: T[],
+  options?: SanitizeOptions,
+): SanitizeResult<T> {
+  const rules = [...(options?.rules ?? DEFAULT_SANITIZATION_RULES), ...(options?.customRules ?? [])];
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    if (!RULE_ID_PATTERN.test(rule.id)) {
+      throw new Error(`sanitizeItems: invalid rule id ${JSON.stringify(rule.id)}`);
+    }
+    if (seen.has(rule.id)) {
+      throw new Error(`sanitizeItems: duplicate rule id ${rule.id}`);
+    }
+    seen.add(rule.id);
+  }
+
+  const compiled = rules.map((rule) => ({ id: rule.id, pattern: toGlobal(rule.pattern) }));
+  const placeholders = new Map<string, Map<string, string>>(rules.map((rule) => [rule.id, new Map()]));
+  const itemRedactions: Record<string, Record<string, number>> = {};
+  let redactionCount = 0;
+
+  const sanitizedItems = items.map((item, idx) => {
+    if (item.content === undefined) {
+      return item;
+    }
+    if (item.item_id === undefined) {
+      throw new Error(`sanitizeItems: item at index ${idx} has no item_id`);
+    }
+    const counts: Record<string, number> = {};
+
+    const scrub = (text: string): string => {
+      let result = text;
+      for (const rule of compiled) {
+        const known = placeholders.get(rule.id)!;
+        result = result.replace(rule.pattern, (match) => {
+          if (match.length === 0) {
+            return match;
+          }
+          let placeholder = known.get(match);
+          if (placeholder === undefined) {
+            placeholder = `[REDACTED:${rule.id}:${known.size + 1}]`;
+            known.set(match, placeholder);
+          }
+          counts[rule.id] = (counts[rule.id] ?? 0) + 1;
+          return placeholder;
+        });
+      }
+      return result;
+    };
+
+    const walk = (value: unknown): unknown => {
+      if (typeof value === "string") {
+        return scrub(value);
+      }
+      if (Array.isArray(value)) {
+        return value.map(walk);
+      }
+      if (typeof value === "object" && value !== null) {
+        const out: Record<string, unknown> = {};
+        for (const [key, child] of Object.entries(value)) {
+          out[key] = walk(child);
+        }
+        return out;
+      }
+      return value;
+    };
+
+    const content = walk(item.content) as EvidenceItem["content"];
+    const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+    if (total > 0) {
+      itemRedactions[item.item_id] = counts;
+      redactionCount += total;
+    }
+    return { ...item, content };
+  });
+
+  return {
+    items: sanitizedItems,
+    attestation: {
+      rules_applied: rules.map((rule) => rule.id),
+      ruleset_hash: computeRulesetHash(rules),
+      item_redactions: itemRedactions,
+      redaction_count: redactionCount,
+    },
+  };
+}
@@ -0,0 +1,277 @@
+/**
+ * Embedded JSON Schema validation for @guardspine/kernel.
+ * Implements the draft 2020-12 subset evidence-bundle.schema.json uses,
+ * with no dependencies. A keyword outside the subset throws rather than
+ * being silently ignored, so the schema cannot outgrow the validator.
+ */
+
+import { ErrorCode } from "./errors.js";
+import type { VerificationError, VerificationResult } from "./errors.js";
+import { EVIDENCE_BUNDLE_SCHEMA } from "./schemas/evidence-bundle.schema.js";
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  uniqueItems?: boolean;
+  enum?: unknown[];
+  pattern?: string;
+  minimum?: number;
+  format?: string;
+  $defs?: Record<string, JsonSchema>;
+  [keyword: string]: unknown;
+}
+
+export interface SchemaValidationOptions {
+  /**
+   * Treat "format" as an assertion (default: true). Draft 2020-12 makes
+   * format an annotation unless a validator opts in.
+   */
+  assertFormats?: boolean;
+}
+
+/** Keywords that carry no assertion. */
+const ANNOTATIONS = new Set([
+  "$schema",
+  "$id",
+  "$defs",
+  "title",
+  "description",
+  "contentEncoding",
+]);
+
+const ASSERTIONS = new Set([
+  "$ref",
+  "type",
+  "required",
+  "properties",
+  "additionalProperties",
+  "items",
+  "minItems",
+  "uniqueItems",
+  "enum",
+  "pattern",
+  "minimum",
+  "format",
+]);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+/** RFC 3339 date-time (the profile JSON Schema's "date-time" format names). */
+const DATE_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})[Tt](\d{2}):(\d{2}):(\d{2})(\.\d+)?([Zz]|[+-](\d{2}):(\d{2}))$/;
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+  uuid: (value) => UUID_PATTERN.test(value),
+  "date-time": (value) => {
+    const match = DATE_TIME_PATTERN.exec(value);
+    if (!match) {
+      return false;
+    }
+    const [, y, mo, d, h, mi, s, , , oh, om] = match;
+    const days = new Date(Date.UTC(+y, +mo, 0)).getUTCDate();
+    return (
+      +mo >= 1 && +mo <= 12 && +d >= 1 && +d <= days &&
+      +h <= 23 && +mi <= 59 && +s <= 60 &&
+      (oh === undefined || (+oh <= 23 && +om <= 59))
+    );
+  },
+};
+
+/** JSON Pointer escaping (RFC 6901). */
+function pointerSegment(segment: string | number): string {
+  return String(segment).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value;
+}
+
+function typeMatches(value: unknown, type: string): boolean {
+  const actual = jsonType(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function deepEqual(left: unknown, right: unknown): boolean {
+  if (left === right) {
+    return true;
+  }
+  if (typeof left !== "object" || typeof right !== "object" || left === null || right === null) {
+    return false;
+  }
+  if (Array.isArray(left) !== Array.isArray(right)) {
+    return false;
+  }
+  const leftKeys = Object.keys(left);
+  const rightKeys = Object.keys(right);
+  return (
+    leftKeys.length === rightKeys.length &&
+    leftKeys.every((key) =>
+      deepEqual((left as Record<string, unknown>)[key], (right as Record<string, unknown>)[key]),
+    )
+  );
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  if (!ref.startsWith("#/")) {
+    throw new Error(`validateSchema: only local $ref is supported, got ${ref}`);
+  }
+  let node: unknown = root;
+  for (const raw of ref.slice(2).split("/")) {
+    const segment = raw.replace(/~1/g, "/").replace(/~0/g, "~");
+    node = typeof node === "object" && node !== null ? (node as Record<string, unknown>)[segment] : undefined;
+  }
+  if (typeof node !== "object" || node === null) {
+    throw new Error(`validateSchema: unresolved $ref ${ref}`);
+  }
+  return node as JsonSchema;
+}
+
+interface ValidationContext {
+  root: JsonSchema;
+  assertFormats: boolean;
+  errors: VerificationError[];
+}
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  pointer: string,
+  schemaPointer: string,
+  ctx: ValidationContext,
+): void {
+  const fail = (keyword: string, message: string, details: Record<string, unknown> = {}): void => {
+    ctx.errors.push({
+      code: ErrorCode.INPUT_VALIDATION_FAILED,
+      message: `${pointer || "/"}: ${message}`,
+      details: { pointer, keyword, schema_pointer: `${schemaPointer}/${keyword}`, ...details },
+    });
+  };
+
+  for (const keyword of Object.keys(schema)) {
+    if (!ASSERTIONS.has(keyword) && !ANNOTATIONS.has(keyword)) {
+      throw new Error(`validateSchema: unsupported keyword ${keyword} at ${schemaPointer}`);
+    }
+  }
+
+  if (schema.$ref !== undefined) {
+    validateNode(value, resolveRef(ctx.root, schema.$ref), pointer, schema.$ref, ctx);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => typeMatches(value, type))) {
+      fail("type", `expected ${types.join(" or ")}, got ${jsonType(value)}`, {
+        expected: types,
+        actual: jsonType(value),
+      });
+      // Keywords below assume the declared type.
+      return;
+    }
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some((option) => deepEqual(option, value))) {
+    fail("enum", `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`, {
+      allowed: schema.enum,
+    });
+  }
+
+  if (typeof value === "string") {
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+      fail("pattern", `does not match ${schema.pattern}`, { pattern: schema.pattern });
+    }
+    if (schema.format !== undefined && ctx.assertFormats) {
+      const check = FORMATS[schema.format];
+      if (check && !check(value)) {
+        fail("format", `is not a valid ${schema.format}`, { format: schema.format });
+      }
+    }
+  }
+
+  if (typeof value === "number" && schema.minimum !== undefined && value < schema.minimum) {
+    fail("minimum", `must be >= ${schema.minimum}`, { minimum: schema.minimum });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail("minItems", `must have at least ${schema.minItems} items`, { min_items: schema.minItems });
+    }
+    if (schema.uniqueItems === true) {
+      const duplicate = value.findIndex((item, idx) => value.slice(0, idx).some((prior) => deepEqual(prior, item)));
+      if (duplicate !== -1) {
+        fail("uniqueItems", `item ${duplicate} is a duplicate`, { index: duplicate });
+      }
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, idx) => {
+        validateNode(item, schema.items!, `${pointer}/${idx}`, `${schemaPointer}/items`, ctx);
+      });
+    }
+  }
+
+  if (jsonType(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const field of schema.required ?? []) {
+      if (record[field] === undefined) {
+        fail("required", `missing required property ${field}`, { property: field });
+      }
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      const childPointer = `${pointer}/${pointerSegment(key)}`;
+      if (propertySchema !== undefined) {
+        validateNode(child, propertySchema, childPointer, `${schemaPointer}/properties/${pointerSegment(key)}`, ctx);
+      } else if (schema.additionalProperties === false) {
+        fail("additionalProperties", `unexpected property ${key}`, { property: key });
+      } else if (typeof schema.additionalProperties === "object") {
+        validateNode(child, schema.additionalProperties, childPointer, `${schemaPointer}/additionalProperties`, ctx);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a JSON value against a schema in the supported subset. Each
+ * violation is an INPUT_VALIDATION_FAILED error whose details.pointer is
+ * the JSON Pointer (RFC 6901) of the offending value.
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  options?: SchemaValidationOptions,
+): VerificationResult {
+  const ctx: ValidationContext = {
+    root: schema,
+    assertFormats: options?.assertFormats ?? true,
+    errors: [],
+  };
+  validateNode(value, schema, "", "#", ctx);
+  return { valid: ctx.errors.length === 0, errors: ctx.errors };
+}
+
+/**
+ * Validate a bundle against evidence-bundle.schema.json.
+ *
+ * Trace rationale: the schema is the structural contract every GuardSpine
+ * implementation emits. Checking it before any hashing means a field of
+ * the wrong type is reported at its JSON Pointer instead of reaching the
+ * hash and signature checks, which assume well-typed input.
+ */
+export function validateBundleSchema(
+  bundle: unknown,
+  options?: SchemaValidationOptions,
+): VerificationResult {
+  return validateSchema(bundle, EVIDENCE_BUNDLE_SCHEMA, options);
+}
@@ -8,11 +8,21 @@ export interface EvidenceBundle {
   version: string;
   created_at: string;
   policy_id?: string;
+  /** Version of the policy pack named by policy_id. */
+  policy_version?: string;
+  /** computePolicyHash of the policy pack the bundle was evaluated against. */
+  policy_hash?: string;
   artifact_id?: string;
   risk_tier?: "L0" | "L1" | "L2" | "L3" | "L4";
   items: EvidenceItem[];
   immutability_proof: ImmutabilityProof;
   signatures?: Signature[];
+  /** RFC 3161 timestamp tokens over root_hash or a signature. */
+  timestamps?: BundleTimestamp[];
+  /** Other bundles this one summarizes or belongs to. */
+  references?: BundleReference[];
+  /** v0.2.1 only: attestation from sanitizeItems. */
+  sanitization?: SanitizationAttestation;
   metadata?: Record<string, unknown>;
 }
 
@@ -28,6 +38,13 @@ export interface EvidenceItem {
 export interface ImmutabilityProof {
   hash_chain: HashChainLink[];
   root_hash: string;
+  /** Absent for v0.2.0/legacy chain roots; "v0.3.0" when root_hash is a Merkle root. */
+  proof_version?: "v0.3.0";
+  /**
+   * Algorithm of every content, chain and root hash in the bundle. Absent
+   * means "sha256"; sealBundle omits it for sha256.
+   */
+  hash_algorithm?: "sha256" | "sha384" | "sha512" | "sha3-256";
 }
 
 export interface HashChainLink {
@@ -48,4 +65,39 @@ export interface Signature {
   public_key_id?: string;
 }
 
+/**
+ * An RFC 3161 TimeStampToken (CMS ContentInfo, base64 DER). The stamped
+ * message is the UTF-8 root_hash, or the signature_value of the named
+ * signature.
+ */
+export interface BundleTimestamp {
+  token: string;
+  /** Absent: the token covers root_hash. */
+  signature_id?: string;
+}
+
+/**
+ * Pins another bundle by id and root hash. "child" bundles are summarized
+ * by this one (e.g. per-PR bundles under a release); "parent" is the reverse.
+ */
+export interface BundleReference {
+  bundle_id: string;
+  root_hash: string;
+  relation: "parent" | "child";
+}
+
+/**
+ * Record of the pre-seal sanitization pass (bundle version 0.2.1).
+ */
+export interface SanitizationAttestation {
+  /** Rule ids that ran, in order. */
+  rules_applied: string[];
+  /** computeRulesetHash of the rules that ran. */
+  ruleset_hash: string;
+  /** item_id -> rule id -> number of replacements. Items with none are omitted. */
+  item_redactions: Record<string, Record<string, number>>;
+  /** Sum of all per-item counts. */
+  redaction_count: number;
+}
+
 export type HashChain = HashChainLink[];
@@ -0,0 +1,360 @@
+/**
+ * evidence-bundle.schema.json as a module, so validateBundleSchema needs no
+ * file access or JSON import support at runtime. Must stay identical to the
+ * JSON file; tests/schema.test.ts compares the two.
+ */
+
+import type { JsonSchema } from "../schema.js";
+
+export const EVIDENCE_BUNDLE_SCHEMA: JsonSchema = {
+  "$schema": "https://json-schema.org/draft/2020-12/schema",
+  "$id": "https://guardspine.dev/schemas/evidence-bundle/v0.2.0",
+  title: "GuardSpine Evidence Bundle",
+  description: "Canonical tamper-evident evidence bundle format. All GuardSpine repos MUST emit and validate against this schema.",
+  type: "object",
+  required: [
+    "bundle_id",
+    "version",
+    "created_at",
+    "items",
+    "immutability_proof",
+  ],
+  properties: {
+    bundle_id: {
+      type: "string",
+      format: "uuid",
+      description: "Unique identifier for this bundle (UUID v4).",
+    },
+    version: {
+      type: "string",
+      enum: [
+        "0.2.0",
+        "0.2.1",
+      ],
+      description: "Schema version. 0.2.1 adds the optional sanitization attestation.",
+    },
+    created_at: {
+      type: "string",
+      format: "date-time",
+      description: "ISO 8601 timestamp of bundle creation.",
+    },
+    policy_id: {
+      type: "string",
+      description: "Optional reference to the policy pack used for evaluation.",
+    },
+    policy_version: {
+      type: "string",
+      description: "Optional version of the policy pack named by policy_id.",
+    },
+    policy_hash: {
+      type: "string",
+      pattern: "^sha256:[a-f0-9]{64}$",
+      description: "Optional SHA-256 of RFC 8785 canonical JSON of the policy pack.",
+    },
+    artifact_id: {
+      type: "string",
+      description: "Optional ID of the artifact this bundle covers (from spec).",
+    },
+    risk_tier: {
+      type: "string",
+      enum: [
+        "L0",
+        "L1",
+        "L2",
+        "L3",
+        "L4",
+      ],
+      description: "Optional risk classification tier (from spec).",
+    },
+    items: {
+      type: "array",
+      minItems: 1,
+      items: {
+        "$ref": "#/$defs/EvidenceItem",
+      }
+    },
+    immutability_proof: {
+      "$ref": "#/$defs/ImmutabilityProof",
+    },
+    signatures: {
+      type: "array",
+      items: {
+        "$ref": "#/$defs/Signature",
+      },
+      description: "Optional cryptographic signatures over the bundle.",
+    },
+    timestamps: {
+      type: "array",
+      items: {
+        "$ref": "#/$defs/BundleTimestamp",
+      },
+      description: "Optional RFC 3161 timestamp tokens. Excluded from the signing payload.",
+    },
+    references: {
+      type: "array",
+      items: {
+        "$ref": "#/$defs/BundleReference",
+      },
+      description: "Optional references to parent or child bundles, pinned by root_hash.",
+    },
+    sanitization: {
+      "$ref": "#/$defs/SanitizationAttestation",
+      description: "Optional record of pre-seal sanitization. Only valid when version is 0.2.1.",
+    },
+    metadata: {
+      type: "object",
+      additionalProperties: true,
+      description: "Arbitrary metadata (retention, scope, audit trail can go here).",
+    }
+  },
+  "$defs": {
+    EvidenceItem: {
+      type: "object",
+      required: [
+        "item_id",
+        "content_type",
+        "content",
+        "content_hash",
+        "sequence",
+      ],
+      properties: {
+        item_id: {
+          type: "string",
+          description: "Unique identifier for this item.",
+        },
+        content_type: {
+          type: "string",
+          description: "MIME-like type tag, e.g. guardspine/test-result, guardspine/diff, guardspine/approval.",
+        },
+        content: {
+          type: [
+            "object",
+            "array",
+          ],
+          description: "Structured content. Objects or arrays accepted; primitives are not.",
+        },
+        content_hash: {
+          type: "string",
+          pattern: "^(sha256:[a-f0-9]{64}|sha3-256:[a-f0-9]{64}|sha384:[a-f0-9]{96}|sha512:[a-f0-9]{128})$",
+          description: "Hash of RFC 8785 canonical JSON of content, using the proof's hash_algorithm.",
+        },
+        sequence: {
+          type: "integer",
+          minimum: 0,
+          description: "Zero-based sequence number. MUST equal the item's index in the items array.",
+        },
+        created_at: {
+          type: "string",
+          format: "date-time",
+          description: "Optional timestamp of item creation.",
+        }
+      },
+    },
+    ImmutabilityProof: {
+      type: "object",
+      required: [
+        "hash_chain",
+        "root_hash",
+      ],
+      properties: {
+        hash_chain: {
+          type: "array",
+          minItems: 1,
+          items: {
+            "$ref": "#/$defs/HashChainLink",
+          }
+        },
+        root_hash: {
+          type: "string",
+          pattern: "^(sha256:[a-f0-9]{64}|sha3-256:[a-f0-9]{64}|sha384:[a-f0-9]{96}|sha512:[a-f0-9]{128})$",
+          description: "SHA-256 of the concatenated chain_hash values, or the Merkle root when proof_version is v0.3.0.",
+        },
+        proof_version: {
+          type: "string",
+          enum: [
+            "v0.3.0",
+          ],
+          description: "Optional. v0.3.0 means root_hash is a Merkle tree root over item leaves.",
+        },
+        hash_algorithm: {
+          type: "string",
+          enum: [
+            "sha256",
+            "sha384",
+            "sha512",
+            "sha3-256",
+          ],
+          description: "Optional. Algorithm of every content, chain and root hash in the bundle; absent means sha256.",
+        }
+      },
+    },
+    HashChainLink: {
+      type: "object",
+      required: [
+        "sequence",
+        "item_id",
+        "content_type",
+        "content_hash",
+        "previous_hash",
+        "chain_hash",
+      ],
+      properties: {
+        sequence: {
+          type: "integer",
+          minimum: 0,
+          description: "Must match the corresponding EvidenceItem.sequence.",
+        },
+        item_id: {
+          type: "string",
+          description: "Bound to the chain to prevent item_id substitution.",
+        },
+        content_type: {
+          type: "string",
+          description: "Bound to the chain to prevent content_type substitution.",
+        },
+        content_hash: {
+          type: "string",
+          pattern: "^(sha256:[a-f0-9]{64}|sha3-256:[a-f0-9]{64}|sha384:[a-f0-9]{96}|sha512:[a-f0-9]{128})$",
+          description: "SHA-256 of canonical JSON of the item content.",
+        },
+        previous_hash: {
+          type: "string",
+          description: "chain_hash of the previous link, or 'genesis' for the first.",
+        },
+        chain_hash: {
+          type: "string",
+          pattern: "^(sha256:[a-f0-9]{64}|sha3-256:[a-f0-9]{64}|sha384:[a-f0-9]{96}|sha512:[a-f0-9]{128})$",
+          description: "SHA-256 of (sequence|item_id|content_type|content_hash|previous_hash).",
+        }
+      },
+    },
+    Signature: {
+      type: "object",
+      required: [
+        "signature_id",
+        "algorithm",
+        "signer_id",
+        "signature_value",
+        "signed_at",
+      ],
+      properties: {
+        signature_id: {
+          type: "string",
+          description: "Unique ID for this signature.",
+        },
+        algorithm: {
+          type: "string",
+          enum: [
+            "ed25519",
+            "rsa-sha256",
+            "ecdsa-p256",
+            "hmac-sha256",
+          ],
+          description: "Signing algorithm used.",
+        },
+        signer_id: {
+          type: "string",
+          description: "Identifier for the signer (human, AI, system).",
+        },
+        signature_value: {
+          type: "string",
+          contentEncoding: "base64",
+          description: "Base64-encoded signature over the bundle excluding signatures array.",
+        },
+        signed_at: {
+          type: "string",
+          format: "date-time",
+        },
+        public_key_id: {
+          type: "string",
+          description: "Optional reference to the public key for verification.",
+        }
+      },
+    },
+    BundleTimestamp: {
+      type: "object",
+      required: [
+        "token",
+      ],
+      properties: {
+        token: {
+          type: "string",
+          contentEncoding: "base64",
+          description: "DER TimeStampToken (CMS ContentInfo) from an RFC 3161 TSA.",
+        },
+        signature_id: {
+          type: "string",
+          description: "Signature whose signature_value is stamped. Absent: the token stamps root_hash.",
+        }
+      },
+    },
+    BundleReference: {
+      type: "object",
+      required: [
+        "bundle_id",
+        "root_hash",
+        "relation",
+      ],
+      properties: {
+        bundle_id: {
+          type: "string",
+          description: "bundle_id of the referenced bundle.",
+        },
+        root_hash: {
+          type: "string",
+          pattern: "^(sha256:[a-f0-9]{64}|sha3-256:[a-f0-9]{64}|sha384:[a-f0-9]{96}|sha512:[a-f0-9]{128})$",
+          description: "root_hash of the referenced bundle at the time of reference.",
+        },
+        relation: {
+          type: "string",
+          enum: [
+            "parent",
+            "child",
+          ],
+          description: "child: summarized by this bundle. parent: summarizes this bundle.",
+        }
+      },
+    },
+    SanitizationAttestation: {
+      type: "object",
+      required: [
+        "rules_applied",
+        "ruleset_hash",
+        "item_redactions",
+        "redaction_count",
+      ],
+      properties: {
+        rules_applied: {
+          type: "array",
+          uniqueItems: true,
+          items: {
+            type: "string",
+            pattern: "^[a-z0-9][a-z0-9-]*$",
+          },
+          description: "Sanitization rule ids that ran, in order.",
+        },
+        ruleset_hash: {
+          type: "string",
+          pattern: "^sha256:[a-f0-9]{64}$",
+          description: "SHA-256 of canonical JSON of the rules' id, pattern source and flags.",
+        },
+        item_redactions: {
+          type: "object",
+          additionalProperties: {
+            type: "object",
+            additionalProperties: {
+              type: "integer",
+              minimum: 0,
+            }
+          },
+          description: "item_id -> rule id -> number of replacements.",
+        },
+        redaction_count: {
+          type: "integer",
+          minimum: 0,
+          description: "Sum of all per-item counts.",
+        }
+      },
+    }
+  },
+};
@@ -1,12 +1,21 @@
 /**
  * Policy Pack type definitions for @guardspine/kernel.
  * A policy pack defines the rules an evidence bundle is evaluated against.
+ * These types mirror the JSON Schema at policy-pack.schema.json.
  */
 
+/**
+ * Policy pack format version.
+ * - "0.1.0" (default when absent): every condition is a FieldCondition.
+ * - "0.2.0": adds all/any/not combinators and item quantifiers.
+ */
+export type PolicyPackSchemaVersion = "0.1.0" | "0.2.0";
+
 export interface PolicyPack {
   policy_id: string;
   version: string;
   name: string;
+  schema_version?: PolicyPackSchemaVersion;
   description?: string;
   rules: PolicyRule[];
   metadata?: Record<string, unknown>;
@@ -20,9 +29,57 @@ export interface PolicyRule {
   condition: PolicyCondition;
 }
 
-export interface PolicyCondition {
+export type PolicyCondition =
+  | FieldCondition
+  | AllCondition
+  | AnyCondition
+  | NotCondition
+  | EveryItemCondition
+  | SomeItemCondition
+  | NoItemCondition;
+
+export interface FieldCondition {
   /** JSONPath or simple key to evaluate */
   field: string;
   operator: "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "contains" | "matches" | "exists";
   value?: unknown;
 }
+
+/** True when every sub-condition is true (true for an empty list). */
+export interface AllCondition {
+  all: PolicyCondition[];
+}
+
+/** True when at least one sub-condition is true (false for an empty list). */
+export interface AnyCondition {
+  any: PolicyCondition[];
+}
+
+export interface NotCondition {
+  not: PolicyCondition;
+}
+
+/**
+ * Selects bundle items, optionally filtered by content_type. Inside
+ * condition, fields resolve against the item rather than the bundle.
+ * Without condition, every selected item matches.
+ */
+export interface ItemQuantifier {
+  content_type?: string;
+  condition?: PolicyCondition;
+}
+
+/** True when every selected item matches (true when none are selected). */
+export interface EveryItemCondition {
+  every: ItemQuantifier;
+}
+
+/** True when at least one selected item matches. */
+export interface SomeItemCondition {
+  some: ItemQuantifier;
+}
+
+/** True when no selected item matches. */
+export interface NoItemCondition {
+  none: ItemQuantifier;
+}
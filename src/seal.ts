@@ -1,10 +1,26 @@
 /**
  * Bundle sealing and hash-chain construction for @guardspine/kernel.
- * Uses node:crypto for SHA-256. Zero external dependencies.
+ * Uses node:crypto for SHA-256 (or the algorithm chosen in SealOptions).
+ * Zero external dependencies.
  */
 
 import { createHash } from "node:crypto";
 import { canonicalJson } from "./canonical.js";
+import type { CanonicalJsonOptions } from "./canonical.js";
+import { GENESIS_HASH } from "./algorithms.js";
+import { DEFAULT_HASH_ALGORITHM, hashString } from "./hash.js";
+import type { HashAlgorithm } from "./hash.js";
+import { itemLeafHash, merkleRoot } from "./merkle.js";
+import {
+  canonicalItemContent,
+  chainHashInput,
+  checkChainLength,
+  policyBindingFields,
+  resolveHashAlgorithm,
+  resolveProofVersion,
+  sealInputs,
+  sealResult,
+} from "./sealing.js";
 import type {
   EvidenceBundle,
   EvidenceItem,
@@ -12,26 +28,21 @@ import type {
   HashChainLink,
   ImmutabilityProof,
 } from "./schemas/evidence-bundle.js";
+import type { PolicyPack } from "./schemas/policy-pack.js";
 
-/** Sentinel value for the first link in a hash chain (no predecessor). */
-export const GENESIS_HASH = "genesis";
+export { GENESIS_HASH } from "./algorithms.js";
+export { resolveHashAlgorithm, resolveProofVersion } from "./sealing.js";
 
 /**
- * Compute SHA-256 of the canonical JSON representation of an object.
- * Returns "sha256:<hex>".
+ * Compute SHA-256 (by default) of the canonical JSON representation of an object.
+ * Returns "sha256:<hex>", or "<algorithm>:<hex>".
  */
-export function computeContentHash(content: object): string {
-  const canonical = canonicalJson(content);
-  const hash = createHash("sha256").update(canonical, "utf-8").digest("hex");
-  return `sha256:${hash}`;
-}
-
-/**
- * Internal: compute SHA-256 of a raw string. Returns "sha256:<hex>".
- */
-function sha256(data: string): string {
-  const hash = createHash("sha256").update(data, "utf-8").digest("hex");
-  return `sha256:${hash}`;
+export function computeContentHash(
+  content: object,
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM,
+  canonicalOptions?: CanonicalJsonOptions,
+): string {
+  return hashString(canonicalJson(content, canonicalOptions), algorithm);
 }
 
 export interface ChainInput {
@@ -40,106 +51,180 @@ export interface ChainInput {
   contentId: string;
 }
 
-export type ProofVersion = "v0.2.0" | "legacy";
+/**
+ * - "v0.2.0": linear chain; root_hash = SHA-256 over all chain_hash values.
+ * - "v0.3.0": same chain links; root_hash is a Merkle root over item leaves,
+ *   so a single item can be proven with generateInclusionProof.
+ * - "legacy": deprecated 3-field chain hash.
+ */
+export type ProofVersion = "v0.2.0" | "v0.3.0" | "legacy";
 
 export interface SealOptions {
   proofVersion?: ProofVersion;
+  /** Algorithm for content, chain and root hashes (default: "sha256"). */
+  hashAlgorithm?: HashAlgorithm;
+  /** Policy pack the bundle was evaluated against; its hash is returned as policyBinding. */
+  policyPack?: PolicyPack;
+  /**
+   * "strict" (default) throws on content canonicalJson cannot represent
+   * faithfully; "lenient" reproduces hashes of bundles sealed before strict
+   * mode existed.
+   */
+  canonicalization?: "strict" | "lenient";
 }
 
-function chainHashV020(
+/** chain_hash of a v0.2.0/v0.3.0 link: the hash of its pipe-joined fields. */
+export function chainHashV020(
   sequence: number,
   itemId: string,
   contentType: string,
   contentHash: string,
   previousHash: string,
+  algorithm: HashAlgorithm,
 ): string {
-  const chainInput = `${sequence}|${itemId}|${contentType}|${contentHash}|${previousHash}`;
-  return sha256(chainInput);
+  const link = {
+    sequence,
+    item_id: itemId,
+    content_type: contentType,
+    content_hash: contentHash,
+    previous_hash: previousHash,
+  };
+  return hashString(chainHashInput(link, "v0.2.0"), algorithm);
 }
 
-function chainHashLegacy(
-  sequence: number,
-  contentHash: string,
+/**
+ * The link for chain position seq, given the chain_hash of the link before
+ * it. buildHashChain, extendHashChain and the streaming sealer all build
+ * links here, so they produce identical hashes.
+ */
+export function nextChainLink(
+  caller: string,
+  seq: number,
+  item: ChainInput,
   previousHash: string,
-): string {
-  const chainInput = `${sequence}|${contentHash}|${previousHash}`;
-  return sha256(chainInput);
-}
-
-function resolveProofVersion(options?: SealOptions): ProofVersion {
-  const version = options?.proofVersion ?? "v0.2.0";
-  if (version === "legacy") {
-    console.warn(
-      "guardspine-kernel: proofVersion 'legacy' is deprecated and will be removed in the next major version. Use 'v0.2.0'.",
-    );
-  }
-  return version;
+  algorithm: HashAlgorithm,
+  version: ProofVersion,
+  strict: boolean,
+): HashChainLink {
+  const link = {
+    sequence: seq,
+    item_id: item.contentId,
+    content_type: item.contentType,
+    content_hash: hashString(canonicalItemContent(caller, seq, item, strict), algorithm),
+    previous_hash: previousHash,
+  };
+  return { ...link, chain_hash: hashString(chainHashInput(link, version), algorithm) };
 }
 
-/** Hard ceiling on chain length. No evidence bundle should need more. */
-const MAX_CHAIN_ITEMS = 10_000;
-
 /**
  * Build a hash chain from an ordered list of items.
  * Each link's chain_hash depends on proofVersion (v0.2.0 by default).
+ * Longer chains can be sealed with sealItemStream.
  */
 export function buildHashChain(
   items: ChainInput[],
   options?: SealOptions,
 ): HashChain {
-  if (items.length > MAX_CHAIN_ITEMS) {
-    throw new Error(
-      `buildHashChain: ${items.length} items exceeds limit of ${MAX_CHAIN_ITEMS}`,
-    );
-  }
+  checkChainLength("buildHashChain", items.length);
   const chain: HashChainLink[] = [];
   const version = resolveProofVersion(options);
+  const algorithm = resolveHashAlgorithm(options);
+  const strict = (options?.canonicalization ?? "strict") === "strict";
 
   for (let seq = 0; seq < items.length; seq++) {
-    const itemContentHash = computeContentHash(items[seq].content);
     const previousHash = seq === 0 ? GENESIS_HASH : chain[seq - 1].chain_hash;
-    const chainHash =
-      version === "legacy"
-        ? chainHashLegacy(seq, itemContentHash, previousHash)
-        : chainHashV020(
-          seq,
-          items[seq].contentId,
-          items[seq].contentType,
-          itemContentHash,
-          previousHash,
-        );
-
-    chain.push({
-      sequence: seq,
-      item_id: items[seq].contentId,
-      content_type: items[seq].contentType,
-      content_hash: itemContentHash,
-      previous_hash: previousHash,
-      chain_hash: chainHash,
-    });
+    chain.push(nextChainLink("buildHashChain", seq, items[seq], previousHash, algorithm, version, strict));
   }
 
   return chain;
 }
 
+/**
+ * Extend a v0.2.0 hash chain from its last chain_hash. Existing links are
+ * copied unchanged; new links continue the sequence numbering. New content
+ * is canonicalized strictly unless canonicalization is "lenient".
+ */
+export function extendHashChain(
+  chain: HashChain,
+  items: ChainInput[],
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM,
+  canonicalization: SealOptions["canonicalization"] = "strict",
+): HashChain {
+  checkChainLength("extendHashChain", chain.length + items.length);
+  const extended: HashChainLink[] = [...chain];
+  const strict = canonicalization === "strict";
+
+  for (const item of items) {
+    const seq = extended.length;
+    const previousHash = seq === 0 ? GENESIS_HASH : extended[seq - 1].chain_hash;
+    extended.push(nextChainLink("extendHashChain", seq, item, previousHash, algorithm, "v0.2.0", strict));
+  }
+
+  return extended;
+}
+
 /**
  * Compute the root hash over an entire chain.
- * root_hash = SHA-256(concatenation of all chain_hash values).
+ * root_hash = SHA-256(concatenation of all chain_hash values), or the
+ * chosen hash algorithm.
  *
  * Uses incremental hashing: O(1) memory instead of building
  * an intermediate concatenated string. Produces identical output.
  */
-export function computeRootHash(chain: HashChain): string {
-  const h = createHash("sha256");
+export function computeRootHash(
+  chain: HashChain,
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM,
+): string {
+  const h = createHash(algorithm);
   for (const link of chain) {
     h.update(link.chain_hash, "utf-8");
   }
-  return `sha256:${h.digest("hex")}`;
+  return `${algorithm}:${h.digest("hex")}`;
+}
+
+/**
+ * Compute the v0.3.0 root hash: a Merkle root over one leaf per chain link
+ * (see itemLeafHash), in sequence order.
+ */
+export function computeMerkleRootHash(
+  chain: HashChain,
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM,
+): string {
+  return merkleRoot(
+    chain.map((link) =>
+      itemLeafHash(link.sequence, link.item_id, link.content_type, link.content_hash, algorithm),
+    ),
+    algorithm,
+  );
+}
+
+/**
+ * Identifies the exact policy content a bundle was evaluated against.
+ * Field names match EvidenceBundle so the binding can be spread onto it.
+ */
+export interface PolicyBinding {
+  policy_id: string;
+  policy_version: string;
+  policy_hash: string;
+}
+
+/**
+ * Content hash of a policy pack: SHA-256 of its canonical JSON.
+ * Any change to a rule, including loosening a threshold, changes the hash.
+ */
+export function computePolicyHash(pack: PolicyPack): string {
+  return computeContentHash(pack);
+}
+
+export function createPolicyBinding(pack: PolicyPack): PolicyBinding {
+  return { ...policyBindingFields(pack), policy_hash: computePolicyHash(pack) };
 }
 
 export interface SealResult {
   immutabilityProof: ImmutabilityProof;
   items: EvidenceItem[];
+  /** Present when SealOptions.policyPack was given. */
+  policyBinding?: PolicyBinding;
 }
 
 /**
@@ -147,46 +232,22 @@ export interface SealResult {
  * build the hash chain, and produce the immutability proof.
  *
  * Expects bundle.items to have at least content, content_type, and item_id set.
- * Fills in content_hash and sequence on each item.
+ * Fills in content_hash and sequence on each item. With options.policyPack,
+ * also returns the policy binding to record on the bundle.
  */
 export function sealBundle(
   bundle: Partial<EvidenceBundle> & { items: Partial<EvidenceItem>[] },
   options?: SealOptions,
 ): SealResult {
-  if (!bundle.items || bundle.items.length === 0) {
-    throw new Error("sealBundle: items must be a non-empty array");
-  }
-
-  const chainInputs: ChainInput[] = bundle.items.map((item, idx) => {
-    if (!item.item_id) {
-      throw new Error(`sealBundle: item ${idx} missing item_id`);
-    }
-    if (!item.content_type) {
-      throw new Error(`sealBundle: item ${idx} missing content_type`);
-    }
-    return {
-      content: item.content ?? {},
-      contentType: item.content_type,
-      contentId: item.item_id,
-    };
-  });
+  const chainInputs = sealInputs(bundle, options);
+  const policyBinding = options?.policyPack ? createPolicyBinding(options.policyPack) : undefined;
 
   const chain = buildHashChain(chainInputs, options);
-  const rootHash = computeRootHash(chain);
-
-  const sealedItems: EvidenceItem[] = bundle.items.map((item, idx) => ({
-    item_id: item.item_id!,
-    content_type: item.content_type!,
-    content: (item.content ?? {}) as Record<string, unknown>,
-    content_hash: chain[idx].content_hash,
-    sequence: idx,
-  }));
-
-  return {
-    immutabilityProof: {
-      hash_chain: chain,
-      root_hash: rootHash,
-    },
-    items: sealedItems,
-  };
+  const algorithm = resolveHashAlgorithm(options);
+  const merkle = options?.proofVersion === "v0.3.0";
+  const rootHash = merkle
+    ? computeMerkleRootHash(chain, algorithm)
+    : computeRootHash(chain, algorithm);
+
+  return sealResult(bundle.items, chain, rootHash, algorithm, merkle, policyBinding);
 }
@@ -0,0 +1,176 @@
+/**
+ * The parts of sealing and signing that involve no hashing: input checks,
+ * the exact strings each hash and signature covers, and assembly of the
+ * sealed result. seal.ts, merkle.ts and sign.ts (node:crypto) and
+ * webcrypto.ts (WebCrypto) build on these, so both entry points check
+ * inputs the same way and hash byte-identical strings. Must never import
+ * Node built-ins.
+ */
+
+import { canonicalJson } from "./canonical.js";
+import { DEFAULT_HASH_ALGORITHM, isHashAlgorithm } from "./algorithms.js";
+import type { HashAlgorithm } from "./algorithms.js";
+import type { ChainInput, PolicyBinding, ProofVersion, SealOptions, SealResult } from "./seal.js";
+import type { EvidenceBundle, EvidenceItem, HashChain, HashChainLink } from "./schemas/evidence-bundle.js";
+import type { PolicyPack } from "./schemas/policy-pack.js";
+
+/** Hard ceiling on chain length. No evidence bundle should need more. */
+export const MAX_CHAIN_ITEMS = 10_000;
+
+export function checkChainLength(caller: string, length: number): void {
+  if (length > MAX_CHAIN_ITEMS) {
+    throw new Error(`${caller}: ${length} items exceeds limit of ${MAX_CHAIN_ITEMS}`);
+  }
+}
+
+export function resolveHashAlgorithm(options?: SealOptions): HashAlgorithm {
+  const algorithm = options?.hashAlgorithm ?? DEFAULT_HASH_ALGORITHM;
+  if (!isHashAlgorithm(algorithm)) {
+    throw new Error(`sealBundle: unsupported hash algorithm ${String(algorithm)}`);
+  }
+  return algorithm;
+}
+
+export function resolveProofVersion(options?: SealOptions): ProofVersion {
+  const version = options?.proofVersion ?? "v0.2.0";
+  if (version === "legacy") {
+    console.warn(
+      "guardspine-kernel: proofVersion 'legacy' is deprecated and will be removed in the next major version. Use 'v0.2.0'.",
+    );
+  }
+  return version;
+}
+
+/** The binding for pack without its policy_hash. */
+export function policyBindingFields(pack: PolicyPack): Omit<PolicyBinding, "policy_hash"> {
+  if (!pack.policy_id || !pack.version) {
+    throw new Error("createPolicyBinding: policy pack requires policy_id and version");
+  }
+  return { policy_id: pack.policy_id, policy_version: pack.version };
+}
+
+/**
+ * sealBundle's checks on its input, in order, and the chain inputs for
+ * its items. The policy pack is checked here so that a bad pack is
+ * reported before a bad item.
+ */
+export function sealInputs(
+  bundle: Partial<EvidenceBundle> & { items: Partial<EvidenceItem>[] },
+  options?: SealOptions,
+): ChainInput[] {
+  if (!bundle.items || bundle.items.length === 0) {
+    throw new Error("sealBundle: items must be a non-empty array");
+  }
+  const policyPack = options?.policyPack;
+  if (policyPack && bundle.policy_id !== undefined && bundle.policy_id !== policyPack.policy_id) {
+    throw new Error(
+      `sealBundle: bundle policy_id ${bundle.policy_id} does not match policy pack ${policyPack.policy_id}`,
+    );
+  }
+  if (policyPack) {
+    policyBindingFields(policyPack);
+  }
+
+  return bundle.items.map((item, idx) => {
+    if (!item.item_id) {
+      throw new Error(`sealBundle: item ${idx} missing item_id`);
+    }
+    if (!item.content_type) {
+      throw new Error(`sealBundle: item ${idx} missing content_type`);
+    }
+    return {
+      content: item.content ?? {},
+      contentType: item.content_type,
+      contentId: item.item_id,
+    };
+  });
+}
+
+/**
+ * Canonical JSON of an item's content, naming the item when strict
+ * canonicalization rejects it.
+ */
+export function canonicalItemContent(caller: string, seq: number, item: ChainInput, strict: boolean): string {
+  try {
+    return canonicalJson(item.content, { strict });
+  } catch (err) {
+    throw new Error(`${caller}: item ${seq} (${item.contentId}) content: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * The string a link's chain_hash is the hash of: its pipe-joined fields
+ * for v0.2.0/v0.3.0, or the deprecated 3-field form for legacy proofs.
+ */
+export function chainHashInput(link: Omit<HashChainLink, "chain_hash">, version: ProofVersion): string {
+  return version === "legacy"
+    ? `${link.sequence}|${link.content_hash}|${link.previous_hash}`
+    : `${link.sequence}|${link.item_id}|${link.content_type}|${link.content_hash}|${link.previous_hash}`;
+}
+
+/** The data of an evidence item's Merkle leaf (see itemLeafHash). */
+export function itemLeafData(sequence: number, itemId: string, contentType: string, contentHash: string): string {
+  return `${sequence}|${itemId}|${contentType}|${contentHash}`;
+}
+
+/** The string a Merkle leaf hash is the hash of. */
+export function merkleLeafInput(data: string): string {
+  return `leaf|${data}`;
+}
+
+/** The string an interior Merkle node hash is the hash of. */
+export function merkleNodeInput(left: string, right: string): string {
+  return `node|${left}|${right}`;
+}
+
+/** Size of the left subtree of an n-leaf tree (RFC 9162): the largest power of two below n. */
+export function merkleSplit(n: number): number {
+  let k = 1;
+  while (k * 2 < n) {
+    k *= 2;
+  }
+  return k;
+}
+
+/** sealBundle's result from the sealed chain and its root. */
+export function sealResult(
+  items: Partial<EvidenceItem>[],
+  chain: HashChain,
+  rootHash: string,
+  algorithm: HashAlgorithm,
+  merkle: boolean,
+  policyBinding: PolicyBinding | undefined,
+): SealResult {
+  const result: SealResult = {
+    immutabilityProof: {
+      hash_chain: chain,
+      root_hash: rootHash,
+    },
+    items: items.map((item, idx) => ({
+      item_id: item.item_id!,
+      content_type: item.content_type!,
+      content: (item.content ?? {}) as Record<string, unknown>,
+      content_hash: chain[idx].content_hash,
+      sequence: idx,
+    })),
+  };
+  if (merkle) {
+    result.immutabilityProof.proof_version = "v0.3.0";
+  }
+  if (algorithm !== DEFAULT_HASH_ALGORITHM) {
+    result.immutabilityProof.hash_algorithm = algorithm;
+  }
+  if (policyBinding) {
+    result.policyBinding = policyBinding;
+  }
+  return result;
+}
+
+/**
+ * The text a bundle signature covers (signingPayload in sign.ts is its
+ * UTF-8 bytes): canonical JSON of the bundle with the signatures and
+ * timestamps arrays removed.
+ */
+export function signingPayloadJson(bundle: EvidenceBundle): string {
+  return canonicalJson({ ...bundle, signatures: undefined, timestamps: undefined });
+}
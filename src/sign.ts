@@ -0,0 +1,257 @@
+/**
+ * Bundle signing for @guardspine/kernel.
+ * Produces Signature entries that verifySignatures accepts.
+ * Uses node:crypto. Zero external dependencies.
+ */
+
+import { createHmac, createPrivateKey, randomUUID, sign } from "node:crypto";
+import type { KeyObject } from "node:crypto";
+import { canonicalJson } from "./canonical.js";
+import { signingPayloadJson } from "./sealing.js";
+import type { EvidenceBundle, Signature } from "./schemas/evidence-bundle.js";
+import type { SignedTreeHead } from "./transparency.js";
+
+export type SignatureAlgorithm = Signature["algorithm"];
+
+export interface SignerOptions {
+  algorithm: SignatureAlgorithm;
+  signerId: string;
+  /** PEM private key, or base64 raw 32-byte Ed25519 seed. Required for asymmetric algorithms. */
+  privateKey?: string;
+  /** Shared secret. Required for hmac-sha256. */
+  hmacSecret?: string;
+  /** Recorded as Signature.public_key_id so verifiers can look up the key. */
+  publicKeyId?: string;
+  /** Defaults to a random UUID. */
+  signatureId?: string;
+  /** Defaults to the current time (ISO 8601). */
+  signedAt?: string;
+}
+
+/**
+ * The exact bytes a bundle signature covers: canonical JSON of the
+ * bundle with the signatures and timestamps arrays removed. Existing
+ * signatures never affect the payload, so signatures can be added in any
+ * order, and timestamp tokens (which may cover a signature) can be
+ * attached after signing.
+ */
+export function signingPayload(bundle: EvidenceBundle): Buffer {
+  return Buffer.from(signingPayloadJson(bundle), "utf-8");
+}
+
+/** The exact bytes a tree head signature covers: canonical JSON of the head without signature. */
+export function treeHeadPayload(treeHead: Omit<SignedTreeHead, "signature">): Buffer {
+  const headCopy = { ...treeHead, signature: undefined };
+  return Buffer.from(canonicalJson(headCopy), "utf-8");
+}
+
+function ed25519SeedToPkcs8Der(seed: Buffer): Buffer {
+  const prefix = Buffer.from("302e020100300506032b657004220420", "hex");
+  return Buffer.concat([prefix, seed]);
+}
+
+function resolvePrivateKey(privateKey: string): KeyObject {
+  if (privateKey.startsWith("-----BEGIN")) {
+    return createPrivateKey(privateKey);
+  }
+  const raw = Buffer.from(privateKey, "base64");
+  if (raw.length !== 32) {
+    throw new Error("signBundle: privateKey must be PEM or a base64 raw 32-byte Ed25519 seed");
+  }
+  return createPrivateKey({ key: ed25519SeedToPkcs8Der(raw), format: "der", type: "pkcs8" });
+}
+
+/** Whether a key's actual type can produce or verify signatures of this algorithm. */
+export function keyMatchesAlgorithm(key: KeyObject, algorithm: SignatureAlgorithm): boolean {
+  const keyType = key.asymmetricKeyType;
+  const curve = key.asymmetricKeyDetails?.namedCurve;
+  return (
+    (algorithm === "ed25519" && keyType === "ed25519") ||
+    (algorithm === "rsa-sha256" && keyType === "rsa") ||
+    (algorithm === "ecdsa-p256" && keyType === "ec" && curve === "prime256v1")
+  );
+}
+
+/** Describe a key's type for diagnostics, e.g. "rsa" or "ec/prime256v1". */
+export function describeKeyType(key: KeyObject): string {
+  const curve = key.asymmetricKeyDetails?.namedCurve;
+  return `${key.asymmetricKeyType ?? "unknown"}${curve ? `/${curve}` : ""}`;
+}
+
+/**
+ * Compute the raw signature bytes over a payload.
+ * Encodings match what verifySignatures expects for each algorithm.
+ */
+function computeSignatureBytes(
+  payload: Uint8Array,
+  options: Pick<SignerOptions, "algorithm" | "privateKey" | "hmacSecret">,
+): Buffer {
+  const algo = options.algorithm;
+  if (algo === "hmac-sha256") {
+    if (!options.hmacSecret) {
+      throw new Error("signBundle: hmac-sha256 requires hmacSecret");
+    }
+    return createHmac("sha256", options.hmacSecret).update(payload).digest();
+  }
+
+  if (algo !== "ed25519" && algo !== "rsa-sha256" && algo !== "ecdsa-p256") {
+    throw new Error(`signBundle: unsupported algorithm ${String(algo)}`);
+  }
+  if (!options.privateKey) {
+    throw new Error(`signBundle: ${algo} requires privateKey`);
+  }
+
+  const key = resolvePrivateKey(options.privateKey);
+  if (!keyMatchesAlgorithm(key, algo)) {
+    throw new Error(`signBundle: ${describeKeyType(key)} key cannot produce ${algo} signatures`);
+  }
+  const digest = algo === "ed25519" ? null : "sha256";
+  return sign(digest, payload, key);
+}
+
+/**
+ * Create a fully populated Signature over the bundle without modifying it.
+ */
+export function createSignature(
+  bundle: EvidenceBundle,
+  options: SignerOptions,
+): Signature {
+  return createPayloadSignature(signingPayload(bundle), options);
+}
+
+/**
+ * Create a Signature over arbitrary bytes, e.g. a transparency log tree
+ * head, with the same algorithms and encodings as bundle signatures.
+ */
+export function createPayloadSignature(
+  payload: Uint8Array,
+  options: SignerOptions,
+): Signature {
+  if (!options.signerId) {
+    throw new Error("signBundle: signerId is required");
+  }
+
+  const signature: Signature = {
+    signature_id: options.signatureId ?? randomUUID(),
+    algorithm: options.algorithm,
+    signer_id: options.signerId,
+    signature_value: computeSignatureBytes(payload, options).toString("base64"),
+    signed_at: options.signedAt ?? new Date().toISOString(),
+  };
+  if (options.publicKeyId !== undefined) {
+    signature.public_key_id = options.publicKeyId;
+  }
+  return signature;
+}
+
+/**
+ * Return a copy of the bundle with the signature appended.
+ * Rejects a signature_id that is already present on the bundle.
+ */
+export function addSignature(
+  bundle: EvidenceBundle,
+  signature: Signature,
+): EvidenceBundle {
+  const existing = bundle.signatures ?? [];
+  if (existing.some((sig) => sig.signature_id === signature.signature_id)) {
+    throw new Error(`addSignature: duplicate signature_id ${signature.signature_id}`);
+  }
+  return { ...bundle, signatures: [...existing, signature] };
+}
+
+/**
+ * Sign a bundle and return a copy with the new Signature appended.
+ */
+export function signBundle(
+  bundle: EvidenceBundle,
+  options: SignerOptions,
+): EvidenceBundle {
+  return addSignature(bundle, createSignature(bundle, options));
+}
+
+/**
+ * A signing key held elsewhere (KMS, HSM, remote service). The kernel builds
+ * the payload; the signer only performs the raw signing operation.
+ *
+ * sign() must return the raw signature bytes in the encoding verifySignatures
+ * expects: 64-byte Ed25519, PKCS#1 v1.5 for rsa-sha256, DER-encoded ECDSA
+ * for ecdsa-p256, or the 32-byte HMAC-SHA256 digest.
+ */
+export interface Signer {
+  /** Recorded as Signature.public_key_id. */
+  readonly keyId: string;
+  readonly algorithm: SignatureAlgorithm;
+  sign(payload: Uint8Array): Promise<Uint8Array>;
+}
+
+export interface AsyncSignOptions {
+  signerId: string;
+  /** Defaults to a random UUID. */
+  signatureId?: string;
+  /** Defaults to the current time (ISO 8601). */
+  signedAt?: string;
+}
+
+/**
+ * Create a Signature over the bundle using an external Signer.
+ */
+export async function createSignatureWithSigner(
+  bundle: EvidenceBundle,
+  signer: Signer,
+  options: AsyncSignOptions,
+): Promise<Signature> {
+  if (!options.signerId) {
+    throw new Error("signBundleWithSigner: signerId is required");
+  }
+
+  const signatureBytes = await signer.sign(signingPayload(bundle));
+  if (!signatureBytes || signatureBytes.length === 0) {
+    throw new Error(`signBundleWithSigner: signer ${signer.keyId} returned an empty signature`);
+  }
+
+  return {
+    signature_id: options.signatureId ?? randomUUID(),
+    algorithm: signer.algorithm,
+    signer_id: options.signerId,
+    signature_value: Buffer.from(signatureBytes).toString("base64"),
+    signed_at: options.signedAt ?? new Date().toISOString(),
+    public_key_id: signer.keyId,
+  };
+}
+
+/**
+ * Sign a bundle with an external Signer and return a copy with the new
+ * Signature appended.
+ */
+export async function signBundleWithSigner(
+  bundle: EvidenceBundle,
+  signer: Signer,
+  options: AsyncSignOptions,
+): Promise<EvidenceBundle> {
+  return addSignature(bundle, await createSignatureWithSigner(bundle, signer, options));
+}
+
+export interface LocalSignerOptions {
+  keyId: string;
+  algorithm: SignatureAlgorithm;
+  /** PEM private key, or base64 raw 32-byte Ed25519 seed. */
+  privateKey?: string;
+  /** Shared secret for hmac-sha256. */
+  hmacSecret?: string;
+}
+
+/**
+ * In-memory Signer backed by local key material. Intended for tests and
+ * offline tooling; it behaves exactly like a remote signer would.
+ */
+export function createLocalSigner(options: LocalSignerOptions): Signer {
+  // Fail at construction, not at first use, on missing or mismatched keys.
+  computeSignatureBytes(new Uint8Array(0), options);
+  return {
+    keyId: options.keyId,
+    algorithm: options.algorithm,
+    async sign(payload: Uint8Array): Promise<Uint8Array> {
+      return computeSignatureBytes(payload, options);
+    },
+  };
+}
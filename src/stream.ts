@@ -0,0 +1,403 @@
+/**
+ * Streaming sealing and verification for @guardspine/kernel.
+ * sealBundle and verifyBundle hold the whole bundle in memory, and
+ * buildHashChain stops at 10,000 items. Here items are sealed one at a
+ * time as they arrive, and an NDJSON item stream is verified line by line.
+ * Memory stays bounded by the largest single item, not the item count.
+ *
+ * The hashes are the ones the in-memory path produces: links come from the
+ * same nextChainLink, and the root is accumulated incrementally (a running
+ * digest for v0.2.0, O(log n) subtree roots for v0.3.0 Merkle proofs).
+ */
+
+import { createHash } from "node:crypto";
+import type { Hash } from "node:crypto";
+import { ErrorCode } from "./errors.js";
+import type { VerificationError, VerificationResult } from "./errors.js";
+import { DEFAULT_HASH_ALGORITHM, hashAlgorithmOf } from "./hash.js";
+import type { HashAlgorithm } from "./hash.js";
+import { createMerkleAccumulator, itemLeafHash } from "./merkle.js";
+import { tryParseObject } from "./parse.js";
+import { validateSchema } from "./schema.js";
+import {
+  GENESIS_HASH,
+  chainHashV020,
+  nextChainLink,
+  resolveHashAlgorithm,
+  resolveProofVersion,
+} from "./seal.js";
+import type { SealOptions } from "./seal.js";
+import { checkHashAlgorithm, safeEqual, verifyContentHashes } from "./verify.js";
+import type { ProofVerificationOptions, RedactionVerificationOptions } from "./verify.js";
+import { EVIDENCE_BUNDLE_SCHEMA } from "./schemas/evidence-bundle.schema.js";
+import type {
+  EvidenceItem,
+  HashChainLink,
+  ImmutabilityProof,
+} from "./schemas/evidence-bundle.js";
+
+/** An ImmutabilityProof without its hash_chain: what a stream is checked against. */
+export type ProofSummary = Omit<ImmutabilityProof, "hash_chain">;
+
+export interface SealedEntry {
+  item: EvidenceItem;
+  link: HashChainLink;
+}
+
+export interface StreamSealResult {
+  immutabilityProof: ProofSummary;
+  itemCount: number;
+}
+
+export interface StreamSealer {
+  /** Seal the next item, returning it with content_hash and sequence set, and its link. */
+  push(item: Partial<EvidenceItem>): SealedEntry;
+  /** The root over every item pushed so far. Throws if none were. */
+  finish(): StreamSealResult;
+}
+
+export interface StreamVerificationOptions
+  extends ProofVerificationOptions, RedactionVerificationOptions {
+  /** Longest accepted NDJSON line in bytes (default: 64 MiB). */
+  maxLineBytes?: number;
+  /** Stop reading after this many errors (default: 100). */
+  maxErrors?: number;
+  /** List at most this many redacted item_ids in redactedItems (default: 100). */
+  maxRedactedItems?: number;
+}
+
+export interface StreamVerificationResult extends VerificationResult {
+  /** Items read before verification finished or stopped. */
+  itemCount: number;
+  /** All redacted items, including those past maxRedactedItems. Present with redactedItems. */
+  redactedItemCount?: number;
+}
+
+const DEFAULT_MAX_LINE_BYTES = 64 * 1024 * 1024;
+const DEFAULT_MAX_ERRORS = 100;
+const DEFAULT_MAX_REDACTED_ITEMS = 100;
+
+/** Running root hash over links in sequence order. */
+interface RootAccumulator {
+  add(link: HashChainLink): void;
+  root(): string;
+}
+
+function createRootAccumulator(algorithm: HashAlgorithm, merkle: boolean): RootAccumulator {
+  if (merkle) {
+    const tree = createMerkleAccumulator(algorithm);
+    return {
+      add: (link) =>
+        tree.add(itemLeafHash(link.sequence, link.item_id, link.content_type, link.content_hash, algorithm)),
+      root: () => tree.root(),
+    };
+  }
+  // Same digest as computeRootHash: chain hashes concatenated in order.
+  const digest: Hash = createHash(algorithm);
+  return {
+    add: (link) => {
+      digest.update(link.chain_hash, "utf-8");
+    },
+    root: () => `${algorithm}:${digest.digest("hex")}`,
+  };
+}
+
+/**
+ * Seal items one at a time. Each push returns the sealed item and its
+ * chain link, exactly as sealBundle would produce them at that position;
+ * only the last chain_hash and the root state are kept between pushes.
+ * There is no item limit.
+ */
+export function createStreamSealer(options?: SealOptions): StreamSealer {
+  const version = resolveProofVersion(options);
+  const algorithm = resolveHashAlgorithm(options);
+  const strict = (options?.canonicalization ?? "strict") === "strict";
+  const merkle = version === "v0.3.0";
+  const root = createRootAccumulator(algorithm, merkle);
+  let previousHash = GENESIS_HASH;
+  let count = 0;
+  let finished = false;
+
+  return {
+    push(item: Partial<EvidenceItem>): SealedEntry {
+      if (finished) {
+        throw new Error("push: sealer is already finished");
+      }
+      if (!item?.item_id) {
+        throw new Error(`push: item ${count} missing item_id`);
+      }
+      if (!item.content_type) {
+        throw new Error(`push: item ${count} missing content_type`);
+      }
+      const content = item.content ?? {};
+      const link = nextChainLink(
+        "push",
+        count,
+        { content, contentType: item.content_type, contentId: item.item_id },
+        previousHash,
+        algorithm,
+        version,
+        strict,
+      );
+      root.add(link);
+      previousHash = link.chain_hash;
+      count++;
+      return {
+        item: {
+          item_id: item.item_id,
+          content_type: item.content_type,
+          content: content as Record<string, unknown>,
+          content_hash: link.content_hash,
+          sequence: link.sequence,
+        },
+        link,
+      };
+    },
+
+    finish(): StreamSealResult {
+      if (count === 0) {
+        throw new Error("finish: no items were sealed");
+      }
+      finished = true;
+      const immutabilityProof: ProofSummary = { root_hash: root.root() };
+      if (merkle) {
+        immutabilityProof.proof_version = "v0.3.0";
+      }
+      if (algorithm !== DEFAULT_HASH_ALGORITHM) {
+        immutabilityProof.hash_algorithm = algorithm;
+      }
+      return { immutabilityProof, itemCount: count };
+    },
+  };
+}
+
+/**
+ * Seal every item of an (async) iterable, handing each sealed item and
+ * link to onEntry before reading the next item. onEntry may return a
+ * promise, e.g. to wait on a write stream, and is awaited. Writing
+ * canonicalJson(entry.item) lines produces an NDJSON stream that
+ * verifyItemStream accepts.
+ */
+export async function sealItemStream(
+  items: AsyncIterable<Partial<EvidenceItem>> | Iterable<Partial<EvidenceItem>>,
+  onEntry: (entry: SealedEntry) => void | Promise<void>,
+  options?: SealOptions,
+): Promise<StreamSealResult> {
+  const sealer = createStreamSealer(options);
+  for await (const item of items) {
+    await onEntry(sealer.push(item));
+  }
+  return sealer.finish();
+}
+
+const ITEM_SCHEMA = { $ref: "#/$defs/EvidenceItem", $defs: EVIDENCE_BUNDLE_SCHEMA.$defs };
+
+function concatBytes(parts: Uint8Array[], length: number): Uint8Array {
+  if (parts.length === 1) {
+    return parts[0];
+  }
+  const joined = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    offset += part.length;
+  }
+  return joined;
+}
+
+/**
+ * Split chunks into lines, holding at most one partial line. A line
+ * longer than maxLineBytes yields null and ends the stream.
+ */
+async function* ndjsonLines(
+  chunks: AsyncIterable<Uint8Array | string> | Iterable<Uint8Array | string>,
+  maxLineBytes: number,
+): AsyncGenerator<Uint8Array | null> {
+  const encoder = new TextEncoder();
+  let pending: Uint8Array[] = [];
+  let pendingLength = 0;
+  for await (const chunk of chunks) {
+    const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+    let start = 0;
+    for (let newline = bytes.indexOf(0x0a); newline !== -1; newline = bytes.indexOf(0x0a, start)) {
+      pending.push(bytes.subarray(start, newline));
+      pendingLength += newline - start;
+      if (pendingLength > maxLineBytes) {
+        yield null;
+        return;
+      }
+      yield concatBytes(pending, pendingLength);
+      pending = [];
+      pendingLength = 0;
+      start = newline + 1;
+    }
+    if (start < bytes.length) {
+      pending.push(bytes.subarray(start));
+      pendingLength += bytes.length - start;
+      if (pendingLength > maxLineBytes) {
+        yield null;
+        return;
+      }
+    }
+  }
+  if (pendingLength > 0) {
+    yield concatBytes(pending, pendingLength);
+  }
+}
+
+/**
+ * Verify an NDJSON stream of sealed items (one EvidenceItem per line, in
+ * sequence order) against the proof it was sealed under. Accepts any
+ * (async) iterable of byte or string chunks, such as fs.createReadStream.
+ * Each line is parsed with parseBundle's strict parser and checked
+ * against the EvidenceItem schema, its content hash and its sequence; the
+ * chain is rebuilt from the items and its root compared with
+ * proof.root_hash.
+ *
+ * Trace rationale: the checks are verifyBundle's content, chain and root
+ * checks, so a stream verifies exactly when the bundle holding the same
+ * items and proof does. The links are recomputed rather than read, so a
+ * changed content_hash, item_id, content_type or order surfaces as
+ * ROOT_HASH_MISMATCH. Signatures cover the whole bundle and are not
+ * checked here. Legacy proofs are not supported.
+ */
+export async function verifyItemStream(
+  lines: AsyncIterable<Uint8Array | string> | Iterable<Uint8Array | string>,
+  proof: ProofSummary,
+  options?: StreamVerificationOptions,
+): Promise<StreamVerificationResult> {
+  if (typeof proof?.root_hash !== "string") {
+    throw new Error("verifyItemStream: proof.root_hash is required");
+  }
+  const errors: VerificationError[] = [];
+  const redactedItems: string[] = [];
+  const maxErrors = options?.maxErrors ?? DEFAULT_MAX_ERRORS;
+  const maxRedactedItems = options?.maxRedactedItems ?? DEFAULT_MAX_REDACTED_ITEMS;
+  let itemCount = 0;
+  let redactedItemCount = 0;
+  const result = (): StreamVerificationResult => {
+    const valid = errors.length === 0;
+    return redactedItemCount > 0
+      ? { valid, errors, redactedItems, redactedItemCount, itemCount }
+      : { valid, errors, itemCount };
+  };
+
+  if (proof.proof_version !== undefined && proof.proof_version !== "v0.3.0") {
+    errors.push({
+      code: ErrorCode.UNSUPPORTED_VERSION,
+      message: `Unsupported proof_version: ${String(proof.proof_version)}`,
+      details: { proof_version: proof.proof_version, supported: ["v0.3.0"] },
+    });
+    return result();
+  }
+  const algorithm = proof.hash_algorithm ?? DEFAULT_HASH_ALGORITHM;
+  const algorithmError = checkHashAlgorithm(algorithm, options);
+  if (algorithmError) {
+    errors.push(algorithmError);
+    return result();
+  }
+
+  const root = createRootAccumulator(algorithm, proof.proof_version === "v0.3.0");
+  let previousHash = GENESIS_HASH;
+  let lineNumber = 0;
+
+  for await (const line of ndjsonLines(lines, options?.maxLineBytes ?? DEFAULT_MAX_LINE_BYTES)) {
+    lineNumber++;
+    if (line === null) {
+      errors.push({
+        code: ErrorCode.INPUT_VALIDATION_FAILED,
+        message: `Line ${lineNumber} exceeds ${options?.maxLineBytes ?? DEFAULT_MAX_LINE_BYTES} bytes`,
+        details: { line: lineNumber },
+      });
+      return result();
+    }
+    // Blank lines (and a CRLF's trailing \r) carry no item.
+    const text = line[line.length - 1] === 0x0d ? line.subarray(0, -1) : line;
+    if (text.every((byte) => byte === 0x20 || byte === 0x09)) {
+      continue;
+    }
+
+    const parsed = tryParseObject(text);
+    if ("failure" in parsed) {
+      const { message, offset, pointer } = parsed.failure;
+      errors.push({
+        code: ErrorCode.BUNDLE_PARSE_FAILED,
+        message: `Line ${lineNumber} does not parse: ${message} at byte ${offset}`,
+        details: { line: lineNumber, reason: message, offset, pointer },
+      });
+      return result();
+    }
+    const schemaErrors = validateSchema(parsed.value, ITEM_SCHEMA, { assertFormats: false }).errors;
+    if (schemaErrors.length > 0) {
+      // The chain cannot continue past an item it cannot read.
+      errors.push(...schemaErrors.map((error) => ({ ...error, details: { ...error.details, line: lineNumber } })));
+      return result();
+    }
+    const item = parsed.value as unknown as EvidenceItem;
+    const seq = itemCount++;
+
+    if (item.sequence !== seq) {
+      errors.push({
+        code: ErrorCode.SEQUENCE_GAP,
+        message: `Expected sequence ${seq}, got ${item.sequence}`,
+        details: { expected: seq, actual: item.sequence, line: lineNumber },
+      });
+    }
+    if (hashAlgorithmOf(item.content_hash) !== algorithm) {
+      errors.push({
+        code: ErrorCode.HASH_ALGORITHM_MISMATCH,
+        message: `Item ${item.item_id} content_hash is not ${algorithm}`,
+        details: { item_id: item.item_id, expected: algorithm, actual: item.content_hash, line: lineNumber },
+      });
+    }
+    const contentResult = verifyContentHashes([item], options);
+    errors.push(...contentResult.errors);
+    for (const itemId of contentResult.redactedItems ?? []) {
+      redactedItemCount++;
+      if (redactedItems.length < maxRedactedItems) {
+        redactedItems.push(itemId);
+      }
+    }
+
+    // The link the sealer recorded for this item, rebuilt from its fields.
+    const chainHash = chainHashV020(
+      seq,
+      item.item_id,
+      item.content_type,
+      item.content_hash,
+      previousHash,
+      algorithm,
+    );
+    root.add({
+      sequence: seq,
+      item_id: item.item_id,
+      content_type: item.content_type,
+      content_hash: item.content_hash,
+      previous_hash: previousHash,
+      chain_hash: chainHash,
+    });
+    previousHash = chainHash;
+
+    if (errors.length >= maxErrors) {
+      return result();
+    }
+  }
+
+  if (itemCount === 0) {
+    errors.push({
+      code: ErrorCode.INPUT_VALIDATION_FAILED,
+      message: "Item stream is empty",
+      details: { received: "no items" },
+    });
+    return result();
+  }
+  const expected = root.root();
+  if (!safeEqual(proof.root_hash, expected)) {
+    errors.push({
+      code: ErrorCode.ROOT_HASH_MISMATCH,
+      message: "Root hash does not match computed value",
+      details: { expected, actual: proof.root_hash },
+    });
+  }
+  return result();
+}
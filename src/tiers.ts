@@ -0,0 +1,136 @@
+/**
+ * Risk-tier requirements for @guardspine/kernel verification.
+ * A profile set maps each EvidenceBundle.risk_tier to the controls a bundle
+ * of that tier must satisfy, turning the tier from a label into a gate.
+ */
+
+import { ErrorCode } from "./errors.js";
+import type { VerificationError, VerificationResult } from "./errors.js";
+import type { VerifiedSignature } from "./checks.js";
+import type { SignatureAlgorithm } from "./sign.js";
+import type { EvidenceBundle } from "./schemas/evidence-bundle.js";
+
+export type RiskTier = NonNullable<EvidenceBundle["risk_tier"]>;
+
+export interface RiskTierProfile {
+  /** Minimum number of distinct signers, each with a valid signature from a distinct key. */
+  minSignatures?: number;
+  /** Each content_type must appear on at least one item. */
+  requiredContentTypes?: string[];
+  /** Every signature on the bundle must use one of these algorithms. */
+  allowedAlgorithms?: SignatureAlgorithm[];
+  /** Whether a chain that only verifies as a legacy proof is acceptable (default: false). */
+  acceptLegacyProofs?: boolean;
+}
+
+export type RiskTierProfiles = Partial<Record<RiskTier, RiskTierProfile>>;
+
+const ASYMMETRIC_ALGORITHMS: SignatureAlgorithm[] = ["ed25519", "rsa-sha256", "ecdsa-p256"];
+
+/**
+ * Baseline profiles: L0/L1 are unconstrained, L2 needs a signature,
+ * L3 adds a guardspine/approval item and bans hmac-sha256, L4 needs two signers.
+ */
+export const DEFAULT_RISK_TIER_PROFILES: RiskTierProfiles = {
+  L0: { acceptLegacyProofs: true },
+  L1: { acceptLegacyProofs: true },
+  L2: { minSignatures: 1 },
+  L3: {
+    minSignatures: 1,
+    requiredContentTypes: ["guardspine/approval"],
+    allowedAlgorithms: ASYMMETRIC_ALGORITHMS,
+  },
+  L4: {
+    minSignatures: 2,
+    requiredContentTypes: ["guardspine/approval"],
+    allowedAlgorithms: ASYMMETRIC_ALGORITHMS,
+  },
+};
+
+/** Facts established by the other verification steps. */
+export interface RiskTierContext {
+  verifiedSignatures: VerifiedSignature[];
+  /** True when the hash chain verified only because legacy proofs were accepted. */
+  usesLegacyProof: boolean;
+}
+
+/**
+ * Check a bundle against the profile for its declared risk_tier.
+ *
+ * Trace rationale: a bundle without a risk_tier, or with a tier the
+ * profile set does not define, fails rather than skipping enforcement,
+ * so stripping the tier field cannot bypass the gate.
+ */
+export function verifyRiskTier(
+  bundle: EvidenceBundle,
+  profiles: RiskTierProfiles,
+  context: RiskTierContext,
+): VerificationResult {
+  const errors: VerificationError[] = [];
+  const tier = bundle.risk_tier;
+  const profile = tier !== undefined ? profiles[tier] : undefined;
+
+  if (tier === undefined || profile === undefined) {
+    errors.push({
+      code: ErrorCode.RISK_TIER_MISSING,
+      message:
+        tier === undefined
+          ? "Bundle declares no risk_tier"
+          : `No risk tier profile defined for ${tier}`,
+      details: { risk_tier: tier, defined: Object.keys(profiles) },
+    });
+    return { valid: false, errors };
+  }
+
+  // signer_id is unsigned, so a copy of one key's signature under a second
+  // name must not count twice: count distinct keys as well as signers.
+  const signers = new Set(context.verifiedSignatures.map(({ signature }) => signature.signer_id));
+  const keys = new Set(context.verifiedSignatures.map(({ keyFingerprint }) => keyFingerprint));
+  const count = Math.min(signers.size, keys.size);
+  const minSignatures = profile.minSignatures ?? 0;
+  if (count < minSignatures) {
+    errors.push({
+      code: ErrorCode.RISK_TIER_SIGNATURES_INSUFFICIENT,
+      message: `Risk tier ${tier} requires ${minSignatures} signers, found ${count}`,
+      details: { risk_tier: tier, required: minSignatures, actual: count, distinct_keys: keys.size },
+    });
+  }
+
+  const contentTypes = new Set((bundle.items ?? []).map((item) => item.content_type));
+  for (const required of profile.requiredContentTypes ?? []) {
+    if (!contentTypes.has(required)) {
+      errors.push({
+        code: ErrorCode.RISK_TIER_CONTENT_TYPE_MISSING,
+        message: `Risk tier ${tier} requires an item of content_type ${required}`,
+        details: { risk_tier: tier, content_type: required },
+      });
+    }
+  }
+
+  if (profile.allowedAlgorithms) {
+    for (const sig of bundle.signatures ?? []) {
+      if (!profile.allowedAlgorithms.includes(sig.algorithm)) {
+        errors.push({
+          code: ErrorCode.RISK_TIER_ALGORITHM_NOT_ALLOWED,
+          message: `Risk tier ${tier} does not allow ${sig.algorithm} signatures`,
+          details: {
+            risk_tier: tier,
+            signature_id: sig.signature_id,
+            algorithm: sig.algorithm,
+            allowed: profile.allowedAlgorithms,
+          },
+        });
+      }
+    }
+  }
+
+  if (context.usesLegacyProof && !profile.acceptLegacyProofs) {
+    errors.push({
+      code: ErrorCode.RISK_TIER_LEGACY_PROOF,
+      message: `Risk tier ${tier} does not accept legacy proofs`,
+      details: { risk_tier: tier },
+    });
+  }
+
+  return { valid: errors.length === 0, errors };
+}
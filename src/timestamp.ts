@@ -0,0 +1,458 @@
+/**
+ * Offline RFC 3161 timestamp verification for @guardspine/kernel.
+ * A TimeStampToken is CMS SignedData wrapping a TSTInfo; it is checked
+ * against a TSA certificate the verifier supplies, with no network access.
+ *
+ * Trace: each check has its own error code -- TIMESTAMP_MALFORMED,
+ * TIMESTAMP_IMPRINT_MISMATCH, TIMESTAMP_SIGNATURE_INVALID and
+ * TIMESTAMP_TIME_INVALID -- so a caller can tell a wrong token from a
+ * forged or mistimed one.
+ */
+
+import { X509Certificate, createHash, timingSafeEqual, verify } from "node:crypto";
+import type { KeyObject } from "node:crypto";
+import {
+  DER_TAG,
+  decodeGeneralizedTime,
+  decodeIntegerHex,
+  decodeOid,
+  expectTag,
+  parseDer,
+} from "./der.js";
+import type { DerNode } from "./der.js";
+import { ErrorCode } from "./errors.js";
+import type { VerificationError, VerificationResult } from "./errors.js";
+import type { HashAlgorithm } from "./hash.js";
+import type { EvidenceBundle } from "./schemas/evidence-bundle.js";
+
+const OID_SIGNED_DATA = "1.2.840.113549.1.7.2";
+const OID_TST_INFO = "1.2.840.113549.1.9.16.1.4";
+const OID_ATTR_CONTENT_TYPE = "1.2.840.113549.1.9.3";
+const OID_ATTR_MESSAGE_DIGEST = "1.2.840.113549.1.9.4";
+const OID_KP_TIME_STAMPING = "1.3.6.1.5.5.7.3.8";
+
+const DIGEST_OIDS: Record<string, HashAlgorithm> = {
+  "2.16.840.1.101.3.4.2.1": "sha256",
+  "2.16.840.1.101.3.4.2.2": "sha384",
+  "2.16.840.1.101.3.4.2.3": "sha512",
+  "2.16.840.1.101.3.4.2.8": "sha3-256",
+};
+
+/** Signature algorithms whose digest comes from SignerInfo.digestAlgorithm. */
+const SIGNATURE_OIDS: Record<string, "rsa" | "ecdsa" | "ed25519"> = {
+  "1.2.840.113549.1.1.1": "rsa",
+  "1.2.840.113549.1.1.11": "rsa",
+  "1.2.840.113549.1.1.12": "rsa",
+  "1.2.840.113549.1.1.13": "rsa",
+  "1.2.840.10045.4.3.2": "ecdsa",
+  "1.2.840.10045.4.3.3": "ecdsa",
+  "1.2.840.10045.4.3.4": "ecdsa",
+  "1.3.101.112": "ed25519",
+};
+
+/** The fields of a TimeStampToken the verifier relies on. */
+export interface ParsedTimestampToken {
+  genTime: Date;
+  policy: string;
+  /** Lower-case hex. */
+  serialNumber: string;
+  imprintAlgorithm: HashAlgorithm;
+  hashedMessage: Buffer;
+  /** Serial of the signing certificate, when the signer is identified by issuer and serial. */
+  signerSerialNumber?: string;
+  digestAlgorithm: HashAlgorithm;
+  signatureKind: "rsa" | "ecdsa" | "ed25519";
+  /** DER of the signed attributes, re-tagged as SET OF: the bytes the TSA signed. */
+  signedAttributes: Buffer;
+  signature: Buffer;
+  contentTypeAttribute: string;
+  messageDigestAttribute: Buffer;
+  /** The encapsulated TSTInfo DER, which messageDigestAttribute covers. */
+  tstInfo: Buffer;
+}
+
+function algorithmIdentifier(node: DerNode | undefined, table: Record<string, string>, what: string): string {
+  const seq = expectTag(node, DER_TAG.SEQUENCE, `${what} AlgorithmIdentifier`);
+  const oid = decodeOid(seq.children[0]);
+  const name = table[oid];
+  if (!name) {
+    throw new Error(`parseTimestampToken: unsupported ${what} ${oid}`);
+  }
+  return name;
+}
+
+function contextChild(nodes: DerNode[], tag: number): DerNode | undefined {
+  return nodes.find((node) => node.tag === tag);
+}
+
+/**
+ * Parse a DER TimeStampToken. Throws on anything that is not a single-signer
+ * SignedData over a TSTInfo with signed attributes.
+ */
+export function parseTimestampToken(token: Uint8Array): ParsedTimestampToken {
+  const contentInfo = expectTag(parseDer(token), DER_TAG.SEQUENCE, "ContentInfo");
+  if (decodeOid(contentInfo.children[0]) !== OID_SIGNED_DATA) {
+    throw new Error("parseTimestampToken: content is not SignedData");
+  }
+  const explicit = expectTag(contentInfo.children[1], 0xa0, "[0] content");
+  const signedData = expectTag(explicit.children[0], DER_TAG.SEQUENCE, "SignedData");
+  const [, , encap, ...rest] = signedData.children;
+
+  const encapContent = expectTag(encap, DER_TAG.SEQUENCE, "EncapsulatedContentInfo");
+  if (decodeOid(encapContent.children[0]) !== OID_TST_INFO) {
+    throw new Error("parseTimestampToken: encapsulated content is not TSTInfo");
+  }
+  const eContent = expectTag(
+    expectTag(encapContent.children[1], 0xa0, "[0] eContent").children[0],
+    DER_TAG.OCTET_STRING,
+    "eContent",
+  );
+  const tstInfoDer = eContent.content;
+  const tstInfo = expectTag(parseDer(tstInfoDer), DER_TAG.SEQUENCE, "TSTInfo");
+  const [, policy, imprint, serial, genTime] = tstInfo.children;
+  const imprintSeq = expectTag(imprint, DER_TAG.SEQUENCE, "MessageImprint");
+
+  const signerInfos = expectTag(rest[rest.length - 1], DER_TAG.SET, "SignerInfos");
+  if (signerInfos.children.length !== 1) {
+    throw new Error(`parseTimestampToken: expected 1 SignerInfo, found ${signerInfos.children.length}`);
+  }
+  const signerInfo = expectTag(signerInfos.children[0], DER_TAG.SEQUENCE, "SignerInfo");
+  const [, sid, digestAlgorithm, signedAttrs, signatureAlgorithm, signature] = signerInfo.children;
+  expectTag(signedAttrs, 0xa0, "[0] signedAttrs");
+
+  let contentTypeAttribute = "";
+  let messageDigestAttribute: Buffer = Buffer.alloc(0);
+  for (const attribute of signedAttrs.children) {
+    const attr = expectTag(attribute, DER_TAG.SEQUENCE, "Attribute");
+    const type = decodeOid(attr.children[0]);
+    const value = expectTag(attr.children[1], DER_TAG.SET, "AttributeValues").children[0];
+    if (type === OID_ATTR_CONTENT_TYPE) {
+      contentTypeAttribute = decodeOid(value);
+    } else if (type === OID_ATTR_MESSAGE_DIGEST) {
+      messageDigestAttribute = expectTag(value, DER_TAG.OCTET_STRING, "messageDigest").content;
+    }
+  }
+
+  // The signature covers signedAttrs DER-encoded as SET OF, not as [0].
+  const signedAttributes = Buffer.from(signedAttrs.der);
+  signedAttributes[0] = DER_TAG.SET;
+
+  return {
+    genTime: decodeGeneralizedTime(genTime),
+    policy: decodeOid(policy),
+    serialNumber: decodeIntegerHex(serial),
+    imprintAlgorithm: algorithmIdentifier(imprintSeq.children[0], DIGEST_OIDS, "imprint digest") as HashAlgorithm,
+    hashedMessage: expectTag(imprintSeq.children[1], DER_TAG.OCTET_STRING, "hashedMessage").content,
+    signerSerialNumber:
+      sid?.tag === DER_TAG.SEQUENCE ? decodeIntegerHex(sid.children[1]) : undefined,
+    digestAlgorithm: algorithmIdentifier(digestAlgorithm, DIGEST_OIDS, "digest") as HashAlgorithm,
+    signatureKind: algorithmIdentifier(
+      signatureAlgorithm,
+      SIGNATURE_OIDS,
+      "signature algorithm",
+    ) as ParsedTimestampToken["signatureKind"],
+    signedAttributes,
+    signature: expectTag(signature, DER_TAG.OCTET_STRING, "signature").content,
+    contentTypeAttribute,
+    messageDigestAttribute,
+    tstInfo: Buffer.from(tstInfoDer),
+  };
+}
+
+function bytesEqual(left: Buffer, right: Buffer): boolean {
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function decodeToken(token: Uint8Array | string): Buffer {
+  return typeof token === "string" ? Buffer.from(token, "base64") : Buffer.from(token);
+}
+
+/** Parse the supplied TSA certificates, or report the first that is not a certificate. */
+function loadTsaCertificates(
+  tsaCertificates: string | string[],
+): { certificates: X509Certificate[] } | { error: VerificationError } {
+  const pems = Array.isArray(tsaCertificates) ? tsaCertificates : [tsaCertificates];
+  const certificates: X509Certificate[] = [];
+  for (const [index, pem] of pems.entries()) {
+    try {
+      certificates.push(new X509Certificate(pem));
+    } catch (err) {
+      return {
+        error: {
+          code: ErrorCode.INPUT_VALIDATION_FAILED,
+          message: `TSA certificate ${index} could not be parsed: ${(err as Error).message}`,
+          details: { field: "tsaCertificates", index },
+        },
+      };
+    }
+  }
+  return { certificates };
+}
+
+function keyKind(key: KeyObject): ParsedTimestampToken["signatureKind"] | undefined {
+  switch (key.asymmetricKeyType) {
+    case "rsa":
+      return "rsa";
+    case "ec":
+      return "ecdsa";
+    case "ed25519":
+      return "ed25519";
+    default:
+      return undefined;
+  }
+}
+
+export interface TimestampVerificationResult extends VerificationResult {
+  /** The TSA's time (ISO 8601), when the token could be parsed. */
+  genTime?: string;
+}
+
+/**
+ * Verify a TimeStampToken over message against trusted TSA certificates
+ * (PEM). The certificate is chosen by the signer's serial number.
+ *
+ * Trace rationale: the imprint must be the hash of message; the signed
+ * attributes must bind the TSTInfo (content type and message digest) and
+ * carry a valid signature from a supplied certificate that is authorized
+ * for time stamping; and genTime must fall within that certificate's
+ * validity. Any parse failure of the token is TIMESTAMP_MALFORMED; a
+ * supplied certificate that does not parse is INPUT_VALIDATION_FAILED.
+ */
+export function verifyTimestampToken(
+  token: Uint8Array | string,
+  message: Uint8Array | string,
+  tsaCertificates: string | string[],
+): TimestampVerificationResult {
+  const errors: VerificationError[] = [];
+
+  const loaded = loadTsaCertificates(tsaCertificates);
+  if ("error" in loaded) {
+    errors.push(loaded.error);
+    return { valid: false, errors };
+  }
+  const { certificates } = loaded;
+
+  let parsed: ParsedTimestampToken;
+  try {
+    parsed = parseTimestampToken(decodeToken(token));
+  } catch (err) {
+    errors.push({
+      code: ErrorCode.TIMESTAMP_MALFORMED,
+      message: `Timestamp token could not be parsed: ${(err as Error).message}`,
+      details: {},
+    });
+    return { valid: false, errors };
+  }
+  const genTime = parsed.genTime.toISOString();
+
+  const imprint = createHash(parsed.imprintAlgorithm).update(message).digest();
+  if (!bytesEqual(imprint, parsed.hashedMessage)) {
+    errors.push({
+      code: ErrorCode.TIMESTAMP_IMPRINT_MISMATCH,
+      message: "Timestamp message imprint does not match the stamped data",
+      details: {
+        algorithm: parsed.imprintAlgorithm,
+        expected: imprint.toString("hex"),
+        actual: parsed.hashedMessage.toString("hex"),
+      },
+    });
+  }
+
+  const signatureError = (message: string, details: Record<string, unknown> = {}): void => {
+    errors.push({ code: ErrorCode.TIMESTAMP_SIGNATURE_INVALID, message, details });
+  };
+
+  const tstDigest = createHash(parsed.digestAlgorithm).update(parsed.tstInfo).digest();
+  if (parsed.contentTypeAttribute !== OID_TST_INFO) {
+    signatureError("Signed content-type attribute is not TSTInfo", {
+      content_type: parsed.contentTypeAttribute,
+    });
+  } else if (!bytesEqual(tstDigest, parsed.messageDigestAttribute)) {
+    signatureError("Signed message-digest attribute does not match TSTInfo");
+  }
+
+  // X509Certificate reports the serial in upper-case hex, sometimes with a sign octet.
+  const certificate =
+    parsed.signerSerialNumber === undefined
+      ? certificates.length === 1 ? certificates[0] : undefined
+      : certificates.find(
+          (cert) => cert.serialNumber.toLowerCase().replace(/^(00)+(?=.)/, "") === parsed.signerSerialNumber,
+        );
+
+  if (!certificate) {
+    signatureError("Timestamp was not signed by a supplied TSA certificate", {
+      signer_serial_number: parsed.signerSerialNumber,
+    });
+    return { valid: false, errors, genTime };
+  }
+
+  if (!(certificate.keyUsage ?? []).includes(OID_KP_TIME_STAMPING)) {
+    signatureError("TSA certificate is not authorized for time stamping", {
+      serial_number: certificate.serialNumber,
+    });
+  }
+
+  const publicKey = certificate.publicKey;
+  if (keyKind(publicKey) !== parsed.signatureKind) {
+    signatureError("TSA certificate key does not match the token's signature algorithm", {
+      key_type: publicKey.asymmetricKeyType,
+      signature_algorithm: parsed.signatureKind,
+    });
+  } else {
+    const digest = parsed.signatureKind === "ed25519" ? null : parsed.digestAlgorithm;
+    let ok = false;
+    try {
+      ok = verify(digest, parsed.signedAttributes, publicKey, parsed.signature);
+    } catch {
+      ok = false;
+    }
+    if (!ok) {
+      signatureError("Timestamp signature does not verify against the TSA certificate");
+    }
+  }
+
+  const validFrom = new Date(certificate.validFrom);
+  const validTo = new Date(certificate.validTo);
+  if (parsed.genTime < validFrom || parsed.genTime > validTo) {
+    errors.push({
+      code: ErrorCode.TIMESTAMP_TIME_INVALID,
+      message: `Timestamp genTime ${genTime} is outside the TSA certificate validity`,
+      details: {
+        gen_time: genTime,
+        valid_from: validFrom.toISOString(),
+        valid_to: validTo.toISOString(),
+      },
+    });
+  }
+
+  return { valid: errors.length === 0, errors, genTime };
+}
+
+/**
+ * The bytes a timestamp over this bundle stamps: the UTF-8 root_hash, or
+ * the signature_value of the given signature. Submit these to a TSA.
+ */
+export function timestampMessage(bundle: EvidenceBundle, signatureId?: string): Buffer {
+  if (signatureId === undefined) {
+    return Buffer.from(bundle.immutability_proof.root_hash, "utf-8");
+  }
+  const signature = (bundle.signatures ?? []).find((sig) => sig.signature_id === signatureId);
+  if (!signature) {
+    throw new Error(`timestampMessage: signature ${signatureId} not found`);
+  }
+  return Buffer.from(signature.signature_value, "utf-8");
+}
+
+/**
+ * Return a copy of the bundle with a TimeStampToken attached. Timestamps
+ * are outside the signing payload, so existing signatures stay valid.
+ */
+export function attachTimestamp(
+  bundle: EvidenceBundle,
+  token: Uint8Array | string,
+  signatureId?: string,
+): EvidenceBundle {
+  timestampMessage(bundle, signatureId);
+  const entry = {
+    token: decodeToken(token).toString("base64"),
+    ...(signatureId !== undefined ? { signature_id: signatureId } : {}),
+  };
+  return { ...bundle, timestamps: [...(bundle.timestamps ?? []), entry] };
+}
+
+export interface TimestampVerificationOptions {
+  /** Trusted TSA certificates (PEM). When set, every bundle timestamp is verified. */
+  tsaCertificates?: string[];
+  /** Require a timestamp over root_hash (default: false). */
+  requireTimestamp?: boolean;
+  /**
+   * Largest allowed gap, either way, between a token's genTime and the time
+   * the bundle asserts for the stamped data: created_at for root_hash,
+   * signed_at for a signature (default: 3600).
+   */
+  maxTimestampDelaySeconds?: number;
+}
+
+const DEFAULT_MAX_TIMESTAMP_DELAY_SECONDS = 3600;
+
+/**
+ * Verify every timestamp on a bundle and compare each genTime with the
+ * bundle's own claim about when the stamped data was produced.
+ *
+ * Trace rationale: created_at and signed_at are self-asserted. A valid
+ * token proves the data existed at genTime, so a claim far from genTime
+ * (in either direction) is reported as TIMESTAMP_TIME_INVALID; this is
+ * what exposes a backdated signature.
+ */
+export function verifyBundleTimestamps(
+  bundle: EvidenceBundle,
+  options: TimestampVerificationOptions,
+): VerificationResult {
+  const errors: VerificationError[] = [];
+  const timestamps = bundle.timestamps ?? [];
+  const maxDelayMs = (options.maxTimestampDelaySeconds ?? DEFAULT_MAX_TIMESTAMP_DELAY_SECONDS) * 1000;
+
+  if (options.requireTimestamp && !timestamps.some((entry) => entry.signature_id === undefined)) {
+    errors.push({
+      code: ErrorCode.TIMESTAMP_MISSING,
+      message: "Bundle has no timestamp over root_hash",
+      details: {},
+    });
+  }
+  if (timestamps.length > 0 && (!options.tsaCertificates || options.tsaCertificates.length === 0)) {
+    errors.push({
+      code: ErrorCode.INPUT_VALIDATION_FAILED,
+      message: "tsaCertificates are required to verify bundle timestamps",
+      details: { field: "tsaCertificates" },
+    });
+    return { valid: false, errors };
+  }
+  if (timestamps.length > 0) {
+    // Report unreadable certificates once rather than for every token.
+    const loaded = loadTsaCertificates(options.tsaCertificates!);
+    if ("error" in loaded) {
+      errors.push(loaded.error);
+      return { valid: false, errors };
+    }
+  }
+
+  for (const [index, entry] of timestamps.entries()) {
+    const target = entry.signature_id ?? "root_hash";
+    const signature = entry.signature_id === undefined
+      ? undefined
+      : (bundle.signatures ?? []).find((sig) => sig.signature_id === entry.signature_id);
+    if (entry.signature_id !== undefined && !signature) {
+      errors.push({
+        code: ErrorCode.INPUT_VALIDATION_FAILED,
+        message: `Timestamp ${index} names unknown signature ${entry.signature_id}`,
+        details: { index, signature_id: entry.signature_id },
+      });
+      continue;
+    }
+
+    const result = verifyTimestampToken(
+      entry.token,
+      timestampMessage(bundle, entry.signature_id),
+      options.tsaCertificates!,
+    );
+    errors.push(
+      ...result.errors.map((err) => ({ ...err, details: { ...err.details, index, target } })),
+    );
+    if (!result.valid || result.genTime === undefined) {
+      continue;
+    }
+
+    const asserted = signature ? signature.signed_at : bundle.created_at;
+    const assertedMs = Date.parse(asserted);
+    const genMs = Date.parse(result.genTime);
+    if (Number.isNaN(assertedMs) || Math.abs(genMs - assertedMs) > maxDelayMs) {
+      errors.push({
+        code: ErrorCode.TIMESTAMP_TIME_INVALID,
+        message: `Asserted time ${asserted} for ${target} is not within ${maxDelayMs / 1000}s of genTime ${result.genTime}`,
+        details: { index, target, asserted, gen_time: result.genTime, max_delay_seconds: maxDelayMs / 1000 },
+      });
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
@@ -0,0 +1,262 @@
+/**
+ * Local transparency log for @guardspine/kernel.
+ * An append-only, file-backed log of (bundle_id, root_hash) entries in the
+ * style of Certificate Transparency (RFC 9162): signed tree heads, inclusion
+ * proofs for a logged bundle, and consistency proofs between tree heads.
+ *
+ * A bundle's immutability_proof shows its own contents were not changed; it
+ * cannot show that a bundle was never deleted or swapped for another sealed
+ * state. Once a root is logged and a tree head published, removing or
+ * replacing that entry breaks consistency with every later tree head.
+ */
+
+import { appendFileSync, existsSync, readFileSync } from "node:fs";
+import { canonicalJson } from "./canonical.js";
+import { ErrorCode } from "./errors.js";
+import type { VerificationError, VerificationResult } from "./errors.js";
+import { DEFAULT_HASH_ALGORITHM, hashAlgorithmOf } from "./hash.js";
+import {
+  logLeafHash,
+  merkleAuditPath,
+  merkleConsistencyProof,
+  merkleRoot,
+  verifyMerkleConsistency,
+} from "./merkle.js";
+import { createPayloadSignature, treeHeadPayload } from "./sign.js";
+import type { SignerOptions } from "./sign.js";
+import { verifyBundle, verifyTreeHead } from "./verify.js";
+import type { BundleVerificationOptions, SignatureVerificationOptions } from "./verify.js";
+import type { EvidenceBundle, Signature } from "./schemas/evidence-bundle.js";
+
+export interface LogEntry {
+  index: number;
+  bundle_id: string;
+  root_hash: string;
+}
+
+export interface SignedTreeHead {
+  log_id: string;
+  tree_size: number;
+  /** Merkle root over the first tree_size entries. */
+  root_hash: string;
+  /** When the head was signed (ISO 8601). */
+  timestamp: string;
+  signature: Signature;
+}
+
+export interface LogInclusionProof {
+  log_id: string;
+  bundle_id: string;
+  bundle_root_hash: string;
+  leaf_index: number;
+  tree_size: number;
+  audit_path: string[];
+}
+
+export interface LogConsistencyProof {
+  log_id: string;
+  old_tree_size: number;
+  new_tree_size: number;
+  consistency_path: string[];
+}
+
+export interface TransparencyLogOptions {
+  /** Identifies the log in tree heads and proofs. */
+  logId: string;
+  /** Signs tree heads, with any algorithm signBundle supports. */
+  signer: Omit<SignerOptions, "signatureId" | "signedAt">;
+  /**
+   * Options append verifies bundles with. A signed bundle is only logged
+   * when these supply its keys (publicKeys, jwks, trustStore, hmacSecret).
+   */
+  verification?: BundleVerificationOptions;
+}
+
+export interface TransparencyLog {
+  /**
+   * Log a bundle that verifies on its own with options.verification.
+   * Logging the same root again returns the existing entry.
+   */
+  append(bundle: EvidenceBundle): LogEntry;
+  entries(): LogEntry[];
+  /** Sign a tree head for the first treeSize entries (default: all). */
+  treeHead(treeSize?: number): SignedTreeHead;
+  inclusionProof(entry: Pick<LogEntry, "bundle_id" | "root_hash">, treeSize?: number): LogInclusionProof;
+  consistencyProof(oldTreeSize: number, newTreeSize?: number): LogConsistencyProof;
+}
+
+/**
+ * Open (creating on first append) a transparency log stored as JSON lines
+ * in file. Entries are only ever appended; the file is never rewritten.
+ */
+export function createFileTransparencyLog(
+  file: string,
+  options: TransparencyLogOptions,
+): TransparencyLog {
+  if (!options.logId) {
+    throw new Error("createFileTransparencyLog: logId is required");
+  }
+
+  const entries = (): LogEntry[] => {
+    if (!existsSync(file)) {
+      return [];
+    }
+    const lines = readFileSync(file, "utf-8").split("\n");
+    if (lines.pop() !== "") {
+      throw new Error(`createFileTransparencyLog: ${file} ends with an incomplete entry`);
+    }
+    return lines.map((line, index) => {
+      let parsed: Partial<LogEntry>;
+      try {
+        parsed = JSON.parse(line) as Partial<LogEntry>;
+      } catch {
+        throw new Error(`createFileTransparencyLog: entry ${index} is not valid JSON`);
+      }
+      if (typeof parsed.bundle_id !== "string" || hashAlgorithmOf(parsed.root_hash as string) === null) {
+        throw new Error(`createFileTransparencyLog: entry ${index} is malformed`);
+      }
+      return { index, bundle_id: parsed.bundle_id, root_hash: parsed.root_hash as string };
+    });
+  };
+
+  const leavesUpTo = (treeSize: number | undefined, caller: string): string[] => {
+    const all = entries();
+    const size = treeSize ?? all.length;
+    if (!Number.isInteger(size) || size < 1 || size > all.length) {
+      throw new Error(`${caller}: tree size ${size} out of range for ${all.length} entries`);
+    }
+    return all
+      .slice(0, size)
+      .map((entry) => logLeafHash(entry.bundle_id, entry.root_hash, DEFAULT_HASH_ALGORITHM));
+  };
+
+  const append = (bundle: EvidenceBundle): LogEntry => {
+    const result = verifyBundle(bundle, options.verification);
+    if (!result.valid) {
+      throw new Error(
+        `createFileTransparencyLog: bundle ${bundle.bundle_id} does not verify (${result.errors[0].code})`,
+      );
+    }
+    const rootHash = bundle.immutability_proof.root_hash;
+    const all = entries();
+    const existing = all.find((entry) => entry.bundle_id === bundle.bundle_id && entry.root_hash === rootHash);
+    if (existing) {
+      return existing;
+    }
+    appendFileSync(file, `${canonicalJson({ bundle_id: bundle.bundle_id, root_hash: rootHash })}\n`, "utf-8");
+    return { index: all.length, bundle_id: bundle.bundle_id, root_hash: rootHash };
+  };
+
+  const treeHead = (treeSize?: number): SignedTreeHead => {
+    const leaves = leavesUpTo(treeSize, "treeHead");
+    const head = {
+      log_id: options.logId,
+      tree_size: leaves.length,
+      root_hash: merkleRoot(leaves, DEFAULT_HASH_ALGORITHM),
+      timestamp: new Date().toISOString(),
+    };
+    return { ...head, signature: createPayloadSignature(treeHeadPayload(head), options.signer) };
+  };
+
+  const inclusionProof = (
+    entry: Pick<LogEntry, "bundle_id" | "root_hash">,
+    treeSize?: number,
+  ): LogInclusionProof => {
+    const leaves = leavesUpTo(treeSize, "inclusionProof");
+    const leaf = logLeafHash(entry.bundle_id, entry.root_hash, DEFAULT_HASH_ALGORITHM);
+    const index = leaves.indexOf(leaf);
+    if (index === -1) {
+      throw new Error(
+        `inclusionProof: ${entry.bundle_id} at ${entry.root_hash} is not in the first ${leaves.length} entries`,
+      );
+    }
+    return {
+      log_id: options.logId,
+      bundle_id: entry.bundle_id,
+      bundle_root_hash: entry.root_hash,
+      leaf_index: index,
+      tree_size: leaves.length,
+      audit_path: merkleAuditPath(leaves, index, DEFAULT_HASH_ALGORITHM),
+    };
+  };
+
+  const consistencyProof = (oldTreeSize: number, newTreeSize?: number): LogConsistencyProof => {
+    const leaves = leavesUpTo(newTreeSize, "consistencyProof");
+    if (!Number.isInteger(oldTreeSize) || oldTreeSize < 1 || oldTreeSize > leaves.length) {
+      throw new Error(`consistencyProof: old tree size ${oldTreeSize} out of range for ${leaves.length} entries`);
+    }
+    return {
+      log_id: options.logId,
+      old_tree_size: oldTreeSize,
+      new_tree_size: leaves.length,
+      consistency_path: merkleConsistencyProof(leaves, oldTreeSize, DEFAULT_HASH_ALGORITHM),
+    };
+  };
+
+  return { append, entries, treeHead, inclusionProof, consistencyProof };
+}
+
+/**
+ * Verify that newer extends older without removing or replacing entries.
+ *
+ * Trace rationale: both tree heads must carry valid signatures from the
+ * log, and the proof must name the same log and the heads' sizes. The
+ * consistency path then recomputes both roots from shared subtrees, so any
+ * deleted or replaced entry among the first old_tree_size is reported as
+ * LOG_CONSISTENCY_INVALID.
+ */
+export function verifyLogConsistency(
+  older: SignedTreeHead,
+  newer: SignedTreeHead,
+  proof: LogConsistencyProof,
+  options?: SignatureVerificationOptions,
+): VerificationResult {
+  const errors: VerificationError[] = [
+    ...verifyTreeHead(older, options).errors,
+    ...verifyTreeHead(newer, options).errors,
+  ];
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const details = {
+    log_id: proof.log_id,
+    old_tree_size: proof.old_tree_size,
+    new_tree_size: proof.new_tree_size,
+  };
+  if (
+    older.log_id !== newer.log_id ||
+    proof.log_id !== older.log_id ||
+    proof.old_tree_size !== older.tree_size ||
+    proof.new_tree_size !== newer.tree_size
+  ) {
+    errors.push({
+      code: ErrorCode.LOG_CONSISTENCY_INVALID,
+      message: "Consistency proof does not match the tree heads",
+      details: { ...details, older_log_id: older.log_id, newer_log_id: newer.log_id },
+    });
+    return { valid: false, errors };
+  }
+
+  const algorithm = hashAlgorithmOf(newer.root_hash);
+  if (
+    algorithm === null ||
+    hashAlgorithmOf(older.root_hash) !== algorithm ||
+    !verifyMerkleConsistency(
+      older.tree_size,
+      older.root_hash,
+      newer.tree_size,
+      newer.root_hash,
+      proof.consistency_path ?? [],
+      algorithm,
+    )
+  ) {
+    errors.push({
+      code: ErrorCode.LOG_CONSISTENCY_INVALID,
+      message: `Tree of size ${older.tree_size} is not a prefix of tree of size ${newer.tree_size}`,
+      details,
+    });
+  }
+
+  return { valid: errors.length === 0, errors };
+}
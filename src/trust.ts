@@ -0,0 +1,116 @@
+/**
+ * Trust store for @guardspine/kernel signature verification.
+ *
+ * A trust store lists the public keys a verifier accepts, which signature
+ * algorithms each key may be used for, and the window in which the key was
+ * valid. Signatures are checked against their signed_at timestamp.
+ */
+
+import { ErrorCode } from "./errors.js";
+import type { VerificationError } from "./errors.js";
+import type { Jwk } from "./jwk.js";
+import type { SignatureAlgorithm } from "./sign.js";
+import type { Signature } from "./schemas/evidence-bundle.js";
+
+export interface TrustedKey {
+  key_id: string;
+  /** PEM, base64 (raw 32-byte Ed25519 or SPKI DER), or a JWK object. */
+  public_key: string | Jwk;
+  /** Signature algorithms this key may be used for. */
+  algorithms: SignatureAlgorithm[];
+  /** ISO 8601. Signatures made before this time are rejected. */
+  not_before?: string;
+  /** ISO 8601. Signatures made at or after this time are rejected. */
+  not_after?: string;
+  /**
+   * ISO 8601. Signatures made at or after this time are rejected.
+   * signed_at is self-asserted, so set this to the earliest suspected
+   * compromise time rather than the time the revocation was processed.
+   */
+  revoked_at?: string;
+}
+
+export interface TrustStore {
+  keys: TrustedKey[];
+}
+
+/** Look up a key by exact key_id. There is no fallback key. */
+export function findTrustedKey(
+  store: TrustStore,
+  keyId: string,
+): TrustedKey | undefined {
+  return store.keys.find((key) => key.key_id === keyId);
+}
+
+function parseTime(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return Date.parse(value);
+}
+
+/**
+ * Check that a trusted key may verify this signature: the algorithm is
+ * allowed and signed_at lies inside the key's validity window and before
+ * any revocation. Returns the first violation, or null.
+ */
+export function checkTrustedKey(
+  key: TrustedKey,
+  signature: Signature,
+): VerificationError | null {
+  const base = { signature_id: signature.signature_id, public_key_id: key.key_id };
+
+  if (!key.algorithms.includes(signature.algorithm)) {
+    return {
+      code: ErrorCode.KEY_ALGORITHM_MISMATCH,
+      message: `Key ${key.key_id} is not allowed for ${signature.algorithm} signatures`,
+      details: { ...base, algorithm: signature.algorithm, allowed: key.algorithms },
+    };
+  }
+
+  const signedAt = Date.parse(signature.signed_at);
+  if (Number.isNaN(signedAt)) {
+    return {
+      code: ErrorCode.INPUT_VALIDATION_FAILED,
+      message: "Signature signed_at is not a valid timestamp",
+      details: { ...base, signed_at: signature.signed_at },
+    };
+  }
+
+  const notBefore = parseTime(key.not_before);
+  const notAfter = parseTime(key.not_after);
+  const revokedAt = parseTime(key.revoked_at);
+  if ([notBefore, notAfter, revokedAt].some((t) => t !== undefined && Number.isNaN(t))) {
+    return {
+      code: ErrorCode.INPUT_VALIDATION_FAILED,
+      message: `Trust store entry ${key.key_id} has an invalid timestamp`,
+      details: base,
+    };
+  }
+
+  if (revokedAt !== undefined && signedAt >= revokedAt) {
+    return {
+      code: ErrorCode.KEY_REVOKED,
+      message: `Key ${key.key_id} was revoked before the signature was made`,
+      details: { ...base, signed_at: signature.signed_at, revoked_at: key.revoked_at },
+    };
+  }
+
+  if (notBefore !== undefined && signedAt < notBefore) {
+    return {
+      code: ErrorCode.KEY_NOT_YET_VALID,
+      message: `Signature predates validity of key ${key.key_id}`,
+      details: { ...base, signed_at: signature.signed_at, not_before: key.not_before },
+    };
+  }
+
+  if (notAfter !== undefined && signedAt >= notAfter) {
+    return {
+      code: ErrorCode.KEY_EXPIRED,
+      message: `Signature made after key ${key.key_id} expired`,
+      details: { ...base, signed_at: signature.signed_at, not_after: key.not_after },
+    };
+  }
+
+  return null;
+}
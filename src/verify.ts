@@ -8,24 +8,59 @@
  */
 
 import { createHash, createHmac, createPublicKey, timingSafeEqual, verify } from "node:crypto";
+import type { KeyObject } from "node:crypto";
 import { canonicalJson } from "./canonical.js";
+import { DEFAULT_HASH_ALGORITHM, hashAlgorithmOf, hashString } from "./hash.js";
+import type { HashAlgorithm } from "./hash.js";
 import { ErrorCode } from "./errors.js";
-import { GENESIS_HASH } from "./seal.js";
+import { GENESIS_HASH, computeMerkleRootHash, computePolicyHash } from "./seal.js";
+import { chainHashInput } from "./sealing.js";
+import { logLeafHash, rootFromAuditPath } from "./merkle.js";
+import { describeKeyType, keyMatchesAlgorithm, signingPayload, treeHeadPayload } from "./sign.js";
+import type { TrustStore } from "./trust.js";
+import { jwkToKeyObject } from "./jwk.js";
+import type { Jwk, JwkSet } from "./jwk.js";
+import {
+  checkHashAlgorithm,
+  checkPolicyBinding,
+  createStepRecorder,
+  crossCheckErrors,
+  parseFailureReport,
+  recordSignatureAndPolicySteps,
+  resolveAcceptedProofVersions,
+  resolveSignatureKey,
+  resultFromReport,
+  runStructureSteps,
+  summarizeSignatures,
+  withParseStep,
+} from "./checks.js";
+import type { SignatureCheck, SignatureOutcome, SignaturePolicy } from "./checks.js";
 import type { ProofVersion } from "./seal.js";
 import type { VerificationError, VerificationResult } from "./errors.js";
 import type {
+  BundleReference,
   EvidenceBundle,
   EvidenceItem,
   HashChain,
   ImmutabilityProof,
   Signature,
 } from "./schemas/evidence-bundle.js";
+import type { PolicyPack } from "./schemas/policy-pack.js";
+import { tryParseBundle } from "./parse.js";
+import { isRedactedContent } from "./redact.js";
+import { verifyBundleTimestamps } from "./timestamp.js";
+import type { TimestampVerificationOptions } from "./timestamp.js";
+import type { LogInclusionProof, SignedTreeHead } from "./transparency.js";
+import type { RiskTierProfiles } from "./tiers.js";
+
+export { checkHashAlgorithm, verifySignaturePolicy } from "./checks.js";
+export type { SignaturePolicy, VerifiedSignature } from "./checks.js";
 
 /**
  * Constant-time string comparison to prevent timing side-channel attacks.
  * Both strings are converted to Buffers of equal length before comparison.
  */
-function safeEqual(left: string, right: string): boolean {
+export function safeEqual(left: string, right: string): boolean {
   const bufLeft = Buffer.from(left, "utf-8");
   const bufRight = Buffer.from(right, "utf-8");
   if (bufLeft.length !== bufRight.length) {
@@ -34,151 +69,243 @@ function safeEqual(left: string, right: string): boolean {
   return timingSafeEqual(bufLeft, bufRight);
 }
 
-function sha256(data: string): string {
-  return `sha256:${createHash("sha256").update(data, "utf-8").digest("hex")}`;
+function contentHash(content: object, algorithm: HashAlgorithm): string {
+  return hashString(canonicalJson(content), algorithm);
 }
 
-function contentHash(content: object): string {
-  return sha256(canonicalJson(content));
-}
-
-function canonicalBytes(obj: unknown): Buffer {
-  return Buffer.from(canonicalJson(obj as object), "utf-8");
-}
+/** PEM, base64 (raw 32-byte Ed25519 or SPKI DER), or a JWK object. */
+export type PublicKeyMaterial = string | Jwk;
 
 export interface SignatureVerificationOptions {
-  /** Map of public_key_id -> PEM or base64 raw Ed25519 key. */
-  publicKeys?: Record<string, string>;
+  /** Map of public_key_id -> key material. */
+  publicKeys?: Record<string, PublicKeyMaterial>;
+  /** JWKS consulted by kid when publicKeys has no entry for the key id. */
+  jwks?: JwkSet;
   /** Shared secret for HMAC-SHA256 signatures (if used). */
   hmacSecret?: string;
+  /**
+   * Trusted keys with allowed algorithms and validity windows. When set,
+   * asymmetric signatures resolve keys only from the trust store and
+   * publicKeys is ignored.
+   */
+  trustStore?: TrustStore;
+  /** Quorum rules. When set, a bundle with no signatures is checked too. */
+  signaturePolicy?: SignaturePolicy;
 }
 
 export interface ProofVerificationOptions {
-  /** Accepted hash-chain proof versions (default: ["v0.2.0"]). */
+  /** Accepted hash-chain proof versions (default: ["v0.2.0", "v0.3.0"]). */
   acceptProofVersions?: ProofVersion[];
+  /** Accepted hash algorithms (default: SUPPORTED_HASH_ALGORITHMS). */
+  acceptHashAlgorithms?: HashAlgorithm[];
 }
 
-export type BundleVerificationOptions = SignatureVerificationOptions & ProofVerificationOptions;
+export interface PolicyVerificationOptions {
+  /** Policy pack the bundle must be bound to via policy_id, policy_version and policy_hash. */
+  policyPack?: PolicyPack;
+}
+
+export interface RiskTierVerificationOptions {
+  /** Enforce the profile for the bundle's risk_tier (see DEFAULT_RISK_TIER_PROFILES). */
+  riskTierProfiles?: RiskTierProfiles;
+}
+
+export interface RedactionVerificationOptions {
+  /** Items of these content types must not be redacted. */
+  nonRedactableContentTypes?: string[];
+}
+
+/** Looks up a referenced bundle, e.g. a BundleLedger. */
+export interface BundleResolver {
+  get(reference: Pick<BundleReference, "bundle_id" | "root_hash">): EvidenceBundle | undefined;
+}
+
+export interface ReferenceVerificationOptions {
+  /** When set, every entry in bundle.references is resolved and verified recursively. */
+  bundleResolver?: BundleResolver;
+  /** Maximum reference depth below the top-level bundle (default: 8). */
+  maxReferenceDepth?: number;
+}
+
+export interface TransparencyLogVerificationOptions {
+  /** Proof that the bundle's root_hash is in a transparency log. Requires logTreeHead. */
+  logInclusionProof?: LogInclusionProof;
+  /** Tree head the proof is checked against; its signature uses the signature options. */
+  logTreeHead?: SignedTreeHead;
+}
+
+export interface SchemaVerificationOptions {
+  /**
+   * Enforce schema formats such as uuid bundle_id and date-time created_at
+   * (default: false, as in draft 2020-12; many deployed bundle ids are not UUIDs).
+   */
+  assertSchemaFormats?: boolean;
+}
+
+export type VerificationStepStatus = "passed" | "failed" | "skipped";
+
+/** One check in a VerificationReport. */
+export interface VerificationStep {
+  /** Stable step name, e.g. "content_hashes" or "signature". */
+  step: string;
+  status: VerificationStepStatus;
+  /** Why the step was skipped, or the first failure. */
+  reason?: string;
+  /** The inputs the step used. */
+  inputs: Record<string, unknown>;
+  errors: VerificationError[];
+}
+
+/** Step-by-step result of verifyBundleDetailed, in JSON-ready snake_case. */
+export interface VerificationReport {
+  report_version: "1.0";
+  bundle_id?: string;
+  root_hash?: string;
+  valid: boolean;
+  steps: VerificationStep[];
+  redacted_items?: string[];
+}
+
+export type BundleVerificationOptions = SchemaVerificationOptions &
+  SignatureVerificationOptions &
+  ProofVerificationOptions &
+  PolicyVerificationOptions &
+  RiskTierVerificationOptions &
+  RedactionVerificationOptions &
+  ReferenceVerificationOptions &
+  TimestampVerificationOptions &
+  TransparencyLogVerificationOptions;
 
 function ed25519RawToSpkiDer(rawKey: Buffer): Buffer {
   const prefix = Buffer.from("302a300506032b6570032100", "hex");
   return Buffer.concat([prefix, rawKey]);
 }
 
-function resolvePublicKey(
-  signature: Signature,
-  options: SignatureVerificationOptions | undefined,
-): Buffer | null {
-  const keyId = signature.public_key_id || "default";
-  const key = options?.publicKeys?.[keyId] ?? options?.publicKeys?.default;
-  if (!key) {
-    return null;
-  }
-
-  if (key.startsWith("-----BEGIN")) {
-    return Buffer.from(key, "utf-8");
-  }
-
+function keyMaterialToKeyObject(material: PublicKeyMaterial): KeyObject | null {
   try {
-    const raw = Buffer.from(key, "base64");
-    if (raw.length === 32) {
-      return ed25519RawToSpkiDer(raw);
+    if (typeof material !== "string") {
+      return jwkToKeyObject(material);
+    }
+    if (material.startsWith("-----BEGIN")) {
+      return createPublicKey(material);
     }
+    const raw = Buffer.from(material, "base64");
+    const der = raw.length === 32 ? ed25519RawToSpkiDer(raw) : raw;
+    return createPublicKey({ key: der, format: "der", type: "spki" });
   } catch {
     return null;
   }
-
-  return null;
 }
 
-export function verifySignatures(
-  bundle: EvidenceBundle,
-  options?: SignatureVerificationOptions,
-): VerificationResult {
-  const errors: VerificationError[] = [];
-  const signatures = bundle.signatures ?? [];
-  if (signatures.length === 0) {
-    return { valid: true, errors };
+/**
+ * Verify a single signature against the signing payload.
+ * Returns the error describing why it failed, or the key it verified with.
+ */
+function verifySignatureEntry(
+  sig: Signature,
+  content: Buffer,
+  options: SignatureVerificationOptions | undefined,
+): SignatureOutcome {
+  const key = resolveSignatureKey(sig, options);
+  if ("error" in key) {
+    return key;
   }
-
-  const bundleCopy = { ...bundle, signatures: undefined } as Record<string, unknown>;
-  const content = canonicalBytes(bundleCopy);
-
-  for (const sig of signatures) {
-    const signatureValue = sig.signature_value;
-    if (!signatureValue) {
-      errors.push({
-        code: ErrorCode.SIGNATURE_INVALID,
-        message: "Signature missing signature_value",
-        details: { signature_id: sig.signature_id },
-      });
-      continue;
-    }
-
-    const algo = sig.algorithm;
-    if (algo === "hmac-sha256") {
-      if (!options?.hmacSecret) {
-        errors.push({
-          code: ErrorCode.SIGNATURE_INVALID,
-          message: "HMAC signature present but no hmacSecret provided",
-          details: { signature_id: sig.signature_id },
-        });
-        continue;
-      }
-      const expected = createHmac("sha256", options.hmacSecret)
-        .update(content)
-        .digest("base64");
-      const expectedBuf = Buffer.from(expected);
-      const actualBuf = Buffer.from(signatureValue);
-      if (expectedBuf.length !== actualBuf.length || !timingSafeEqual(expectedBuf, actualBuf)) {
-        errors.push({
+  const signatureValue = sig.signature_value;
+
+  if (key.algorithm === "hmac-sha256") {
+    const expected = createHmac("sha256", key.secret)
+      .update(content)
+      .digest("base64");
+    const expectedBuf = Buffer.from(expected);
+    const actualBuf = Buffer.from(signatureValue);
+    if (expectedBuf.length !== actualBuf.length || !timingSafeEqual(expectedBuf, actualBuf)) {
+      return {
+        error: {
           code: ErrorCode.SIGNATURE_INVALID,
           message: "HMAC signature verification failed",
           details: { signature_id: sig.signature_id },
-        });
-      }
-      continue;
+        },
+      };
     }
+    return { keyFingerprint: "hmac-sha256" };
+  }
 
-    const key = resolvePublicKey(sig, options);
-    if (!key) {
-      errors.push({
+  const algo = key.algorithm;
+  const keyObject = keyMaterialToKeyObject(key.material);
+  if (!keyObject) {
+    return {
+      error: {
         code: ErrorCode.SIGNATURE_INVALID,
-        message: "No public key available for signature",
+        message: "Public key for signature could not be parsed",
         details: { signature_id: sig.signature_id, public_key_id: sig.public_key_id },
-      });
-      continue;
-    }
+      },
+    };
+  }
 
-    const signatureBytes = Buffer.from(signatureValue, "base64");
-    let ok = false;
-    try {
-      const keyObject = key.toString("utf-8").startsWith("-----BEGIN")
-        ? createPublicKey(key)
-        : createPublicKey({ key, format: "der", type: "spki" });
-
-      if (algo === "ed25519") {
-        ok = verify(null, content, keyObject, signatureBytes);
-      } else if (algo === "rsa-sha256") {
-        ok = verify("sha256", content, keyObject, signatureBytes);
-      } else if (algo === "ecdsa-p256") {
-        ok = verify("sha256", content, keyObject, signatureBytes);
-      } else {
-        ok = false;
-      }
-    } catch {
-      ok = false;
+  if (!keyMatchesAlgorithm(keyObject, algo)) {
+    return {
+      error: {
+        code: ErrorCode.KEY_ALGORITHM_MISMATCH,
+        message: `Key type ${describeKeyType(keyObject)} cannot verify ${algo} signature`,
+        details: {
+          signature_id: sig.signature_id,
+          public_key_id: sig.public_key_id,
+          algorithm: algo,
+          key_type: describeKeyType(keyObject),
+        },
+      },
+    };
+  }
+
+  const signatureBytes = Buffer.from(signatureValue, "base64");
+  let ok = false;
+  try {
+    if (algo === "ed25519") {
+      ok = verify(null, content, keyObject, signatureBytes);
+    } else {
+      ok = verify("sha256", content, keyObject, signatureBytes);
     }
+  } catch {
+    ok = false;
+  }
 
-    if (!ok) {
-      errors.push({
+  if (!ok) {
+    return {
+      error: {
         code: ErrorCode.SIGNATURE_INVALID,
         message: "Signature verification failed",
         details: { signature_id: sig.signature_id, algorithm: sig.algorithm },
-      });
-    }
+      },
+    };
+  }
+  return {
+    keyId: key.keyId,
+    keyFingerprint: keyObject.export({ type: "spki", format: "der" }).toString("base64"),
+  };
+}
+
+function checkSignatures(
+  bundle: EvidenceBundle,
+  options?: SignatureVerificationOptions,
+): SignatureCheck {
+  const signatures = bundle.signatures ?? [];
+  if (signatures.length === 0 && !options?.signaturePolicy) {
+    return summarizeSignatures([], [], options);
   }
 
+  const content = signingPayload(bundle);
+  return summarizeSignatures(
+    signatures,
+    signatures.map((sig) => verifySignatureEntry(sig, content, options)),
+    options,
+  );
+}
+
+export function verifySignatures(
+  bundle: EvidenceBundle,
+  options?: SignatureVerificationOptions,
+): VerificationResult {
+  const { errors } = checkSignatures(bundle, options);
   return { valid: errors.length === 0, errors };
 }
 
@@ -190,39 +317,6 @@ export function verifySignatures(
  * previous_hash linkage, and recomputed chain_hash. Any mismatch produces
  * a typed error with the expected vs actual values for audit traceability.
  */
-function resolveAcceptedProofVersions(
-  options?: ProofVerificationOptions,
-): ProofVersion[] {
-  const versions = options?.acceptProofVersions;
-  if (!versions || versions.length === 0) {
-    return ["v0.2.0"];
-  }
-  if (versions.includes("legacy")) {
-    console.warn(
-      "guardspine-kernel: accepting 'legacy' proof version is deprecated. Migrate chains to 'v0.2.0'.",
-    );
-  }
-  return versions;
-}
-
-function chainHashV020(
-  sequence: number,
-  itemId: string,
-  contentType: string,
-  contentHash: string,
-  previousHash: string,
-): string {
-  return sha256(`${sequence}|${itemId}|${contentType}|${contentHash}|${previousHash}`);
-}
-
-function chainHashLegacy(
-  sequence: number,
-  contentHash: string,
-  previousHash: string,
-): string {
-  return sha256(`${sequence}|${contentHash}|${previousHash}`);
-}
-
 export function verifyHashChain(
   chain: HashChain,
   options?: ProofVerificationOptions,
@@ -239,6 +333,14 @@ export function verifyHashChain(
     return { valid: false, errors };
   }
 
+  // The chain records no algorithm of its own; its hashes name it.
+  const algorithm = hashAlgorithmOf(chain[0].chain_hash) ?? DEFAULT_HASH_ALGORITHM;
+  const algorithmError = checkHashAlgorithm(algorithm, options);
+  if (algorithmError) {
+    errors.push(algorithmError);
+    return { valid: false, errors };
+  }
+
   for (let seq = 0; seq < chain.length; seq++) {
     const link = chain[seq];
 
@@ -280,13 +382,7 @@ export function verifyHashChain(
           details: { sequence: seq },
         });
       } else if (hasV020Fields) {
-        const expectedV020 = chainHashV020(
-          link.sequence,
-          link.item_id,
-          link.content_type,
-          link.content_hash,
-          link.previous_hash,
-        );
+        const expectedV020 = hashString(chainHashInput(link, "v0.2.0"), algorithm);
         if (safeEqual(link.chain_hash, expectedV020)) {
           chainValid = true;
         }
@@ -294,11 +390,7 @@ export function verifyHashChain(
     }
 
     if (!chainValid && allowLegacy) {
-      const expectedLegacy = chainHashLegacy(
-        link.sequence,
-        link.content_hash,
-        link.previous_hash,
-      );
+      const expectedLegacy = hashString(chainHashInput(link, "legacy"), algorithm);
       if (safeEqual(link.chain_hash, expectedLegacy)) {
         chainValid = true;
       }
@@ -326,12 +418,17 @@ export function verifyHashChain(
 }
 
 /**
- * Verify the root hash matches the concatenation of all chain hashes.
+ * Verify the root hash matches the concatenation of all chain hashes, or
+ * for v0.3.0 proofs the Merkle root over the item leaves.
  *
- * Trace rationale: the root hash is a single SHA-256 over all concatenated
- * chain hashes. A mismatch indicates the chain was modified after sealing.
+ * Trace rationale: the root hash is a single hash, in the proof's
+ * hash_algorithm, over all concatenated chain hashes (or the Merkle root of
+ * the links). A mismatch indicates the chain was modified after sealing.
  */
-export function verifyRootHash(proof: ImmutabilityProof): VerificationResult {
+export function verifyRootHash(
+  proof: ImmutabilityProof,
+  options?: ProofVerificationOptions,
+): VerificationResult {
   const errors: VerificationError[] = [];
 
   if (!proof || !Array.isArray(proof.hash_chain) || proof.hash_chain.length === 0) {
@@ -343,11 +440,32 @@ export function verifyRootHash(proof: ImmutabilityProof): VerificationResult {
     return { valid: false, errors };
   }
 
-  const h = createHash("sha256");
-  for (const link of proof.hash_chain) {
-    h.update(link.chain_hash, "utf-8");
+  if (proof.proof_version !== undefined && proof.proof_version !== "v0.3.0") {
+    errors.push({
+      code: ErrorCode.UNSUPPORTED_VERSION,
+      message: `Unsupported proof_version: ${String(proof.proof_version)}`,
+      details: { proof_version: proof.proof_version, supported: ["v0.3.0"] },
+    });
+    return { valid: false, errors };
+  }
+
+  const algorithm = proof.hash_algorithm ?? DEFAULT_HASH_ALGORITHM;
+  const algorithmError = checkHashAlgorithm(algorithm, options);
+  if (algorithmError) {
+    errors.push(algorithmError);
+    return { valid: false, errors };
+  }
+
+  let expected: string;
+  if (proof.proof_version === "v0.3.0") {
+    expected = computeMerkleRootHash(proof.hash_chain, algorithm);
+  } else {
+    const h = createHash(algorithm);
+    for (const link of proof.hash_chain) {
+      h.update(link.chain_hash, "utf-8");
+    }
+    expected = `${algorithm}:${h.digest("hex")}`;
   }
-  const expected = `sha256:${h.digest("hex")}`;
 
   if (!safeEqual(proof.root_hash, expected)) {
     errors.push({
@@ -361,13 +479,22 @@ export function verifyRootHash(proof: ImmutabilityProof): VerificationResult {
 }
 
 /**
- * Verify that each item's content_hash matches SHA-256 of its canonical content.
+ * Verify that each item's content_hash matches the hash of its canonical content.
  *
- * Trace rationale: recomputes SHA-256 of each item's canonical JSON and
- * compares against the stored content_hash. Detects content tampering.
+ * Trace rationale: recomputes the hash of each item's canonical JSON with
+ * the algorithm named by its content_hash prefix and compares against the
+ * stored content_hash. Detects content tampering.
+ * An item whose content is the redaction marker (and does not itself hash
+ * to content_hash) is listed in redactedItems instead of reported as
+ * tampered, unless its content_type is non-redactable.
  */
-export function verifyContentHashes(items: EvidenceItem[]): VerificationResult {
+export function verifyContentHashes(
+  items: EvidenceItem[],
+  options?: RedactionVerificationOptions & ProofVerificationOptions,
+): VerificationResult {
   const errors: VerificationError[] = [];
+  const redactedItems: string[] = [];
+  const nonRedactable = options?.nonRedactableContentTypes ?? [];
 
   if (!Array.isArray(items) || items.length === 0) {
     errors.push({
@@ -379,8 +506,26 @@ export function verifyContentHashes(items: EvidenceItem[]): VerificationResult {
   }
 
   for (const item of items) {
-    const expected = contentHash(item.content);
-    if (!safeEqual(item.content_hash, expected)) {
+    // Each content_hash names its algorithm; an unknown prefix falls back
+    // to sha256 and so fails as a mismatch.
+    const algorithm = hashAlgorithmOf(item.content_hash) ?? DEFAULT_HASH_ALGORITHM;
+    const algorithmError = checkHashAlgorithm(algorithm, options);
+    if (algorithmError) {
+      errors.push({ ...algorithmError, details: { ...algorithmError.details, item_id: item.item_id } });
+      continue;
+    }
+    const expected = contentHash(item.content, algorithm);
+    if (!safeEqual(item.content_hash, expected) && isRedactedContent(item.content)) {
+      if (nonRedactable.includes(item.content_type)) {
+        errors.push({
+          code: ErrorCode.REDACTION_NOT_ALLOWED,
+          message: `Item ${item.item_id} of content_type ${item.content_type} must not be redacted`,
+          details: { item_id: item.item_id, content_type: item.content_type },
+        });
+      } else {
+        redactedItems.push(item.item_id);
+      }
+    } else if (!safeEqual(item.content_hash, expected)) {
       errors.push({
         code: ErrorCode.CONTENT_HASH_MISMATCH,
         message: `Content hash mismatch for item ${item.item_id}`,
@@ -393,129 +538,441 @@ export function verifyContentHashes(items: EvidenceItem[]): VerificationResult {
     }
   }
 
-  return { valid: errors.length === 0, errors };
+  return redactedItems.length > 0
+    ? { valid: errors.length === 0, errors, redactedItems }
+    : { valid: errors.length === 0, errors };
 }
 
 /**
- * Full bundle verification: required fields, content hashes, chain, root.
+ * Verify that a bundle is bound to exactly this policy pack.
  *
- * Trace rationale: orchestrates all sub-verifications (content hashes, hash
- * chain, root hash, cross-check) and aggregates errors. Returns early if
- * critical fields are missing. Each error carries typed code and details
- * for deterministic audit trail reconstruction.
+ * Trace rationale: the pack's canonical content hash must equal the
+ * bundle's policy_hash, and policy_id/policy_version must match the pack,
+ * so a loosened or substituted pack is detected even if it keeps its id.
+ * policy_hash is a top-level field: only bundle signatures protect it
+ * from being rewritten together with the pack.
  */
-export function verifyBundle(
+export function verifyPolicyBinding(
   bundle: EvidenceBundle,
-  options?: BundleVerificationOptions,
+  pack: PolicyPack,
+): VerificationResult {
+  return checkPolicyBinding(bundle, pack, computePolicyHash(pack));
+}
+
+/**
+ * Verify a transparency log tree head's shape and signature. The log's key
+ * is resolved like a bundle signer's: publicKeys, jwks, trustStore or
+ * hmacSecret.
+ *
+ * Trace rationale: every log proof is only as good as the head it is
+ * checked against, so a head that is malformed or not signed by a trusted
+ * log key is reported as LOG_TREE_HEAD_INVALID, with the underlying
+ * signature error code in details.cause.
+ */
+export function verifyTreeHead(
+  treeHead: SignedTreeHead,
+  options?: SignatureVerificationOptions,
 ): VerificationResult {
   const errors: VerificationError[] = [];
+  const details = { log_id: treeHead.log_id, tree_size: treeHead.tree_size };
+
+  if (
+    typeof treeHead.log_id !== "string" ||
+    !Number.isInteger(treeHead.tree_size) ||
+    treeHead.tree_size < 1 ||
+    hashAlgorithmOf(treeHead.root_hash) === null ||
+    !treeHead.signature
+  ) {
+    errors.push({
+      code: ErrorCode.LOG_TREE_HEAD_INVALID,
+      message: "Tree head is missing log_id, tree_size, root_hash or signature",
+      details,
+    });
+    return { valid: false, errors };
+  }
 
-  // Check required fields
-  const requiredFields: (keyof EvidenceBundle)[] = [
-    "bundle_id",
-    "version",
-    "created_at",
-    "items",
-    "immutability_proof",
-  ];
-
-  for (const field of requiredFields) {
-    if (bundle[field] === undefined || bundle[field] === null) {
-      errors.push({
-        code: ErrorCode.MISSING_REQUIRED_FIELD,
-        message: `Missing required field: ${field}`,
-        details: { field },
-      });
-    }
+  const outcome = verifySignatureEntry(treeHead.signature, treeHeadPayload(treeHead), options);
+  if ("error" in outcome) {
+    const { error } = outcome;
+    errors.push({
+      code: ErrorCode.LOG_TREE_HEAD_INVALID,
+      message: `Tree head signature does not verify: ${error.message}`,
+      details: { ...details, cause: error.code },
+    });
   }
 
-  // Verify bundle version VALUE (not just presence).
-  // v0.2.1 adds optional sanitization metadata; proof format is unchanged from v0.2.0.
-  const SUPPORTED_VERSIONS = ["0.2.0", "0.2.1"];
-  if (bundle.version && !SUPPORTED_VERSIONS.includes(bundle.version)) {
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Verify that a bundle's current root is recorded in a transparency log.
+ *
+ * Trace rationale: the proof must be for this bundle_id and root_hash, name
+ * the tree head's log and size, and its audit path must rebuild the signed
+ * root. Any mismatch is LOG_INCLUSION_INVALID; a bad head is reported by
+ * verifyTreeHead.
+ */
+export function verifyLogInclusion(
+  bundle: EvidenceBundle,
+  proof: LogInclusionProof,
+  treeHead: SignedTreeHead,
+  options?: SignatureVerificationOptions,
+): VerificationResult {
+  const errors: VerificationError[] = [...verifyTreeHead(treeHead, options).errors];
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const rootHash = bundle.immutability_proof?.root_hash;
+  if (proof.bundle_id !== bundle.bundle_id || proof.bundle_root_hash !== rootHash) {
     errors.push({
-      code: ErrorCode.UNSUPPORTED_VERSION,
-      message: `Unsupported bundle version: ${bundle.version}. Supported: ${SUPPORTED_VERSIONS.join(", ")}`,
-      details: { version: bundle.version, supported: SUPPORTED_VERSIONS },
+      code: ErrorCode.LOG_INCLUSION_INVALID,
+      message: "Log inclusion proof is for a different bundle or root",
+      details: {
+        expected_bundle_id: bundle.bundle_id,
+        expected_root_hash: rootHash,
+        bundle_id: proof.bundle_id,
+        bundle_root_hash: proof.bundle_root_hash,
+      },
     });
+    return { valid: false, errors };
   }
 
-  // If critical fields missing, return early
-  if (!bundle.items || !bundle.immutability_proof) {
+  if (proof.log_id !== treeHead.log_id || proof.tree_size !== treeHead.tree_size) {
+    errors.push({
+      code: ErrorCode.LOG_INCLUSION_INVALID,
+      message: "Log inclusion proof does not match the tree head",
+      details: {
+        log_id: proof.log_id,
+        tree_size: proof.tree_size,
+        tree_head_log_id: treeHead.log_id,
+        tree_head_tree_size: treeHead.tree_size,
+      },
+    });
     return { valid: false, errors };
   }
 
-  // Verify content hashes
-  const contentResult = verifyContentHashes(bundle.items);
-  errors.push(...contentResult.errors);
+  const algorithm = hashAlgorithmOf(treeHead.root_hash) ?? DEFAULT_HASH_ALGORITHM;
+  const computed = Array.isArray(proof.audit_path)
+    ? rootFromAuditPath(
+        logLeafHash(proof.bundle_id, proof.bundle_root_hash, algorithm),
+        proof.leaf_index,
+        proof.tree_size,
+        proof.audit_path,
+        algorithm,
+      )
+    : null;
+  if (computed === null || !safeEqual(computed, treeHead.root_hash)) {
+    errors.push({
+      code: ErrorCode.LOG_INCLUSION_INVALID,
+      message: `Audit path does not lead to the tree head root at leaf ${proof.leaf_index}`,
+      details: {
+        log_id: proof.log_id,
+        leaf_index: proof.leaf_index,
+        tree_size: proof.tree_size,
+        expected: treeHead.root_hash,
+        actual: computed,
+      },
+    });
+  }
 
-  // Verify hash chain
-  const chainResult = verifyHashChain(
-    bundle.immutability_proof.hash_chain,
-    options,
-  );
-  errors.push(...chainResult.errors);
+  return { valid: errors.length === 0, errors };
+}
 
-  // Verify root hash
-  const rootResult = verifyRootHash(bundle.immutability_proof);
-  errors.push(...rootResult.errors);
+/**
+ * Full bundle verification: schema, required fields, content hashes, chain, root.
+ * Redacted items are listed in redactedItems; the bundle can still be valid.
+ * With options.bundleResolver, referenced bundles are verified recursively.
+ * With options.tsaCertificates, attached RFC 3161 timestamps are verified.
+ * With options.logInclusionProof and logTreeHead, the root must be logged.
+ * Raw bytes are read with parseBundle first, so duplicate keys or invalid
+ * UTF-8 fail as BUNDLE_PARSE_FAILED instead of being read one way here
+ * and another way elsewhere.
+ *
+ * Trace rationale: orchestrates all sub-verifications (content hashes, hash
+ * chain, root hash, cross-check) and aggregates errors. Returns early if
+ * critical fields are missing. Each error carries typed code and details
+ * for deterministic audit trail reconstruction.
+ */
+export function verifyBundle(
+  bundle: EvidenceBundle | Uint8Array,
+  options?: BundleVerificationOptions,
+): VerificationResult {
+  return resultFromReport(runInputSteps(bundle, options));
+}
+
+const DEFAULT_MAX_REFERENCE_DEPTH = 8;
+
+/**
+ * Resolve and verify each of a bundle's references.
+ *
+ * Trace rationale: a reference pins a bundle by root_hash, so the resolved
+ * bundle must carry exactly that id and root and must itself verify under
+ * the same options, less the log inclusion proof, which is specific to
+ * the top-level bundle. referencePath holds the root hashes from the top-level
+ * bundle down to this one: meeting one again is a cycle, and the path
+ * length bounds recursion depth. references is a top-level field, so only
+ * signatures protect it from being rewritten.
+ */
+function checkReferences(
+  bundle: EvidenceBundle,
+  resolver: BundleResolver,
+  options: BundleVerificationOptions,
+  referencePath: string[],
+): VerificationResult {
+  const errors: VerificationError[] = [];
+  const references = bundle.references;
 
-  // Verify items count matches chain length
-  const chain = bundle.immutability_proof.hash_chain;
-  if (bundle.items.length !== chain.length) {
+  if (!Array.isArray(references)) {
     errors.push({
-      code: ErrorCode.LENGTH_MISMATCH,
-      message: `Items count (${bundle.items.length}) does not match chain length (${chain.length})`,
-      details: { items: bundle.items.length, chain: chain.length },
+      code: ErrorCode.INPUT_VALIDATION_FAILED,
+      message: "references must be an array",
+      details: { field: "references", received: typeof references },
     });
+    return { valid: false, errors };
   }
 
-  // Cross-check: chain content_hash, item_id, content_type, sequence should match items
-  for (let seq = 0; seq < bundle.items.length && seq < chain.length; seq++) {
-    const item = bundle.items[seq];
-    const link = chain[seq];
+  const path = [...referencePath, bundle.immutability_proof.root_hash];
+  const maxDepth = options.maxReferenceDepth ?? DEFAULT_MAX_REFERENCE_DEPTH;
 
-    // Verify item.sequence matches its position
-    if (item.sequence !== seq) {
+  for (const reference of references) {
+    const details = { bundle_id: reference?.bundle_id, root_hash: reference?.root_hash };
+    if (typeof reference?.bundle_id !== "string" || typeof reference?.root_hash !== "string") {
       errors.push({
-        code: ErrorCode.SEQUENCE_GAP,
-        message: `Item ${seq} has sequence ${item.sequence}, expected ${seq}`,
-        details: { sequence: seq, item_sequence: item.sequence },
+        code: ErrorCode.INPUT_VALIDATION_FAILED,
+        message: "Bundle reference requires bundle_id and root_hash",
+        details: { field: "references", ...details },
       });
+      continue;
     }
-
-    if (!safeEqual(item.content_hash, link.content_hash)) {
+    if (path.includes(reference.root_hash)) {
       errors.push({
-        code: ErrorCode.CONTENT_HASH_MISMATCH,
-        message: `Item ${seq} content_hash does not match chain link`,
-        details: {
-          sequence: seq,
-          item_hash: item.content_hash,
-          chain_hash: link.content_hash,
-        },
+        code: ErrorCode.REFERENCE_CYCLE,
+        message: `Reference to ${reference.bundle_id} forms a cycle`,
+        details: { ...details, path },
+      });
+      continue;
+    }
+    if (path.length > maxDepth) {
+      errors.push({
+        code: ErrorCode.REFERENCE_DEPTH_EXCEEDED,
+        message: `Reference to ${reference.bundle_id} exceeds depth limit ${maxDepth}`,
+        details: { ...details, max_depth: maxDepth },
       });
+      continue;
     }
 
-    // v0.2.0: verify item_id and content_type are bound to the chain
-    if (link.item_id !== undefined && !safeEqual(item.item_id, link.item_id)) {
+    const referenced = resolver.get(reference);
+    if (!referenced) {
       errors.push({
-        code: ErrorCode.CONTENT_HASH_MISMATCH,
-        message: `Item ${seq} item_id does not match chain link`,
-        details: { sequence: seq, item_id: item.item_id, chain_item_id: link.item_id },
+        code: ErrorCode.REFERENCE_UNRESOLVED,
+        message: `Referenced bundle ${reference.bundle_id} could not be resolved`,
+        details,
+      });
+      continue;
+    }
+    const actualRoot = referenced.immutability_proof?.root_hash;
+    if (referenced.bundle_id !== reference.bundle_id || actualRoot !== reference.root_hash) {
+      errors.push({
+        code: ErrorCode.REFERENCE_MISMATCH,
+        message: `Resolved bundle does not match reference to ${reference.bundle_id}`,
+        details: { ...details, actual_bundle_id: referenced.bundle_id, actual_root_hash: actualRoot },
       });
+      continue;
     }
 
-    if (link.content_type !== undefined && !safeEqual(item.content_type, link.content_type)) {
+    const result = resultFromReport(
+      runBundleSteps(referenced, { ...options, logInclusionProof: undefined, logTreeHead: undefined }, path),
+    );
+    if (!result.valid) {
       errors.push({
-        code: ErrorCode.CONTENT_HASH_MISMATCH,
-        message: `Item ${seq} content_type does not match chain link`,
-        details: { sequence: seq, content_type: item.content_type, chain_content_type: link.content_type },
+        code: ErrorCode.REFERENCE_INVALID,
+        message: `Referenced bundle ${reference.bundle_id} failed verification`,
+        details: { ...details, errors: result.errors },
       });
     }
   }
 
-  const sigResult = verifySignatures(bundle, options);
-  errors.push(...sigResult.errors);
-
   return { valid: errors.length === 0, errors };
 }
+
+/**
+ * Steps for a bundle object, or for bundle bytes with a leading "parse"
+ * step recording the byte length and whether the bytes were canonical.
+ */
+function runInputSteps(
+  input: EvidenceBundle | Uint8Array,
+  options: BundleVerificationOptions | undefined,
+): VerificationReport {
+  if (!(input instanceof Uint8Array)) {
+    return runBundleSteps(input, options, []);
+  }
+  const parsed = tryParseBundle(input);
+  if ("failure" in parsed) {
+    return parseFailureReport(input.length, parsed.failure);
+  }
+  return withParseStep(runBundleSteps(parsed.bundle, options, []), input.length, parsed.canonical);
+}
+
+function runBundleSteps(
+  bundle: EvidenceBundle,
+  options: BundleVerificationOptions | undefined,
+  referencePath: string[],
+): VerificationReport {
+  const { record, finish } = createStepRecorder(bundle);
+  const stoppedReason = runStructureSteps(bundle, options, record);
+  if (stoppedReason !== undefined) {
+    return finish(undefined, stoppedReason);
+  }
+  const proof = bundle.immutability_proof;
+
+  // Verify content hashes
+  const contentResult = verifyContentHashes(bundle.items, options);
+  record(
+    "content_hashes",
+    {
+      items: bundle.items.length,
+      non_redactable_content_types: options?.nonRedactableContentTypes,
+      redacted_items: contentResult.redactedItems,
+    },
+    contentResult.errors,
+  );
+
+  // Verify hash chain. v0.3.0 proofs use v0.2.0 links under a Merkle root,
+  // so their links are checked with v0.2.0 rules once v0.3.0 is accepted.
+  const chainErrors: VerificationError[] = [];
+  const accepted = resolveAcceptedProofVersions(options);
+  let chainOptions: ProofVerificationOptions | undefined = options;
+  if (proof.proof_version === "v0.3.0") {
+    if (!accepted.includes("v0.3.0")) {
+      chainErrors.push({
+        code: ErrorCode.UNSUPPORTED_VERSION,
+        message: "Proof version v0.3.0 is not accepted",
+        details: { proof_version: "v0.3.0", accepted },
+      });
+    }
+    chainOptions = { acceptProofVersions: ["v0.2.0"] };
+  }
+  const chainResult = verifyHashChain(proof.hash_chain, chainOptions);
+  chainErrors.push(...chainResult.errors);
+  record(
+    "hash_chain",
+    {
+      links: Array.isArray(proof.hash_chain) ? proof.hash_chain.length : undefined,
+      proof_version: proof.proof_version ?? "v0.2.0",
+      accepted_proof_versions: accepted,
+    },
+    chainErrors,
+  );
+
+  // Verify root hash
+  record(
+    "root_hash",
+    { proof_version: proof.proof_version ?? "v0.2.0", root_hash: proof.root_hash },
+    verifyRootHash(proof, options).errors,
+  );
+
+  record(
+    "cross_check",
+    { items: bundle.items.length, chain: proof.hash_chain.length },
+    crossCheckErrors(bundle),
+  );
+
+  const sigResult = checkSignatures(bundle, options);
+  // A chain that passed only because legacy proofs were accepted must
+  // still fail for risk tiers that forbid them.
+  const usesLegacyProof =
+    options?.riskTierProfiles !== undefined &&
+    chainResult.valid &&
+    (options.acceptProofVersions ?? []).includes("legacy") &&
+    !verifyHashChain(proof.hash_chain, { acceptProofVersions: ["v0.2.0"] }).valid;
+  recordSignatureAndPolicySteps(
+    bundle,
+    sigResult,
+    { usesLegacyProof, policyHash: options?.policyPack ? computePolicyHash(options.policyPack) : undefined },
+    options,
+    record,
+  );
+
+  const timestampInputs = {
+    timestamps: (bundle.timestamps ?? []).length,
+    tsa_certificates: options?.tsaCertificates?.length ?? 0,
+    require_timestamp: options?.requireTimestamp ?? false,
+  };
+  if (options?.tsaCertificates || options?.requireTimestamp) {
+    record("timestamps", timestampInputs, verifyBundleTimestamps(bundle, options).errors);
+  } else {
+    record("timestamps", timestampInputs, [], "no tsaCertificates given");
+  }
+
+  if (options?.logInclusionProof || options?.logTreeHead) {
+    const logInputs = {
+      log_id: options.logTreeHead?.log_id ?? options.logInclusionProof?.log_id,
+      tree_size: options.logTreeHead?.tree_size,
+      leaf_index: options.logInclusionProof?.leaf_index,
+    };
+    if (!options.logInclusionProof || !options.logTreeHead) {
+      record("log_inclusion", logInputs, [
+        {
+          code: ErrorCode.INPUT_VALIDATION_FAILED,
+          message: "logInclusionProof and logTreeHead must be supplied together",
+          details: { field: options.logInclusionProof ? "logTreeHead" : "logInclusionProof" },
+        },
+      ]);
+    } else {
+      record(
+        "log_inclusion",
+        logInputs,
+        verifyLogInclusion(bundle, options.logInclusionProof, options.logTreeHead, options).errors,
+      );
+    }
+  } else {
+    record("log_inclusion", {}, [], "no logInclusionProof given");
+  }
+
+  const referenceInputs = {
+    references: bundle.references?.length ?? 0,
+    depth: referencePath.length,
+    max_reference_depth: options?.maxReferenceDepth ?? DEFAULT_MAX_REFERENCE_DEPTH,
+  };
+  if (!options?.bundleResolver) {
+    record("references", referenceInputs, [], "no bundleResolver given");
+  } else if (bundle.references === undefined) {
+    record("references", referenceInputs, [], "bundle has no references");
+  } else {
+    record(
+      "references",
+      referenceInputs,
+      checkReferences(bundle, options.bundleResolver, options, referencePath).errors,
+    );
+  }
+
+  return finish(contentResult.redactedItems);
+}
+
+/**
+ * Verify a bundle and report every step: its status, why it was skipped,
+ * and the inputs it used. Runs exactly the checks verifyBundle runs, in
+ * the same order; flattening the step errors gives verifyBundle's result.
+ *
+ * Trace rationale: a flat error list cannot show that a check never ran.
+ * Here an unsigned bundle has a skipped "signatures" step, each signature
+ * has its own step naming where its key came from (key_source "none" when
+ * no key or hmacSecret was supplied), and steps that could not run after
+ * an early stop are listed as skipped with the reason.
+ */
+export function verifyBundleDetailed(
+  bundle: EvidenceBundle | Uint8Array,
+  options?: BundleVerificationOptions,
+): VerificationReport {
+  return runInputSteps(bundle, options);
+}
+
+/**
+ * Stable serialization of a report for archiving next to the bundle:
+ * canonical JSON (RFC 8785), so the same verification produces the same
+ * bytes.
+ */
+export function verificationReportJson(report: VerificationReport): string {
+  return canonicalJson(report);
+}
@@ -0,0 +1,780 @@
+/**
+ * WebCrypto sealing and verification for @guardspine/kernel.
+ * Async counterparts of computeContentHash, sealBundle, verifyBundle and
+ * verifySignatures built on globalThis.crypto.subtle, with no Node
+ * built-ins, for browsers and other non-Node runtimes (see browser.ts).
+ * Hashes, proofs and verification results are identical to the node:crypto
+ * functions of the same names: everything but the digest, sign and
+ * verify calls is shared with the Node path through sealing.ts and
+ * checks.ts.
+ *
+ * WebCrypto has no SHA-3, so sha3-256 bundles are neither sealed nor
+ * accepted here. Timestamps, transparency log proofs and bundle references
+ * are not verified; use the Node entry point for those.
+ */
+
+import { canonicalJson } from "./canonical.js";
+import type { CanonicalJsonOptions } from "./canonical.js";
+import { DEFAULT_HASH_ALGORITHM, GENESIS_HASH, SUPPORTED_HASH_ALGORITHMS, hashAlgorithmOf } from "./algorithms.js";
+import type { HashAlgorithm } from "./algorithms.js";
+import {
+  checkHashAlgorithm,
+  constantTimeEqual,
+  createStepRecorder,
+  crossCheckErrors,
+  parseFailureReport,
+  recordSignatureAndPolicySteps,
+  resolveAcceptedProofVersions,
+  resolveSignatureKey,
+  resultFromReport,
+  runStructureSteps,
+  summarizeSignatures,
+  withParseStep,
+} from "./checks.js";
+import type { SignatureCheck, SignatureKey, SignatureOutcome } from "./checks.js";
+import { ErrorCode } from "./errors.js";
+import type { VerificationError, VerificationResult } from "./errors.js";
+import { tryParseBundle } from "./parse.js";
+import { isRedactedContent } from "./redact.js";
+import type { SealOptions, SealResult } from "./seal.js";
+import {
+  canonicalItemContent,
+  chainHashInput,
+  checkChainLength,
+  itemLeafData,
+  merkleLeafInput,
+  merkleNodeInput,
+  merkleSplit,
+  policyBindingFields,
+  resolveHashAlgorithm,
+  resolveProofVersion,
+  sealInputs,
+  sealResult,
+  signingPayloadJson,
+} from "./sealing.js";
+import type {
+  EvidenceBundle,
+  EvidenceItem,
+  HashChain,
+  HashChainLink,
+  ImmutabilityProof,
+  Signature,
+} from "./schemas/evidence-bundle.js";
+import type {
+  PolicyVerificationOptions,
+  ProofVerificationOptions,
+  PublicKeyMaterial,
+  RedactionVerificationOptions,
+  RiskTierVerificationOptions,
+  SchemaVerificationOptions,
+  SignatureVerificationOptions,
+  VerificationReport,
+} from "./verify.js";
+
+/** Hash algorithms WebCrypto implements; it has no SHA-3. */
+export const WEBCRYPTO_HASH_ALGORITHMS: HashAlgorithm[] = ["sha256", "sha384", "sha512"];
+
+export type WebCryptoVerificationOptions = SchemaVerificationOptions &
+  SignatureVerificationOptions &
+  ProofVerificationOptions &
+  PolicyVerificationOptions &
+  RiskTierVerificationOptions &
+  RedactionVerificationOptions;
+
+const DIGEST_NAMES: Partial<Record<HashAlgorithm, string>> = {
+  sha256: "SHA-256",
+  sha384: "SHA-384",
+  sha512: "SHA-512",
+};
+
+const textEncoder = new TextEncoder();
+
+function subtleCrypto(caller: string) {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error(`${caller}: globalThis.crypto.subtle is not available (WebCrypto needs a secure context)`);
+  }
+  return subtle;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+}
+
+/** Decoded base64, or null if it is not valid base64. */
+function base64ToBytes(text: string): Uint8Array<ArrayBuffer> | null {
+  try {
+    return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/** Hash a UTF-8 string. Resolves to "<algorithm>:<hex>". Rejects sha3-256. */
+export async function hashString(
+  data: string,
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM,
+): Promise<string> {
+  const name = DIGEST_NAMES[algorithm];
+  if (!name) {
+    throw new Error(`hashString: hash algorithm ${String(algorithm)} is not available in WebCrypto`);
+  }
+  const digest = await subtleCrypto("hashString").digest(name, textEncoder.encode(data));
+  return `${algorithm}:${bytesToHex(new Uint8Array(digest))}`;
+}
+
+/**
+ * Hash of the canonical JSON representation of an object, as
+ * computeContentHash in seal.ts computes it.
+ */
+export async function computeContentHash(
+  content: object,
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM,
+  canonicalOptions?: CanonicalJsonOptions,
+): Promise<string> {
+  return hashString(canonicalJson(content, canonicalOptions), algorithm);
+}
+
+/** RFC 9162 tree hash over leaves[start, end), as merkleRoot in merkle.ts. */
+async function subtreeRoot(
+  leaves: string[],
+  start: number,
+  end: number,
+  algorithm: HashAlgorithm,
+): Promise<string> {
+  const n = end - start;
+  if (n === 1) {
+    return leaves[start];
+  }
+  const k = merkleSplit(n);
+  const [left, right] = await Promise.all([
+    subtreeRoot(leaves, start, start + k, algorithm),
+    subtreeRoot(leaves, start + k, end, algorithm),
+  ]);
+  return hashString(merkleNodeInput(left, right), algorithm);
+}
+
+/** root_hash of a v0.2.0 chain, or of a v0.3.0 chain when merkle is set. */
+async function computeRoot(chain: HashChain, algorithm: HashAlgorithm, merkle: boolean): Promise<string> {
+  if (!merkle) {
+    return hashString(chain.map((link) => link.chain_hash).join(""), algorithm);
+  }
+  const leaves = await Promise.all(
+    chain.map((link) =>
+      hashString(
+        merkleLeafInput(itemLeafData(link.sequence, link.item_id, link.content_type, link.content_hash)),
+        algorithm,
+      ),
+    ),
+  );
+  return subtreeRoot(leaves, 0, leaves.length, algorithm);
+}
+
+/**
+ * Seal a partial bundle with WebCrypto. Same contract and output as
+ * sealBundle in seal.ts, except that sha3-256 is rejected.
+ */
+export async function sealBundle(
+  bundle: Partial<EvidenceBundle> & { items: Partial<EvidenceItem>[] },
+  options?: SealOptions,
+): Promise<SealResult> {
+  const chainInputs = sealInputs(bundle, options);
+  const policyPack = options?.policyPack;
+  const policyBinding = policyPack
+    ? { ...policyBindingFields(policyPack), policy_hash: await computeContentHash(policyPack) }
+    : undefined;
+
+  // buildHashChain's checks, in its order.
+  checkChainLength("buildHashChain", chainInputs.length);
+  const version = resolveProofVersion(options);
+  const algorithm = resolveHashAlgorithm(options);
+  if (!WEBCRYPTO_HASH_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`sealBundle: hash algorithm ${algorithm} is not available in WebCrypto`);
+  }
+
+  const strict = (options?.canonicalization ?? "strict") === "strict";
+  const contentHashes = await Promise.all(
+    chainInputs.map((item, seq) => hashString(canonicalItemContent("buildHashChain", seq, item, strict), algorithm)),
+  );
+  const chain: HashChainLink[] = [];
+  for (let seq = 0; seq < chainInputs.length; seq++) {
+    const link = {
+      sequence: seq,
+      item_id: chainInputs[seq].contentId,
+      content_type: chainInputs[seq].contentType,
+      content_hash: contentHashes[seq],
+      previous_hash: seq === 0 ? GENESIS_HASH : chain[seq - 1].chain_hash,
+    };
+    chain.push({ ...link, chain_hash: await hashString(chainHashInput(link, version), algorithm) });
+  }
+
+  const merkle = version === "v0.3.0";
+  const rootHash = await computeRoot(chain, algorithm, merkle);
+  return sealResult(bundle.items, chain, rootHash, algorithm, merkle, policyBinding);
+}
+
+// ---------------------------------------------------------------------------
+// Signatures
+// ---------------------------------------------------------------------------
+
+type PublicKeyAlgorithm = Exclude<SignatureKey["algorithm"], "hmac-sha256">;
+type SubtleCryptoApi = typeof globalThis.crypto.subtle;
+
+const ED25519_SPKI_PREFIX = [0x30, 0x2a, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x03, 0x21, 0x00];
+
+/**
+ * importKey parameters for each key type WebCrypto can verify with, named
+ * as describeKeyType in sign.ts names them. The first entry for each
+ * signature algorithm is the one it verifies with.
+ */
+const KEY_IMPORTS: {
+  keyType: string;
+  algorithm: PublicKeyAlgorithm | null;
+  params: Parameters<SubtleCryptoApi["importKey"]>[2];
+}[] = [
+  { keyType: "ed25519", algorithm: "ed25519", params: { name: "Ed25519" } },
+  { keyType: "rsa", algorithm: "rsa-sha256", params: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" } },
+  { keyType: "ec/prime256v1", algorithm: "ecdsa-p256", params: { name: "ECDSA", namedCurve: "P-256" } },
+  { keyType: "ec/secp384r1", algorithm: null, params: { name: "ECDSA", namedCurve: "P-384" } },
+  { keyType: "ec/secp521r1", algorithm: null, params: { name: "ECDSA", namedCurve: "P-521" } },
+];
+
+const VERIFY_PARAMS: Record<PublicKeyAlgorithm, Parameters<SubtleCryptoApi["verify"]>[0]> = {
+  "ed25519": { name: "Ed25519" },
+  "rsa-sha256": { name: "RSASSA-PKCS1-v1_5" },
+  "ecdsa-p256": { name: "ECDSA", hash: "SHA-256" },
+};
+
+/**
+ * SubjectPublicKeyInfo DER from PEM or base64 key material, as
+ * keyMaterialToKeyObject in verify.ts reads it. WebCrypto only imports
+ * SPKI, so PEM labels other than PUBLIC KEY are not readable here.
+ */
+function spkiFromString(material: string): Uint8Array<ArrayBuffer> | null {
+  if (material.startsWith("-----BEGIN")) {
+    const match = /^-----BEGIN PUBLIC KEY-----([A-Za-z0-9+/=\s]+)-----END PUBLIC KEY-----\s*$/.exec(material);
+    return match ? base64ToBytes(match[1].replace(/\s+/g, "")) : null;
+  }
+  const raw = base64ToBytes(material);
+  if (raw && raw.length === 32) {
+    return Uint8Array.from([...ED25519_SPKI_PREFIX, ...raw]);
+  }
+  return raw;
+}
+
+/**
+ * Import key material for algo. A string key that does not import for algo
+ * is tried as the other key types, so a wrong key type is reported as such
+ * rather than as unreadable.
+ */
+async function importPublicKey(
+  material: PublicKeyMaterial,
+  algo: PublicKeyAlgorithm,
+): Promise<{ key: CryptoKey } | { keyType: string } | null> {
+  const subtle = subtleCrypto("verifySignatures");
+  const primary = KEY_IMPORTS.find((entry) => entry.algorithm === algo)!;
+  try {
+    if (typeof material !== "string") {
+      // jwkAlgorithmMismatch has already matched kty and crv to algo.
+      const { kty, crv, x, y, n, e } = material;
+      const publicJwk = Object.fromEntries(
+        Object.entries({ kty, crv, x, y, n, e }).filter(([, v]) => v !== undefined),
+      );
+      return { key: await subtle.importKey("jwk", publicJwk, primary.params, true, ["verify"]) };
+    }
+  } catch {
+    return null;
+  }
+
+  const spki = spkiFromString(material);
+  if (!spki) {
+    return null;
+  }
+  for (const entry of [primary, ...KEY_IMPORTS.filter((other) => other !== primary)]) {
+    try {
+      const key = await subtle.importKey("spki", spki, entry.params, true, ["verify"]);
+      return entry === primary ? { key } : { keyType: entry.keyType };
+    } catch {
+      // Not this key type.
+    }
+  }
+  return null;
+}
+
+/**
+ * ECDSA signatures are DER SEQUENCE { r, s } (what node:crypto produces and
+ * expects); WebCrypto verifies the fixed-width r || s form. Returns null
+ * for anything that is not minimally encoded DER.
+ */
+function ecdsaDerToP1363(der: Uint8Array, size: number): Uint8Array<ArrayBuffer> | null {
+  if (der.length < 8 || der[0] !== 0x30 || der[1] !== der.length - 2) {
+    return null;
+  }
+  const out = new Uint8Array(2 * size);
+  let pos = 2;
+  for (let part = 0; part < 2; part++) {
+    const length = der[pos + 1];
+    let value = der.subarray(pos + 2, pos + 2 + length);
+    if (der[pos] !== 0x02 || length === 0 || value.length !== length || (value[0] & 0x80) !== 0) {
+      return null;
+    }
+    if (value[0] === 0 && value.length > 1) {
+      if ((value[1] & 0x80) === 0) {
+        return null;
+      }
+      value = value.subarray(1);
+    }
+    if (value.length > size) {
+      return null;
+    }
+    out.set(value, part * size + size - value.length);
+    pos += 2 + length;
+  }
+  return pos === der.length ? out : null;
+}
+
+/** Same checks and errors as verifySignatureEntry in verify.ts. */
+async function verifySignatureEntry(
+  sig: Signature,
+  content: Uint8Array<ArrayBuffer>,
+  options: SignatureVerificationOptions | undefined,
+): Promise<SignatureOutcome> {
+  const key = resolveSignatureKey(sig, options);
+  if ("error" in key) {
+    return key;
+  }
+  const subtle = subtleCrypto("verifySignatures");
+  const signatureValue = sig.signature_value;
+
+  if (key.algorithm === "hmac-sha256") {
+    const hmacKey = await subtle.importKey(
+      "raw",
+      textEncoder.encode(key.secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+    const expected = bytesToBase64(new Uint8Array(await subtle.sign("HMAC", hmacKey, content)));
+    if (!constantTimeEqual(expected, signatureValue)) {
+      return {
+        error: {
+          code: ErrorCode.SIGNATURE_INVALID,
+          message: "HMAC signature verification failed",
+          details: { signature_id: sig.signature_id },
+        },
+      };
+    }
+    return { keyFingerprint: "hmac-sha256" };
+  }
+
+  const algo = key.algorithm;
+  const imported = await importPublicKey(key.material, algo);
+  if (!imported) {
+    return {
+      error: {
+        code: ErrorCode.SIGNATURE_INVALID,
+        message: "Public key for signature could not be parsed",
+        details: { signature_id: sig.signature_id, public_key_id: sig.public_key_id },
+      },
+    };
+  }
+
+  if (!("key" in imported)) {
+    return {
+      error: {
+        code: ErrorCode.KEY_ALGORITHM_MISMATCH,
+        message: `Key type ${imported.keyType} cannot verify ${algo} signature`,
+        details: {
+          signature_id: sig.signature_id,
+          public_key_id: sig.public_key_id,
+          algorithm: algo,
+          key_type: imported.keyType,
+        },
+      },
+    };
+  }
+
+  let signatureBytes = base64ToBytes(signatureValue);
+  if (signatureBytes && algo === "ecdsa-p256") {
+    signatureBytes = ecdsaDerToP1363(signatureBytes, 32);
+  }
+  let ok = false;
+  if (signatureBytes) {
+    try {
+      ok = await subtle.verify(VERIFY_PARAMS[algo], imported.key, signatureBytes, content);
+    } catch {
+      ok = false;
+    }
+  }
+
+  if (!ok) {
+    return {
+      error: {
+        code: ErrorCode.SIGNATURE_INVALID,
+        message: "Signature verification failed",
+        details: { signature_id: sig.signature_id, algorithm: sig.algorithm },
+      },
+    };
+  }
+  return {
+    keyId: key.keyId,
+    keyFingerprint: bytesToBase64(new Uint8Array(await subtle.exportKey("spki", imported.key))),
+  };
+}
+
+async function checkSignatures(
+  bundle: EvidenceBundle,
+  options?: SignatureVerificationOptions,
+): Promise<SignatureCheck> {
+  const signatures = bundle.signatures ?? [];
+  if (signatures.length === 0 && !options?.signaturePolicy) {
+    return summarizeSignatures([], [], options);
+  }
+
+  const content = textEncoder.encode(signingPayloadJson(bundle));
+  return summarizeSignatures(
+    signatures,
+    await Promise.all(signatures.map((sig) => verifySignatureEntry(sig, content, options))),
+    options,
+  );
+}
+
+/** verifySignatures with WebCrypto; same results as the node:crypto version. */
+export async function verifySignatures(
+  bundle: EvidenceBundle,
+  options?: SignatureVerificationOptions,
+): Promise<VerificationResult> {
+  const { errors } = await checkSignatures(bundle, options);
+  return { valid: errors.length === 0, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Proofs
+// ---------------------------------------------------------------------------
+
+/** verifyContentHashes in verify.ts, hashing with WebCrypto. */
+async function verifyContentHashes(
+  items: EvidenceItem[],
+  options: RedactionVerificationOptions & ProofVerificationOptions,
+): Promise<VerificationResult> {
+  const errors: VerificationError[] = [];
+  const redactedItems: string[] = [];
+  const nonRedactable = options.nonRedactableContentTypes ?? [];
+
+  if (!Array.isArray(items) || items.length === 0) {
+    errors.push({
+      code: ErrorCode.INPUT_VALIDATION_FAILED,
+      message: "Items must be a non-empty array",
+      details: { received: Array.isArray(items) ? "empty array" : typeof items },
+    });
+    return { valid: false, errors };
+  }
+
+  for (const item of items) {
+    const algorithm = hashAlgorithmOf(item.content_hash) ?? DEFAULT_HASH_ALGORITHM;
+    const algorithmError = checkHashAlgorithm(algorithm, options);
+    if (algorithmError) {
+      errors.push({ ...algorithmError, details: { ...algorithmError.details, item_id: item.item_id } });
+      continue;
+    }
+    const expected = await computeContentHash(item.content, algorithm);
+    if (!constantTimeEqual(item.content_hash, expected) && isRedactedContent(item.content)) {
+      if (nonRedactable.includes(item.content_type)) {
+        errors.push({
+          code: ErrorCode.REDACTION_NOT_ALLOWED,
+          message: `Item ${item.item_id} of content_type ${item.content_type} must not be redacted`,
+          details: { item_id: item.item_id, content_type: item.content_type },
+        });
+      } else {
+        redactedItems.push(item.item_id);
+      }
+    } else if (!constantTimeEqual(item.content_hash, expected)) {
+      errors.push({
+        code: ErrorCode.CONTENT_HASH_MISMATCH,
+        message: `Content hash mismatch for item ${item.item_id}`,
+        details: { item_id: item.item_id, expected, actual: item.content_hash },
+      });
+    }
+  }
+
+  return redactedItems.length > 0
+    ? { valid: errors.length === 0, errors, redactedItems }
+    : { valid: errors.length === 0, errors };
+}
+
+/** verifyHashChain in verify.ts, hashing with WebCrypto. */
+async function verifyHashChain(
+  chain: HashChain,
+  options: ProofVerificationOptions,
+): Promise<VerificationResult> {
+  const errors: VerificationError[] = [];
+  const acceptedVersions = resolveAcceptedProofVersions(options);
+
+  if (!Array.isArray(chain) || chain.length === 0) {
+    errors.push({
+      code: ErrorCode.INPUT_VALIDATION_FAILED,
+      message: "Hash chain must be a non-empty array",
+      details: { received: Array.isArray(chain) ? "empty array" : typeof chain },
+    });
+    return { valid: false, errors };
+  }
+
+  const algorithm = hashAlgorithmOf(chain[0].chain_hash) ?? DEFAULT_HASH_ALGORITHM;
+  const algorithmError = checkHashAlgorithm(algorithm, options);
+  if (algorithmError) {
+    errors.push(algorithmError);
+    return { valid: false, errors };
+  }
+
+  const allowV020 = acceptedVersions.includes("v0.2.0");
+  const allowLegacy = acceptedVersions.includes("legacy");
+  for (let seq = 0; seq < chain.length; seq++) {
+    const link = chain[seq];
+
+    if (link.sequence !== seq) {
+      errors.push({
+        code: ErrorCode.SEQUENCE_GAP,
+        message: `Expected sequence ${seq}, got ${link.sequence}`,
+        details: { expected: seq, actual: link.sequence },
+      });
+    }
+
+    const expectedPrev = seq === 0 ? GENESIS_HASH : chain[seq - 1].chain_hash;
+    if (!constantTimeEqual(link.previous_hash, expectedPrev)) {
+      errors.push({
+        code: ErrorCode.HASH_CHAIN_BROKEN,
+        message: `Chain broken at sequence ${seq}: previous_hash mismatch`,
+        details: { sequence: seq, expected: expectedPrev, actual: link.previous_hash },
+      });
+    }
+
+    const hasV020Fields = typeof link.item_id === "string" && typeof link.content_type === "string";
+    let chainValid = false;
+
+    if (allowV020) {
+      if (!hasV020Fields && !allowLegacy) {
+        errors.push({
+          code: ErrorCode.HASH_CHAIN_BROKEN,
+          message: `Chain hash missing item_id/content_type at sequence ${seq}`,
+          details: { sequence: seq },
+        });
+      } else if (
+        hasV020Fields &&
+        constantTimeEqual(link.chain_hash, await hashString(chainHashInput(link, "v0.2.0"), algorithm))
+      ) {
+        chainValid = true;
+      }
+    }
+
+    if (
+      !chainValid &&
+      allowLegacy &&
+      constantTimeEqual(link.chain_hash, await hashString(chainHashInput(link, "legacy"), algorithm))
+    ) {
+      chainValid = true;
+    }
+
+    if (!chainValid) {
+      errors.push({
+        code: ErrorCode.HASH_CHAIN_BROKEN,
+        message: `Chain hash mismatch at sequence ${seq}`,
+        details: {
+          sequence: seq,
+          expected_version: allowV020 ? "v0.2.0" : allowLegacy ? "legacy" : "none",
+          actual: link.chain_hash,
+        },
+      });
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/** verifyRootHash in verify.ts, hashing with WebCrypto. */
+async function verifyRootHash(
+  proof: ImmutabilityProof,
+  options: ProofVerificationOptions,
+): Promise<VerificationResult> {
+  const errors: VerificationError[] = [];
+
+  if (!proof || !Array.isArray(proof.hash_chain) || proof.hash_chain.length === 0) {
+    errors.push({
+      code: ErrorCode.INPUT_VALIDATION_FAILED,
+      message: "Immutability proof must contain a non-empty hash_chain",
+      details: { received: proof ? typeof proof.hash_chain : "null proof" },
+    });
+    return { valid: false, errors };
+  }
+
+  if (proof.proof_version !== undefined && proof.proof_version !== "v0.3.0") {
+    errors.push({
+      code: ErrorCode.UNSUPPORTED_VERSION,
+      message: `Unsupported proof_version: ${String(proof.proof_version)}`,
+      details: { proof_version: proof.proof_version, supported: ["v0.3.0"] },
+    });
+    return { valid: false, errors };
+  }
+
+  const algorithm = proof.hash_algorithm ?? DEFAULT_HASH_ALGORITHM;
+  const algorithmError = checkHashAlgorithm(algorithm, options);
+  if (algorithmError) {
+    errors.push(algorithmError);
+    return { valid: false, errors };
+  }
+
+  const expected = await computeRoot(proof.hash_chain, algorithm, proof.proof_version === "v0.3.0");
+  if (!constantTimeEqual(proof.root_hash, expected)) {
+    errors.push({
+      code: ErrorCode.ROOT_HASH_MISMATCH,
+      message: "Root hash does not match computed value",
+      details: { expected, actual: proof.root_hash },
+    });
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Bundles
+// ---------------------------------------------------------------------------
+
+/** Steps that need Node and are always skipped here. */
+const NODE_ONLY_STEPS = ["timestamps", "log_inclusion", "references"];
+
+/**
+ * runBundleSteps in verify.ts with WebCrypto hashing and signatures. Hash
+ * algorithms WebCrypto lacks are dropped from the accepted list, so a
+ * sha3-256 bundle fails as HASH_ALGORITHM_NOT_ALLOWED.
+ */
+async function runBundleSteps(
+  bundle: EvidenceBundle,
+  webOptions: WebCryptoVerificationOptions | undefined,
+): Promise<VerificationReport> {
+  const options: WebCryptoVerificationOptions = {
+    ...webOptions,
+    acceptHashAlgorithms: (webOptions?.acceptHashAlgorithms ?? SUPPORTED_HASH_ALGORITHMS).filter(
+      (algorithm) => WEBCRYPTO_HASH_ALGORITHMS.includes(algorithm),
+    ),
+  };
+  const { record, finish } = createStepRecorder(bundle);
+  const stoppedReason = runStructureSteps(bundle, options, record);
+  if (stoppedReason !== undefined) {
+    return finish(undefined, stoppedReason);
+  }
+  const proof = bundle.immutability_proof;
+
+  const contentResult = await verifyContentHashes(bundle.items, options);
+  record(
+    "content_hashes",
+    {
+      items: bundle.items.length,
+      non_redactable_content_types: options.nonRedactableContentTypes,
+      redacted_items: contentResult.redactedItems,
+    },
+    contentResult.errors,
+  );
+
+  // v0.3.0 links are v0.2.0 links under a Merkle root, as in verify.ts.
+  const chainErrors: VerificationError[] = [];
+  const accepted = resolveAcceptedProofVersions(options);
+  let chainOptions: ProofVerificationOptions = options;
+  if (proof.proof_version === "v0.3.0") {
+    if (!accepted.includes("v0.3.0")) {
+      chainErrors.push({
+        code: ErrorCode.UNSUPPORTED_VERSION,
+        message: "Proof version v0.3.0 is not accepted",
+        details: { proof_version: "v0.3.0", accepted },
+      });
+    }
+    chainOptions = { acceptProofVersions: ["v0.2.0"], acceptHashAlgorithms: options.acceptHashAlgorithms };
+  }
+  const chainResult = await verifyHashChain(proof.hash_chain, chainOptions);
+  chainErrors.push(...chainResult.errors);
+  record(
+    "hash_chain",
+    {
+      links: Array.isArray(proof.hash_chain) ? proof.hash_chain.length : undefined,
+      proof_version: proof.proof_version ?? "v0.2.0",
+      accepted_proof_versions: accepted,
+    },
+    chainErrors,
+  );
+
+  record(
+    "root_hash",
+    { proof_version: proof.proof_version ?? "v0.2.0", root_hash: proof.root_hash },
+    (await verifyRootHash(proof, options)).errors,
+  );
+
+  record(
+    "cross_check",
+    { items: bundle.items.length, chain: proof.hash_chain.length },
+    crossCheckErrors(bundle),
+  );
+
+  const sigResult = await checkSignatures(bundle, options);
+  const usesLegacyProof =
+    options.riskTierProfiles !== undefined &&
+    chainResult.valid &&
+    (options.acceptProofVersions ?? []).includes("legacy") &&
+    !(await verifyHashChain(proof.hash_chain, { ...options, acceptProofVersions: ["v0.2.0"] })).valid;
+  recordSignatureAndPolicySteps(
+    bundle,
+    sigResult,
+    { usesLegacyProof, policyHash: options.policyPack ? await computeContentHash(options.policyPack) : undefined },
+    options,
+    record,
+  );
+
+  for (const step of NODE_ONLY_STEPS) {
+    record(step, {}, [], "not supported by the WebCrypto verifier");
+  }
+  return finish(contentResult.redactedItems);
+}
+
+async function runInputSteps(
+  input: EvidenceBundle | Uint8Array,
+  options: WebCryptoVerificationOptions | undefined,
+): Promise<VerificationReport> {
+  if (!(input instanceof Uint8Array)) {
+    return runBundleSteps(input, options);
+  }
+  const parsed = tryParseBundle(input);
+  if ("failure" in parsed) {
+    return parseFailureReport(input.length, parsed.failure);
+  }
+  return withParseStep(await runBundleSteps(parsed.bundle, options), input.length, parsed.canonical);
+}
+
+/**
+ * Verify a bundle with WebCrypto: schema, required fields, sanitization
+ * attestation, content hashes, chain, root, cross-check, signatures and
+ * signature policy, risk tier and policy binding. Resolves to the same
+ * result as verifyBundle in verify.ts for the same options.
+ *
+ * Trace rationale: every step that needs no cryptography runs through the
+ * same code as the Node verifier (checks.ts), and the hashing and
+ * signature steps mirror it message for message, so a review UI and a CI
+ * job never disagree about a bundle.
+ */
+export async function verifyBundle(
+  bundle: EvidenceBundle | Uint8Array,
+  options?: WebCryptoVerificationOptions,
+): Promise<VerificationResult> {
+  return resultFromReport(await runInputSteps(bundle, options));
+}
+
+/**
+ * verifyBundleDetailed with WebCrypto. The timestamps, log_inclusion and
+ * references steps are always skipped.
+ */
+export async function verifyBundleDetailed(
+  bundle: EvidenceBundle | Uint8Array,
+  options?: WebCryptoVerificationOptions,
+): Promise<VerificationReport> {
+  return runInputSteps(bundle, options);
+}
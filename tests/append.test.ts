@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  appendItems,
+  generateInclusionProof,
+  sealBundle,
+  signBundle,
+  verifyBundle,
+  verifyConsistency,
+  verifyInclusionProof,
+  ErrorCode,
+} from "../src/index.js";
+import type { EvidenceBundle, ProofVersion } from "../src/index.js";
+
+function makeValidBundle(proofVersion: ProofVersion = "v0.2.0"): EvidenceBundle {
+  const result = sealBundle(
+    {
+      items: [
+        { item_id: "ci-1", content_type: "guardspine/test-result", content: { passed: true } },
+        { item_id: "ci-2", content_type: "guardspine/lint-result", content: { errors: 0 } },
+      ],
+    },
+    { proofVersion },
+  );
+
+  return {
+    bundle_id: "test-bundle-001",
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+  };
+}
+
+const approval = {
+  item_id: "approval-1",
+  content_type: "guardspine/approval",
+  content: { approver: "alice" },
+};
+
+describe("appendItems", () => {
+  it("extends the chain without touching prior links", () => {
+    const older = makeValidBundle();
+    const newer = appendItems(older, [approval]);
+    const chain = newer.immutability_proof.hash_chain;
+
+    expect(chain.slice(0, 2)).toEqual(older.immutability_proof.hash_chain);
+    expect(chain[2].sequence).toBe(2);
+    expect(chain[2].previous_hash).toBe(chain[1].chain_hash);
+    expect(newer.items[2]).toMatchObject({ item_id: "approval-1", sequence: 2 });
+    expect(older.items).toHaveLength(2);
+    expect(verifyBundle(newer)).toEqual({ valid: true, errors: [] });
+  });
+
+  it("produces the same proof as sealing everything at once", () => {
+    const appended = appendItems(makeValidBundle(), [approval]);
+    const sealed = sealBundle({ items: [...makeValidBundle().items, approval] });
+    expect(appended.immutability_proof).toEqual(sealed.immutabilityProof);
+  });
+
+  it("keeps v0.3.0 Merkle roots", () => {
+    const newer = appendItems(makeValidBundle("v0.3.0"), [approval]);
+    expect(newer.immutability_proof.proof_version).toBe("v0.3.0");
+    expect(verifyBundle(newer).valid).toBe(true);
+    const proof = generateInclusionProof(newer, "approval-1");
+    expect(verifyInclusionProof(proof, newer.immutability_proof.root_hash).valid).toBe(true);
+  });
+
+  it("drops signatures over the old root", () => {
+    const signed = signBundle(makeValidBundle(), {
+      algorithm: "hmac-sha256",
+      signerId: "ci",
+      hmacSecret: "x",
+    });
+    expect(appendItems(signed, [approval]).signatures).toBeUndefined();
+  });
+
+  it("refuses to extend a tampered chain", () => {
+    const bundle = makeValidBundle();
+    bundle.immutability_proof.root_hash = `sha256:${"0".repeat(64)}`;
+    expect(() => appendItems(bundle, [approval])).toThrow(/does not verify \(ROOT_HASH_MISMATCH\)/);
+  });
+
+  it("rejects duplicate or incomplete items", () => {
+    expect(() => appendItems(makeValidBundle(), [{ ...approval, item_id: "ci-1" }])).toThrow(
+      /duplicate item_id/,
+    );
+    expect(() => appendItems(makeValidBundle(), [{ item_id: "x", content: {} }])).toThrow(
+      /missing content_type/,
+    );
+    expect(() => appendItems(makeValidBundle(), [])).toThrow(/non-empty/);
+  });
+});
+
+describe("verifyConsistency", () => {
+  it("accepts an append-only extension and an identical bundle", () => {
+    const older = makeValidBundle();
+    const newer = appendItems(appendItems(older, [approval]), [
+      { item_id: "approval-2", content_type: "guardspine/approval", content: { approver: "bob" } },
+    ]);
+    expect(verifyConsistency(older, newer)).toEqual({ valid: true, errors: [] });
+    expect(verifyConsistency(older, older)).toEqual({ valid: true, errors: [] });
+  });
+
+  it("detects rewritten history", () => {
+    const older = makeValidBundle();
+    const rewritten = sealBundle({
+      items: [
+        { item_id: "ci-1", content_type: "guardspine/test-result", content: { passed: false } },
+        { item_id: "ci-2", content_type: "guardspine/lint-result", content: { errors: 0 } },
+        approval,
+      ],
+    });
+    const newer = { ...older, items: rewritten.items, immutability_proof: rewritten.immutabilityProof };
+    const result = verifyConsistency(older, newer);
+    expect(result.valid).toBe(false);
+    expect(result.errors.every((e) => e.code === ErrorCode.HISTORY_REWRITTEN)).toBe(true);
+    expect(result.errors[0].details).toMatchObject({ sequence: 0, field: "content_hash" });
+  });
+
+  it("detects truncation", () => {
+    const newer = appendItems(makeValidBundle(), [approval]);
+    const result = verifyConsistency(newer, makeValidBundle());
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.CHAIN_TRUNCATED]);
+  });
+
+  it("detects a changed bundle id or proof version", () => {
+    const older = makeValidBundle();
+    const renamed = { ...appendItems(older, [approval]), bundle_id: "other" };
+    expect(verifyConsistency(older, renamed).errors[0].details).toMatchObject({ field: "bundle_id" });
+
+    const merkle = appendItems(makeValidBundle("v0.3.0"), [approval]);
+    const result = verifyConsistency(older, merkle);
+    expect(result.errors.map((e) => e.details?.field)).toEqual(["proof_version"]);
+  });
+
+  it("reports a newer bundle whose own root does not verify", () => {
+    const older = makeValidBundle();
+    const newer = appendItems(older, [approval]);
+    newer.immutability_proof.root_hash = older.immutability_proof.root_hash;
+    expect(verifyConsistency(older, newer).errors.map((e) => e.code)).toEqual([
+      ErrorCode.ROOT_HASH_MISMATCH,
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { readFileSync } from "node:fs";
+import * as node from "../src/index.js";
+import * as browser from "../src/browser.js";
+import type { EvidenceBundle, Jwk, SignatureAlgorithm } from "../src/index.js";
+
+function loadFixture(name: string): EvidenceBundle {
+  const raw = readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf-8");
+  return JSON.parse(raw) as EvidenceBundle;
+}
+
+const FIXTURES = ["local-council.bundle.json", "openclaw-hardening.bundle.json"];
+
+function unsealed(bundle: EvidenceBundle) {
+  return {
+    items: bundle.items.map(({ item_id, content_type, content }) => ({ item_id, content_type, content })),
+  };
+}
+
+function makeValidBundle(): EvidenceBundle {
+  const result = node.sealBundle({
+    items: [
+      { item_id: "i1", content_type: "test/a", content: { val: 1 } },
+      { item_id: "i2", content_type: "test/b", content: { val: 2 } },
+    ],
+  });
+  return {
+    bundle_id: "test-bundle-001",
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+  };
+}
+
+function keyPair(algorithm: SignatureAlgorithm) {
+  const pair =
+    algorithm === "rsa-sha256"
+      ? generateKeyPairSync("rsa", { modulusLength: 2048 })
+      : algorithm === "ecdsa-p256"
+        ? generateKeyPairSync("ec", { namedCurve: "prime256v1" })
+        : generateKeyPairSync("ed25519");
+  return {
+    privateKey: pair.privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicKeyPem: pair.publicKey.export({ type: "spki", format: "pem" }).toString(),
+    jwk: pair.publicKey.export({ format: "jwk" }) as Jwk,
+  };
+}
+
+/** Both verifiers on the same input must agree exactly. */
+async function expectParity(
+  bundle: EvidenceBundle | Uint8Array,
+  options?: browser.WebCryptoVerificationOptions,
+) {
+  const expected = node.verifyBundle(bundle, options);
+  expect(await browser.verifyBundle(bundle, options)).toEqual(expected);
+  return expected;
+}
+
+describe("WebCrypto sealing", () => {
+  for (const name of FIXTURES) {
+    it(`reproduces the ${name} proof byte for byte`, async () => {
+      const fixture = loadFixture(name);
+      const sealed = await browser.sealBundle(unsealed(fixture), { canonicalization: "lenient" });
+      expect(sealed).toEqual(node.sealBundle(unsealed(fixture), { canonicalization: "lenient" }));
+      expect(sealed.immutabilityProof).toEqual(fixture.immutability_proof);
+    });
+  }
+
+  it("matches the Node sealer for v0.3.0, sha384, legacy and a policy pack", async () => {
+    const input = unsealed(makeValidBundle());
+    const pack = { policy_id: "p1", version: "1.0.0", rules: [] } as unknown as node.PolicyPack;
+    for (const options of [
+      { proofVersion: "v0.3.0" },
+      { hashAlgorithm: "sha384" },
+      { hashAlgorithm: "sha512", proofVersion: "v0.3.0" },
+      { policyPack: pack },
+    ] as node.SealOptions[]) {
+      expect(await browser.sealBundle(input, options)).toEqual(node.sealBundle(input, options));
+    }
+  });
+
+  it("rejects sha3-256, which WebCrypto lacks", async () => {
+    await expect(
+      browser.sealBundle(unsealed(makeValidBundle()), { hashAlgorithm: "sha3-256" }),
+    ).rejects.toThrow("sealBundle: hash algorithm sha3-256 is not available in WebCrypto");
+  });
+
+  it("hashes content like computeContentHash", async () => {
+    const content = { b: [1, "two", null], a: { z: true } };
+    expect(await browser.computeContentHash(content)).toBe(node.computeContentHash(content));
+    expect(await browser.computeContentHash(content, "sha512")).toBe(node.computeContentHash(content, "sha512"));
+  });
+});
+
+describe("WebCrypto verifyBundle", () => {
+  for (const name of FIXTURES) {
+    it(`agrees with the Node verifier on ${name}, intact, tampered and as bytes`, async () => {
+      const options = { acceptProofVersions: ["v0.2.0"] } as const;
+      const fixture = loadFixture(name);
+      expect((await expectParity(fixture, { ...options })).valid).toBe(true);
+
+      const bytes = new TextEncoder().encode(JSON.stringify(fixture));
+      expect((await expectParity(bytes, { ...options })).valid).toBe(true);
+
+      const tampered = structuredClone(fixture);
+      tampered.items[0].content = { tampered: true };
+      tampered.immutability_proof.hash_chain[1].previous_hash = "sha256:00";
+      expect((await expectParity(tampered, { ...options })).valid).toBe(false);
+    });
+  }
+
+  it("agrees on v0.3.0 proofs and on rejecting them", async () => {
+    const sealed = await browser.sealBundle(unsealed(makeValidBundle()), { proofVersion: "v0.3.0" });
+    const bundle = { ...makeValidBundle(), items: sealed.items, immutability_proof: sealed.immutabilityProof };
+    expect((await expectParity(bundle, { acceptProofVersions: ["v0.2.0", "v0.3.0"] })).valid).toBe(true);
+    expect((await expectParity(bundle, { acceptProofVersions: ["v0.2.0"] })).valid).toBe(false);
+  });
+
+  it("reports a sha3-256 bundle as HASH_ALGORITHM_NOT_ALLOWED", async () => {
+    const sealed = node.sealBundle(unsealed(makeValidBundle()), { hashAlgorithm: "sha3-256" });
+    const bundle = { ...makeValidBundle(), items: sealed.items, immutability_proof: sealed.immutabilityProof };
+    const result = await browser.verifyBundle(bundle);
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.code)).toContain(node.ErrorCode.HASH_ALGORITHM_NOT_ALLOWED);
+  });
+
+  it("marks the Node-only steps as skipped in the detailed report", async () => {
+    const report = await browser.verifyBundleDetailed(makeValidBundle());
+    const skipped = report.steps.filter((step) => step.status === "skipped").map((step) => step.step);
+    expect(skipped).toEqual(expect.arrayContaining(["timestamps", "log_inclusion", "references"]));
+  });
+});
+
+describe("WebCrypto verifySignatures", () => {
+  for (const algorithm of ["ed25519", "rsa-sha256", "ecdsa-p256"] as const) {
+    it(`agrees with the Node verifier for ${algorithm} with PEM and JWK keys`, async () => {
+      const { privateKey, publicKeyPem, jwk } = keyPair(algorithm);
+      const signed = node.signBundle(makeValidBundle(), {
+        algorithm,
+        signerId: "alice",
+        privateKey,
+        publicKeyId: "k1",
+      });
+      expect((await expectParity(signed, { publicKeys: { k1: publicKeyPem } })).valid).toBe(true);
+      expect((await expectParity(signed, { publicKeys: { k1: jwk } })).valid).toBe(true);
+
+      const forged = structuredClone(signed);
+      forged.bundle_id = "forged";
+      const result = await browser.verifySignatures(forged, { publicKeys: { k1: publicKeyPem } });
+      expect(result).toEqual(node.verifySignatures(forged, { publicKeys: { k1: publicKeyPem } }));
+      expect(result.errors.map((e) => e.code)).toEqual([node.ErrorCode.SIGNATURE_INVALID]);
+    });
+  }
+
+  it("accepts a raw base64 Ed25519 key", async () => {
+    const pair = generateKeyPairSync("ed25519");
+    const raw = pair.publicKey.export({ type: "spki", format: "der" }).subarray(12).toString("base64");
+    const signed = node.signBundle(makeValidBundle(), {
+      algorithm: "ed25519",
+      signerId: "alice",
+      privateKey: pair.privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+      publicKeyId: "k1",
+    });
+    expect((await expectParity(signed, { publicKeys: { k1: raw } })).valid).toBe(true);
+  });
+
+  it("agrees on HMAC signatures and wrong secrets", async () => {
+    const signed = node.signBundle(makeValidBundle(), { algorithm: "hmac-sha256", signerId: "ci", hmacSecret: "s3cret" });
+    expect((await expectParity(signed, { hmacSecret: "s3cret" })).valid).toBe(true);
+    expect((await expectParity(signed, { hmacSecret: "wrong" })).valid).toBe(false);
+  });
+
+  it("agrees on a signature copied under a second signer_id", async () => {
+    const { privateKey, publicKeyPem, jwk } = keyPair("ed25519");
+    const signed = node.signBundle(makeValidBundle(), {
+      algorithm: "ed25519",
+      signerId: "alice",
+      privateKey,
+      publicKeyId: "k1",
+    });
+    const copy = { ...signed.signatures![0], signature_id: "copy", signer_id: "bob", public_key_id: "k2" };
+    const forged = { ...signed, signatures: [...signed.signatures!, copy] };
+    const options = { publicKeys: { k1: publicKeyPem, k2: jwk }, signaturePolicy: { minSignatures: 2 } };
+    const result = await expectParity(forged, options);
+    expect(result.errors.map((e) => e.code)).toEqual([node.ErrorCode.SIGNATURE_THRESHOLD_NOT_MET]);
+  });
+
+  it("names the key type when the key cannot verify the algorithm", async () => {
+    const signer = keyPair("ed25519");
+    const signed = node.signBundle(makeValidBundle(), {
+      algorithm: "ed25519",
+      signerId: "alice",
+      privateKey: signer.privateKey,
+      publicKeyId: "k1",
+    });
+    for (const other of ["rsa-sha256", "ecdsa-p256"] as const) {
+      const result = await expectParity(signed, { publicKeys: { k1: keyPair(other).publicKeyPem } });
+      expect(result.errors.map((e) => e.code)).toEqual([node.ErrorCode.KEY_ALGORITHM_MISMATCH]);
+    }
+    const result = await expectParity(signed, { publicKeys: { k1: "not a key" } });
+    expect(result.errors[0].message).toBe("Public key for signature could not be parsed");
+  });
+});
+
+describe("browser entry point", () => {
+  it("reaches no Node built-ins at runtime", () => {
+    const seen = new Set<string>();
+    const pending = ["browser.ts"];
+    while (pending.length > 0) {
+      const file = pending.pop()!;
+      if (seen.has(file)) {
+        continue;
+      }
+      seen.add(file);
+      const source = readFileSync(new URL(`../src/${file}`, import.meta.url), "utf-8");
+      expect(source, file).not.toMatch(/\bBuffer\.[a-z]|from "node:/);
+      for (const [, specifier] of source.matchAll(/^(?:import|export) (?!type )[^;]*? from "\.\/(.+?)\.js";/gms)) {
+        pending.push(`${specifier}.ts`);
+      }
+    }
+    expect(seen).toContain("webcrypto.ts");
+  });
+});
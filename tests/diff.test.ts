@@ -0,0 +1,255 @@
+import { describe, it, expect } from "vitest";
+import {
+  appendItems,
+  diffBundleChain,
+  diffBundles,
+  redactItems,
+  sealBundle,
+  signBundle,
+} from "../src/index.js";
+import type { EvidenceBundle, ProofVersion } from "../src/index.js";
+
+function makeValidBundle(proofVersion: ProofVersion = "v0.2.0"): EvidenceBundle {
+  const result = sealBundle(
+    {
+      items: [
+        { item_id: "ci-1", content_type: "guardspine/test-result", content: { passed: true, failures: [] } },
+        { item_id: "ci-2", content_type: "guardspine/lint-result", content: { errors: 0 } },
+        { item_id: "ci-3", content_type: "guardspine/coverage", content: { percent: 91.5 } },
+      ],
+    },
+    { proofVersion },
+  );
+
+  return {
+    bundle_id: "test-bundle-001",
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+  };
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+describe("diffBundles", () => {
+  it("reports identical bundles", () => {
+    const bundle = makeValidBundle();
+    expect(diffBundles(bundle, clone(bundle))).toEqual({
+      identical: true,
+      items: [],
+      signatures: [],
+      metadata: [],
+      proof: [],
+    });
+  });
+
+  it("diffs modified content structurally", () => {
+    const before = makeValidBundle();
+    const after = clone(before);
+    after.items[0].content = { passed: false, failures: ["auth.test.ts"] };
+
+    const diff = diffBundles(before, after);
+    expect(diff.identical).toBe(false);
+    expect(diff.items).toEqual([
+      {
+        kind: "modified",
+        item_id: "ci-1",
+        before_sequence: 0,
+        after_sequence: 0,
+        changes: [
+          { op: "add", pointer: "/content/failures/0", after: "auth.test.ts" },
+          { op: "replace", pointer: "/content/passed", before: true, after: false },
+        ],
+      },
+    ]);
+    expect(diff.proof).toEqual([]);
+  });
+
+  it("reports appended items without flagging the existing ones", () => {
+    const before = makeValidBundle();
+    const after = appendItems(before, [
+      { item_id: "approval-1", content_type: "guardspine/approval", content: { approver: "alice" } },
+    ]);
+
+    const diff = diffBundles(before, after);
+    expect(diff.items).toEqual([{ kind: "added", item_id: "approval-1", after_sequence: 3, changes: [] }]);
+    expect(diff.proof.map((change) => change.pointer)).toEqual([
+      "/immutability_proof/hash_chain/3",
+      "/immutability_proof/root_hash",
+    ]);
+  });
+
+  it("does not report items that only shifted after a removal", () => {
+    const before = makeValidBundle();
+    const after = clone(before);
+    after.items.splice(0, 1);
+    after.items.forEach((item, index) => (item.sequence = index));
+
+    expect(diffBundles(before, after).items).toEqual([
+      { kind: "removed", item_id: "ci-1", before_sequence: 0, changes: [] },
+    ]);
+  });
+
+  it("reports reordered items, and a /sequence change when a moved item is also modified", () => {
+    const before = makeValidBundle();
+    const after = clone(before);
+    after.items = [after.items[2], after.items[0], after.items[1]];
+    after.items.forEach((item, index) => (item.sequence = index));
+
+    expect(diffBundles(before, after).items).toEqual([
+      { kind: "reordered", item_id: "ci-3", before_sequence: 2, after_sequence: 0, changes: [] },
+    ]);
+
+    after.items[0].content = { percent: 95 };
+    expect(diffBundles(before, after).items[0]).toMatchObject({
+      kind: "modified",
+      item_id: "ci-3",
+      changes: [
+        { op: "replace", pointer: "/sequence", before: 2, after: 0 },
+        { op: "replace", pointer: "/content/percent", before: 91.5, after: 95 },
+      ],
+    });
+  });
+
+  it("reports signature and metadata changes", () => {
+    const unsigned = makeValidBundle();
+    const signer = { algorithm: "hmac-sha256" as const, signerId: "ci", hmacSecret: "secret" };
+    const before = signBundle(unsigned, { ...signer, signatureId: "sig-1" });
+    const after = clone(
+      signBundle(
+        { ...before, risk_tier: "L2", metadata: { "pr/number": 7 } },
+        { ...signer, signatureId: "sig-2" },
+      ),
+    );
+    after.signatures![0].signer_id = "someone-else";
+
+    const diff = diffBundles(before, after);
+    expect(diff.metadata).toEqual([
+      { op: "add", pointer: "/metadata", after: { "pr/number": 7 } },
+      { op: "add", pointer: "/risk_tier", after: "L2" },
+    ]);
+    expect(diff.signatures).toEqual([
+      {
+        kind: "modified",
+        signature_id: "sig-1",
+        changes: [{ op: "replace", pointer: "/signer_id", before: "ci", after: "someone-else" }],
+      },
+      { kind: "added", signature_id: "sig-2", changes: [] },
+    ]);
+  });
+
+  it("compares items that are not objects whole instead of throwing", () => {
+    const before = makeValidBundle();
+    const after = clone(before);
+    (before.items as unknown[]).push(null);
+    (after.items as unknown[]).push(null);
+    expect(diffBundles(before, after).identical).toBe(true);
+
+    (after.items as unknown[])[3] = "ci-4";
+    (after.items as unknown[])[0] = null;
+    expect(diffBundles(before, after).items).toEqual([
+      { kind: "removed", item_id: "ci-1", before_sequence: 0, changes: [] },
+      { kind: "modified", item_id: undefined, changes: [{ op: "replace", pointer: "", before: null, after: "ci-4" }] },
+      { kind: "added", item_id: undefined, after_sequence: undefined, changes: [] },
+    ]);
+  });
+
+  it("throws for non-object input", () => {
+    expect(() => diffBundles(null as unknown as EvidenceBundle, makeValidBundle())).toThrow(
+      "diffBundles: both bundles must be objects",
+    );
+  });
+});
+
+describe("diffBundleChain", () => {
+  it("finds no divergence in an untouched bundle", () => {
+    for (const version of ["v0.2.0", "v0.3.0"] as const) {
+      const diff = diffBundleChain(makeValidBundle(version));
+      expect(diff.first_divergence).toBeNull();
+      expect(diff.root_hash.matches).toBe(true);
+    }
+  });
+
+  it("pinpoints edited content at its link", () => {
+    const bundle = makeValidBundle();
+    bundle.items[1].content = { errors: 3 };
+
+    const diff = diffBundleChain(bundle);
+    expect(diff.divergences).toHaveLength(1);
+    expect(diff.first_divergence).toMatchObject({
+      sequence: 1,
+      item_id: "ci-2",
+      pointer: "/items/1/content",
+      expected: bundle.immutability_proof.hash_chain[1].content_hash,
+    });
+    expect(diff.root_hash.matches).toBe(true);
+  });
+
+  it("shows a consistently rewritten chain only in the root hash", () => {
+    const bundle = makeValidBundle();
+    bundle.items[0].content = { passed: false, failures: [] };
+    const other = sealBundle({
+      items: bundle.items.map((item) => ({ ...item, content: item.content })),
+    });
+    // Rewrite the chain from link 0 on, but keep the original root.
+    bundle.items = other.items;
+    bundle.immutability_proof.hash_chain = other.immutabilityProof.hash_chain;
+
+    const diff = diffBundleChain(bundle);
+    expect(diff.divergences).toEqual([]);
+    expect(diff.root_hash.matches).toBe(false);
+  });
+
+  it("reports a link whose hashes no longer follow", () => {
+    const bundle = makeValidBundle();
+    const link = bundle.immutability_proof.hash_chain[1];
+    link.content_type = "guardspine/renamed";
+
+    const diff = diffBundleChain(bundle);
+    expect(diff.divergences.map((d) => d.pointer)).toEqual([
+      "/items/1/content_type",
+      "/immutability_proof/hash_chain/1/chain_hash",
+    ]);
+    expect(diff.first_divergence?.expected).toBe("guardspine/renamed");
+    expect(diff.first_divergence?.actual).toBe("guardspine/lint-result");
+  });
+
+  it("reports swapped items and a missing link", () => {
+    const bundle = makeValidBundle();
+    [bundle.items[0], bundle.items[1]] = [bundle.items[1], bundle.items[0]];
+    bundle.immutability_proof.hash_chain.pop();
+
+    const diff = diffBundleChain(bundle);
+    expect(diff.first_divergence?.pointer).toBe("/items/0/sequence");
+    expect(diff.divergences.at(-1)).toMatchObject({
+      sequence: 2,
+      pointer: "/items/2",
+      reason: "item has no link in the hash chain",
+    });
+  });
+
+  it("compares redacted items by content_hash", () => {
+    const bundle = redactItems(makeValidBundle(), ["ci-2"]);
+    expect(diffBundleChain(bundle).first_divergence).toBeNull();
+  });
+
+  it("reports links and items that are not objects instead of throwing", () => {
+    const bundle = makeValidBundle();
+    (bundle.immutability_proof.hash_chain as unknown[])[0] = null;
+    (bundle.items as unknown[])[1] = null;
+
+    const diff = diffBundleChain(bundle);
+    expect(diff.divergences.map((d) => [d.pointer, d.reason])).toEqual([
+      ["/immutability_proof/hash_chain/0", "link is not an object"],
+      ["/items/1", "item is not an object"],
+    ]);
+    expect(diff.root_hash).toMatchObject({ expected: null, matches: false });
+  });
+
+  it("throws without a hash chain", () => {
+    expect(() => diffBundleChain({} as EvidenceBundle)).toThrow("diffBundleChain: bundle has no");
+  });
+});
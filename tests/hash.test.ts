@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  SUPPORTED_HASH_ALGORITHMS,
+  appendItems,
+  computeContentHash,
+  generateInclusionProof,
+  hashAlgorithmOf,
+  sealBundle,
+  verifyBundle,
+  verifyConsistency,
+  verifyInclusionProof,
+  ErrorCode,
+} from "../src/index.js";
+import type { EvidenceBundle, HashAlgorithm, ProofVersion } from "../src/index.js";
+
+function makeValidBundle(
+  hashAlgorithm?: HashAlgorithm,
+  proofVersion: ProofVersion = "v0.2.0",
+): EvidenceBundle {
+  const result = sealBundle(
+    {
+      items: [
+        { item_id: "item-1", content_type: "guardspine/test-result", content: { passed: true } },
+        { item_id: "item-2", content_type: "guardspine/lint-result", content: { errors: 0 } },
+        { item_id: "item-3", content_type: "guardspine/approval", content: { by: "alice" } },
+      ],
+    },
+    { hashAlgorithm, proofVersion },
+  );
+
+  return {
+    bundle_id: "test-bundle-001",
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+  };
+}
+
+describe("hash algorithms", () => {
+  it("keeps sha256 bundles byte-identical", () => {
+    expect(makeValidBundle("sha256")).toEqual(makeValidBundle());
+    expect(makeValidBundle().immutability_proof).not.toHaveProperty("hash_algorithm");
+    expect(computeContentHash({ a: 1 })).toBe(
+      "sha256:015abd7f5cc57a2dd94b7590f04ad8084273905ee33ec5cebeae62276a97f862",
+    );
+  });
+
+  for (const algorithm of SUPPORTED_HASH_ALGORITHMS) {
+    it(`seals and verifies with ${algorithm}`, () => {
+      for (const proofVersion of ["v0.2.0", "v0.3.0"] as ProofVersion[]) {
+        const bundle = makeValidBundle(algorithm, proofVersion);
+        const proof = bundle.immutability_proof;
+        expect(hashAlgorithmOf(proof.root_hash)).toBe(algorithm);
+        expect(proof.hash_chain.every((link) => hashAlgorithmOf(link.chain_hash) === algorithm)).toBe(
+          true,
+        );
+        expect(verifyBundle(bundle)).toEqual({ valid: true, errors: [] });
+      }
+    });
+  }
+
+  it("produces different hashes per algorithm", () => {
+    const roots = SUPPORTED_HASH_ALGORITHMS.map(
+      (algorithm) => makeValidBundle(algorithm).immutability_proof.root_hash,
+    );
+    expect(new Set(roots).size).toBe(roots.length);
+  });
+
+  it("rejects algorithms outside the verifier allowlist", () => {
+    const result = verifyBundle(makeValidBundle("sha512"), { acceptHashAlgorithms: ["sha384"] });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.HASH_ALGORITHM_NOT_ALLOWED]);
+    expect(verifyBundle(makeValidBundle(), { acceptHashAlgorithms: ["sha384"] }).valid).toBe(false);
+  });
+
+  it("rejects an unknown declared algorithm", () => {
+    const bundle = makeValidBundle();
+    (bundle.immutability_proof as { hash_algorithm?: string }).hash_algorithm = "md5";
+    expect(verifyBundle(bundle).errors.map((e) => e.code)).toEqual([
+      ErrorCode.HASH_ALGORITHM_NOT_ALLOWED,
+    ]);
+  });
+
+  it("detects hashes that do not use the declared algorithm", () => {
+    const bundle = makeValidBundle("sha512");
+    const other = makeValidBundle("sha3-256");
+    bundle.items[0] = other.items[0];
+    bundle.immutability_proof.hash_chain[0] = other.immutability_proof.hash_chain[0];
+    const codes = verifyBundle(bundle).errors.map((e) => e.code);
+    expect(codes).toContain(ErrorCode.HASH_ALGORITHM_MISMATCH);
+  });
+
+  it("detects a stripped hash_algorithm", () => {
+    const bundle = makeValidBundle("sha384");
+    delete bundle.immutability_proof.hash_algorithm;
+    expect(verifyBundle(bundle).valid).toBe(false);
+  });
+
+  it("carries the algorithm through inclusion proofs and appends", () => {
+    const bundle = makeValidBundle("sha512", "v0.3.0");
+    const proof = generateInclusionProof(bundle, "item-2");
+    expect(verifyInclusionProof(proof, bundle.immutability_proof.root_hash).valid).toBe(true);
+
+    const newer = appendItems(bundle, [
+      { item_id: "item-4", content_type: "guardspine/approval", content: { by: "bob" } },
+    ]);
+    expect(newer.immutability_proof.hash_algorithm).toBe("sha512");
+    expect(verifyBundle(newer).valid).toBe(true);
+    expect(verifyConsistency(bundle, newer).valid).toBe(true);
+  });
+
+  it("throws on an unsupported sealing algorithm", () => {
+    expect(() =>
+      sealBundle(
+        { items: [{ item_id: "a", content_type: "t", content: {} }] },
+        { hashAlgorithm: "md5" as HashAlgorithm },
+      ),
+    ).toThrow(/unsupported hash algorithm md5/);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  generateInclusionProof,
+  sealBundle,
+  verifyBundle,
+  verifyInclusionProof,
+  ErrorCode,
+} from "../src/index.js";
+import type { EvidenceBundle, InclusionProof, ProofVersion } from "../src/index.js";
+
+function makeBundle(count: number, proofVersion: ProofVersion = "v0.3.0"): EvidenceBundle {
+  const result = sealBundle(
+    {
+      items: Array.from({ length: count }, (_, idx) => ({
+        item_id: `finding-${idx}`,
+        content_type: "guardspine/finding",
+        content: { idx, severity: idx % 2 === 0 ? "high" : "low" },
+      })),
+    },
+    { proofVersion },
+  );
+
+  return {
+    bundle_id: "test-bundle-001",
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+  };
+}
+
+describe("v0.3.0 sealing", () => {
+  it("seals and verifies with a Merkle root", () => {
+    const bundle = makeBundle(5);
+    expect(bundle.immutability_proof.proof_version).toBe("v0.3.0");
+    expect(verifyBundle(bundle)).toEqual({ valid: true, errors: [] });
+  });
+
+  it("leaves v0.2.0 bundles unchanged", () => {
+    const bundle = makeBundle(3, "v0.2.0");
+    expect(bundle.immutability_proof.proof_version).toBeUndefined();
+    expect(bundle.immutability_proof.root_hash).not.toBe(makeBundle(3).immutability_proof.root_hash);
+    expect(verifyBundle(bundle).valid).toBe(true);
+  });
+
+  it("detects a root computed the v0.2.0 way", () => {
+    const bundle = makeBundle(3);
+    bundle.immutability_proof.root_hash = makeBundle(3, "v0.2.0").immutability_proof.root_hash;
+    const codes = verifyBundle(bundle).errors.map((e) => e.code);
+    expect(codes).toContain(ErrorCode.ROOT_HASH_MISMATCH);
+  });
+
+  it("rejects v0.3.0 when it is not an accepted proof version", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const result = verifyBundle(makeBundle(2), { acceptProofVersions: ["v0.2.0"] });
+    warn.mockRestore();
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.UNSUPPORTED_VERSION]);
+  });
+
+  it("rejects an unknown proof_version", () => {
+    const bundle = makeBundle(2);
+    (bundle.immutability_proof as { proof_version: string }).proof_version = "v9.9.9";
+    const codes = verifyBundle(bundle).errors.map((e) => e.code);
+    expect(codes).toContain(ErrorCode.UNSUPPORTED_VERSION);
+  });
+});
+
+describe("inclusion proofs", () => {
+  for (const size of [1, 2, 3, 5, 8]) {
+    it(`verifies every item of a ${size}-item bundle`, () => {
+      const bundle = makeBundle(size);
+      const root = bundle.immutability_proof.root_hash;
+      for (const item of bundle.items) {
+        const proof = generateInclusionProof(bundle, item.item_id);
+        expect(proof.item).toEqual(item);
+        expect(verifyInclusionProof(proof, root)).toEqual({ valid: true, errors: [] });
+      }
+    });
+  }
+
+  it("detects tampered item content", () => {
+    const bundle = makeBundle(4);
+    const proof = generateInclusionProof(bundle, "finding-1");
+    proof.item = { ...proof.item, content: { idx: 1, severity: "none" } };
+    const result = verifyInclusionProof(proof, bundle.immutability_proof.root_hash);
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.CONTENT_HASH_MISMATCH]);
+  });
+
+  it("detects an item re-hashed to forge a proof", () => {
+    const bundle = makeBundle(4);
+    const forged = makeBundle(4);
+    forged.items[1].content = { idx: 1, severity: "none" };
+    const resealed = sealBundle({ items: forged.items }, { proofVersion: "v0.3.0" });
+    const proof = generateInclusionProof(
+      { ...forged, items: resealed.items, immutability_proof: resealed.immutabilityProof },
+      "finding-1",
+    );
+    const result = verifyInclusionProof(proof, bundle.immutability_proof.root_hash);
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.ROOT_HASH_MISMATCH]);
+  });
+
+  it("detects a tampered audit path", () => {
+    const bundle = makeBundle(5);
+    const proof = generateInclusionProof(bundle, "finding-2");
+    proof.audit_path[0] = proof.audit_path[1];
+    const result = verifyInclusionProof(proof, bundle.immutability_proof.root_hash);
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.ROOT_HASH_MISMATCH]);
+  });
+
+  it("rejects a path that does not fit the tree size", () => {
+    const bundle = makeBundle(5);
+    const proof = generateInclusionProof(bundle, "finding-2");
+    proof.audit_path.pop();
+    const result = verifyInclusionProof(proof, bundle.immutability_proof.root_hash);
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.INCLUSION_PROOF_INVALID]);
+  });
+
+  it("rejects a leaf_index that disagrees with the item sequence", () => {
+    const bundle = makeBundle(4);
+    const proof = generateInclusionProof(bundle, "finding-1");
+    proof.leaf_index = 2;
+    const result = verifyInclusionProof(proof, bundle.immutability_proof.root_hash);
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.INCLUSION_PROOF_INVALID]);
+  });
+
+  it("reports a proof without an item object as invalid input", () => {
+    const bundle = makeBundle(3);
+    const root = bundle.immutability_proof.root_hash;
+    const proof = generateInclusionProof(bundle, "finding-0");
+    for (const item of [undefined, null, "finding-0", { ...proof.item, content: undefined }]) {
+      const broken = { ...proof, item } as unknown as InclusionProof;
+      expect(verifyInclusionProof(broken, root).errors.map((e) => e.code)).toEqual([
+        ErrorCode.INPUT_VALIDATION_FAILED,
+      ]);
+    }
+    expect(verifyInclusionProof(null as unknown as InclusionProof, root).valid).toBe(false);
+  });
+
+  it("ignores the root hash carried inside the proof", () => {
+    const bundle = makeBundle(3);
+    const proof = generateInclusionProof(bundle, "finding-0");
+    const other = makeBundle(4).immutability_proof.root_hash;
+    expect(verifyInclusionProof(proof, other).valid).toBe(false);
+  });
+
+  it("throws for v0.2.0 bundles and unknown items", () => {
+    expect(() => generateInclusionProof(makeBundle(2, "v0.2.0"), "finding-0")).toThrow(/v0\.3\.0/);
+    expect(() => generateInclusionProof(makeBundle(2), "missing")).toThrow(/not found/);
+  });
+});
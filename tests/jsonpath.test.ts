@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { evaluatePolicy, queryBundle, queryJsonPath, sealBundle } from "../src/index.js";
+import type { EvidenceBundle } from "../src/index.js";
+
+function makeBundle(): EvidenceBundle {
+  const result = sealBundle({
+    items: [
+      { item_id: "t1", content_type: "guardspine/test-result", content: { passed: true, name: "auth" } },
+      { item_id: "t2", content_type: "guardspine/test-result", content: { passed: false, name: "lint" } },
+      { item_id: "r1", content_type: "guardspine/rubric-result", content: { violations_found: 3, tags: ["a", "b"] } },
+    ],
+  });
+
+  return {
+    bundle_id: "test-bundle-001",
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+    metadata: { "odd key": 1, nested: { deep: { name: "x" } } },
+  };
+}
+
+describe("queryJsonPath", () => {
+  const doc = { a: [10, 20, 30, 40, 50], b: { c: 1, d: 2 }, "e.f": "dotted" };
+
+  it("supports dot and bracket member access", () => {
+    expect(queryJsonPath(doc, "$.b.c")).toEqual([1]);
+    expect(queryJsonPath(doc, "$['b']['d']")).toEqual([2]);
+    expect(queryJsonPath(doc, '$["e.f"]')).toEqual(["dotted"]);
+    expect(queryJsonPath(doc, "$")).toEqual([doc]);
+  });
+
+  it("supports indices, negative indices and unions", () => {
+    expect(queryJsonPath(doc, "$.a[0]")).toEqual([10]);
+    expect(queryJsonPath(doc, "$.a[-1]")).toEqual([50]);
+    expect(queryJsonPath(doc, "$.a[0, 2]")).toEqual([10, 30]);
+    expect(queryJsonPath(doc, "$.a[9]")).toEqual([]);
+  });
+
+  it("supports slices", () => {
+    expect(queryJsonPath(doc, "$.a[1:3]")).toEqual([20, 30]);
+    expect(queryJsonPath(doc, "$.a[::2]")).toEqual([10, 30, 50]);
+    expect(queryJsonPath(doc, "$.a[-2:]")).toEqual([40, 50]);
+    expect(queryJsonPath(doc, "$.a[::-1]")).toEqual([50, 40, 30, 20, 10]);
+    expect(queryJsonPath(doc, "$.a[::0]")).toEqual([]);
+  });
+
+  it("supports wildcards in sorted key order", () => {
+    expect(queryJsonPath({ z: 1, a: 2 }, "$.*")).toEqual([2, 1]);
+    expect(queryJsonPath(doc, "$.a[*]")).toHaveLength(5);
+  });
+
+  it("supports recursive descent", () => {
+    expect(queryJsonPath(makeBundle(), "$..name")).toEqual(["auth", "lint", "x"]);
+  });
+
+  it("supports filter expressions", () => {
+    const bundle = makeBundle();
+    expect(queryBundle(bundle, "$.items[?@.content.passed == false].item_id")).toEqual(["t2"]);
+    expect(
+      queryBundle(bundle, "$.items[?(@.content_type == 'guardspine/test-result' && @.content.passed != true)].item_id"),
+    ).toEqual(["t2"]);
+    expect(queryBundle(bundle, "$.items[?@.content.violations_found > 2 || @.item_id == 't1'].item_id")).toEqual([
+      "t1",
+      "r1",
+    ]);
+    expect(queryBundle(bundle, "$.items[?@.content.tags].item_id")).toEqual(["r1"]);
+    expect(queryBundle(bundle, "$.items[?!@.content.tags].item_id")).toEqual(["t1", "t2"]);
+    expect(queryBundle(bundle, "$.items[?@.sequence < $.items[2].sequence].item_id")).toEqual(["t1", "t2"]);
+  });
+
+  it("does not coerce types in comparisons", () => {
+    expect(queryBundle(makeBundle(), "$.items[?@.sequence == '0']")).toEqual([]);
+  });
+
+  it("never selects prototype keys", () => {
+    const parsed = JSON.parse('{"__proto__": {"x": 1}, "y": 2}');
+    expect(() => queryJsonPath(parsed, "$.__proto__")).toThrow("not allowed");
+    expect(() => queryJsonPath(parsed, "$['constructor']")).toThrow("not allowed");
+    expect(queryJsonPath(parsed, "$.*")).toEqual([2]);
+    expect(queryJsonPath({}, "$.toString")).toEqual([]);
+  });
+
+  it("rejects malformed paths", () => {
+    expect(() => queryJsonPath(doc, "a.b")).toThrow("must start with $");
+    expect(() => queryJsonPath(doc, "$.a[")).toThrow();
+    expect(() => queryJsonPath(doc, "$[?(@.a == 1]")).toThrow("expected )");
+    expect(() => queryJsonPath(doc, "$." + "x".repeat(2000))).toThrow("exceeds 1024");
+  });
+
+  it("bounds expression nesting and document depth", () => {
+    expect(() => queryJsonPath(doc, "$[?" + "(".repeat(40) + "@" + ")".repeat(40) + "]")).toThrow("nesting");
+
+    let deep: unknown = 1;
+    for (let i = 0; i < 100; i++) {
+      deep = { n: deep };
+    }
+    expect(() => queryJsonPath(deep, "$..n")).toThrow("document nesting");
+  });
+
+  it("selects every element of a large array", () => {
+    const large = { a: Array.from({ length: 300_000 }, (_, i) => i) };
+    expect(queryJsonPath(large, "$.a[*]")).toHaveLength(300_000);
+    expect(queryJsonPath(large, "$.a[0:]")).toHaveLength(300_000);
+    expect(queryJsonPath(large, "$..*")).toHaveLength(300_001);
+  });
+});
+
+describe("JSONPath in policy rules", () => {
+  it("resolves $ fields in conditions", () => {
+    const result = evaluatePolicy(makeBundle(), {
+      policy_id: "p1",
+      version: "1.0.0",
+      name: "jsonpath",
+      rules: [
+        {
+          rule_id: "no-failed-tests",
+          name: "no failed tests",
+          severity: "high",
+          condition: {
+            field: "$.items[?@.content_type == 'guardspine/test-result'].content.passed",
+            operator: "contains",
+            value: false,
+          },
+        },
+        {
+          rule_id: "definite",
+          name: "definite path",
+          severity: "low",
+          condition: { field: "$.metadata['odd key']", operator: "eq", value: 1 },
+        },
+      ],
+    });
+    expect(result.results.map((r) => r.passed)).toEqual([true, true]);
+    expect(result.results[0].observed).toEqual([true, false]);
+    expect(result.results[1].observed).toBe(1);
+  });
+
+  it("reports an invalid path as a rule error", () => {
+    const result = evaluatePolicy(makeBundle(), {
+      policy_id: "p1",
+      version: "1.0.0",
+      name: "jsonpath",
+      rules: [{ rule_id: "bad", name: "bad", severity: "high", condition: { field: "$.[", operator: "exists" } }],
+    });
+    expect(result.verdict).toBe("fail");
+    expect(result.results[0].error).toContain("queryJsonPath");
+  });
+});
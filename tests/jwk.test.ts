@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  parseJwks,
+  readJwksFile,
+  sealBundle,
+  signBundle,
+  verifyBundle,
+  ErrorCode,
+} from "../src/index.js";
+import type { EvidenceBundle, Jwk, SignatureAlgorithm } from "../src/index.js";
+
+function makeValidBundle(): EvidenceBundle {
+  const result = sealBundle({
+    items: [{ item_id: "i1", content_type: "test/a", content: { val: 1 } }],
+  });
+
+  return {
+    bundle_id: "test-bundle-001",
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+  };
+}
+
+function keyPair(algorithm: SignatureAlgorithm, kid: string) {
+  const pair =
+    algorithm === "rsa-sha256"
+      ? generateKeyPairSync("rsa", { modulusLength: 2048 })
+      : algorithm === "ecdsa-p256"
+        ? generateKeyPairSync("ec", { namedCurve: "prime256v1" })
+        : generateKeyPairSync("ed25519");
+  const jwk = { ...pair.publicKey.export({ format: "jwk" }), kid } as Jwk;
+  const privateKey = pair.privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+  const spkiBase64 = pair.publicKey.export({ type: "spki", format: "der" }).toString("base64");
+  return { jwk, privateKey, spkiBase64 };
+}
+
+function signWith(algorithm: SignatureAlgorithm, privateKey: string, kid: string): EvidenceBundle {
+  return signBundle(makeValidBundle(), {
+    algorithm,
+    signerId: "alice",
+    privateKey,
+    publicKeyId: kid,
+  });
+}
+
+const cases = [
+  { algorithm: "ed25519", alg: "EdDSA" },
+  { algorithm: "rsa-sha256", alg: "RS256" },
+  { algorithm: "ecdsa-p256", alg: "ES256" },
+] as const;
+
+describe("JWK verification", () => {
+  for (const { algorithm, alg } of cases) {
+    it(`verifies ${algorithm} against a JWKS entry matched by kid`, () => {
+      const { jwk, privateKey } = keyPair(algorithm, "k1");
+      const other = keyPair(algorithm, "k0");
+      const bundle = signWith(algorithm, privateKey, "k1");
+      const result = verifyBundle(bundle, {
+        jwks: { keys: [other.jwk, { ...jwk, alg, use: "sig" }] },
+      });
+      expect(result.valid).toBe(true);
+    });
+  }
+
+  it("accepts a JWK object in publicKeys", () => {
+    const { jwk, privateKey } = keyPair("ecdsa-p256", "k1");
+    const result = verifyBundle(signWith("ecdsa-p256", privateKey, "k1"), {
+      publicKeys: { k1: jwk },
+    });
+    expect(result.valid).toBe(true);
+  });
+
+  it("accepts base64 SPKI DER for ECDSA and RSA keys", () => {
+    const { spkiBase64, privateKey } = keyPair("ecdsa-p256", "k1");
+    const result = verifyBundle(signWith("ecdsa-p256", privateKey, "k1"), {
+      publicKeys: { k1: spkiBase64 },
+    });
+    expect(result.valid).toBe(true);
+  });
+
+  it("rejects a JWK whose kty does not match the algorithm", () => {
+    const ec = keyPair("ecdsa-p256", "k1");
+    const ed = keyPair("ed25519", "k1");
+    const result = verifyBundle(signWith("ed25519", ed.privateKey, "k1"), {
+      jwks: { keys: [ec.jwk] },
+    });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.KEY_ALGORITHM_MISMATCH]);
+    expect(result.errors[0].details).toMatchObject({ kty: "EC" });
+  });
+
+  it("rejects a JWK whose alg does not match the algorithm", () => {
+    const { jwk, privateKey } = keyPair("rsa-sha256", "k1");
+    const result = verifyBundle(signWith("rsa-sha256", privateKey, "k1"), {
+      jwks: { keys: [{ ...jwk, alg: "PS256" }] },
+    });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.KEY_ALGORITHM_MISMATCH]);
+  });
+
+  it("fails when no kid matches", () => {
+    const { jwk, privateKey } = keyPair("ed25519", "k1");
+    const result = verifyBundle(signWith("ed25519", privateKey, "k2"), {
+      jwks: { keys: [jwk] },
+    });
+    expect(result.errors[0].message).toContain("No public key available");
+  });
+
+  it("accepts JWK keys in a trust store", () => {
+    const { jwk, privateKey } = keyPair("ed25519", "k1");
+    const result = verifyBundle(signWith("ed25519", privateKey, "k1"), {
+      trustStore: { keys: [{ key_id: "k1", public_key: jwk, algorithms: ["ed25519"] }] },
+    });
+    expect(result.valid).toBe(true);
+  });
+});
+
+describe("parseJwks", () => {
+  it("reads a JWKS file from disk", () => {
+    const { jwk, privateKey } = keyPair("ed25519", "k1");
+    const dir = mkdtempSync(join(tmpdir(), "jwks-"));
+    const path = join(dir, "jwks.json");
+    writeFileSync(path, JSON.stringify({ keys: [jwk] }));
+
+    const jwks = readJwksFile(path);
+    expect(jwks.keys[0].kid).toBe("k1");
+    expect(verifyBundle(signWith("ed25519", privateKey, "k1"), { jwks }).valid).toBe(true);
+  });
+
+  it("rejects malformed documents", () => {
+    expect(() => parseJwks("[]")).toThrow("keys array");
+    expect(() => parseJwks('{"keys":[{"kid":"a"}]}')).toThrow("kty");
+    expect(() => parseJwks('{"keys":[{"kty":"OKP","kid":"a"},{"kty":"OKP","kid":"a"}]}')).toThrow(
+      "duplicate kid",
+    );
+  });
+});
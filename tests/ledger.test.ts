@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, readdirSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  appendItems,
+  createFileLedger,
+  sealBundle,
+  signBundle,
+  verifyBundle,
+  ErrorCode,
+} from "../src/index.js";
+import type { BundleReference, BundleResolver, EvidenceBundle } from "../src/index.js";
+
+function makeBundle(bundleId: string, references?: BundleReference[]): EvidenceBundle {
+  const result = sealBundle({
+    items: [{ item_id: `${bundleId}-item`, content_type: "guardspine/test-result", content: { bundleId } }],
+  });
+
+  const bundle: EvidenceBundle = {
+    bundle_id: bundleId,
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+  };
+  if (references) {
+    bundle.references = references;
+  }
+  return bundle;
+}
+
+function childRef(bundle: EvidenceBundle): BundleReference {
+  return {
+    bundle_id: bundle.bundle_id,
+    root_hash: bundle.immutability_proof.root_hash,
+    relation: "child",
+  };
+}
+
+function memoryResolver(bundles: EvidenceBundle[]): BundleResolver {
+  return {
+    get: (ref) =>
+      bundles.find(
+        (b) => b.bundle_id === ref.bundle_id && b.immutability_proof.root_hash === ref.root_hash,
+      ),
+  };
+}
+
+describe("createFileLedger", () => {
+  it("stores and resolves bundles by id and root hash", () => {
+    const ledger = createFileLedger(mkdtempSync(join(tmpdir(), "ledger-")));
+    const bundle = makeBundle("pr-1");
+    const entry = ledger.put(bundle);
+
+    expect(entry).toEqual({ bundle_id: "pr-1", root_hash: bundle.immutability_proof.root_hash });
+    expect(ledger.get(entry)).toEqual(bundle);
+    expect(ledger.get({ bundle_id: "pr-1", root_hash: `sha256:${"0".repeat(64)}` })).toBeUndefined();
+    expect(ledger.list()).toEqual([entry]);
+  });
+
+  it("keeps every sealed state of a bundle", () => {
+    const ledger = createFileLedger(mkdtempSync(join(tmpdir(), "ledger-")));
+    const first = makeBundle("pr-1");
+    const second = appendItems(first, [
+      { item_id: "approval", content_type: "guardspine/approval", content: { ok: true } },
+    ]);
+    ledger.put(first);
+    ledger.put(second);
+    expect(ledger.list()).toHaveLength(2);
+    expect(ledger.get(childRef(first))).toEqual(first);
+  });
+
+  it("is idempotent but never overwrites an entry", () => {
+    const ledger = createFileLedger(mkdtempSync(join(tmpdir(), "ledger-")));
+    const bundle = makeBundle("pr-1");
+    ledger.put(bundle);
+    ledger.put(bundle);
+    expect(() => ledger.put({ ...bundle, references: [childRef(makeBundle("x"))] })).toThrow(
+      /already holds a different bundle/,
+    );
+  });
+
+  it("rejects bundles that do not verify", () => {
+    const ledger = createFileLedger(mkdtempSync(join(tmpdir(), "ledger-")));
+    const bundle = makeBundle("pr-1");
+    bundle.items[0].content = { tampered: true };
+    expect(() => ledger.put(bundle)).toThrow(/does not verify \(CONTENT_HASH_MISMATCH\)/);
+  });
+
+  it("stores signed bundles with the keys given to the ledger", () => {
+    const dir = mkdtempSync(join(tmpdir(), "ledger-"));
+    const signed = signBundle(makeBundle("pr-1"), {
+      algorithm: "hmac-sha256",
+      signerId: "ci",
+      hmacSecret: "s3cret",
+    });
+
+    expect(() => createFileLedger(dir).put(signed)).toThrow(/does not verify \(SIGNATURE_INVALID\)/);
+    expect(() => createFileLedger(dir, { hmacSecret: "wrong" }).put(signed)).toThrow(
+      /does not verify \(SIGNATURE_INVALID\)/,
+    );
+
+    const ledger = createFileLedger(dir, { hmacSecret: "s3cret" });
+    const entry = ledger.put(signed);
+    expect(ledger.get(entry)).toEqual(signed);
+  });
+
+  it("keeps bundle ids and root hashes inside the ledger directory", () => {
+    const dir = mkdtempSync(join(tmpdir(), "ledger-"));
+    const ledger = createFileLedger(dir);
+    ledger.put(makeBundle("../escape"));
+    expect(readdirSync(dir)).toHaveLength(1);
+    expect(ledger.list()[0].bundle_id).toBe("../escape");
+    expect(ledger.get({ bundle_id: "pr-1", root_hash: "sha256:../../etc/passwd" })).toBeUndefined();
+  });
+});
+
+describe("reference verification", () => {
+  it("verifies referenced bundles through a ledger", () => {
+    const ledger = createFileLedger(mkdtempSync(join(tmpdir(), "ledger-")));
+    const pr1 = makeBundle("pr-1");
+    const pr2 = makeBundle("pr-2");
+    ledger.put(pr1);
+    ledger.put(pr2);
+    const release = makeBundle("release", [childRef(pr1), childRef(pr2)]);
+    expect(verifyBundle(release, { bundleResolver: ledger })).toEqual({ valid: true, errors: [] });
+  });
+
+  it("skips references without a resolver", () => {
+    const release = makeBundle("release", [childRef(makeBundle("pr-1"))]);
+    expect(verifyBundle(release).valid).toBe(true);
+  });
+
+  it("reports unresolved and mismatched references", () => {
+    const pr1 = makeBundle("pr-1");
+    const wrongRoot = { ...childRef(pr1), root_hash: makeBundle("pr-2").immutability_proof.root_hash };
+    const renamed = { ...pr1, bundle_id: "pr-9" };
+    const release = makeBundle("release", [wrongRoot, childRef(renamed)]);
+    const resolver: BundleResolver = { get: (ref) => (ref.bundle_id === "pr-9" ? pr1 : undefined) };
+    const codes = verifyBundle(release, { bundleResolver: resolver }).errors.map((e) => e.code);
+    expect(codes).toEqual([ErrorCode.REFERENCE_UNRESOLVED, ErrorCode.REFERENCE_MISMATCH]);
+  });
+
+  it("reports referenced bundles that fail verification", () => {
+    const pr1 = makeBundle("pr-1");
+    pr1.items[0].content = { tampered: true };
+    const release = makeBundle("release", [childRef(pr1)]);
+    const result = verifyBundle(release, { bundleResolver: memoryResolver([pr1]) });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.REFERENCE_INVALID]);
+    const nested = result.errors[0].details?.errors as { code: ErrorCode }[];
+    expect(nested.map((e) => e.code)).toEqual([ErrorCode.CONTENT_HASH_MISMATCH]);
+  });
+
+  it("detects cycles", () => {
+    const a = makeBundle("a");
+    const b = makeBundle("b", [childRef(a)]);
+    a.references = [{ ...childRef(b), relation: "parent" }];
+    const result = verifyBundle(a, { bundleResolver: memoryResolver([a, b]) });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.REFERENCE_INVALID]);
+    const nested = result.errors[0].details?.errors as { code: ErrorCode }[];
+    expect(nested.map((e) => e.code)).toEqual([ErrorCode.REFERENCE_CYCLE]);
+  });
+
+  it("enforces the depth limit", () => {
+    const leaf = makeBundle("leaf");
+    const mid = makeBundle("mid", [childRef(leaf)]);
+    const top = makeBundle("top", [childRef(mid)]);
+    const resolver = memoryResolver([leaf, mid]);
+    expect(verifyBundle(top, { bundleResolver: resolver, maxReferenceDepth: 2 }).valid).toBe(true);
+
+    const result = verifyBundle(top, { bundleResolver: resolver, maxReferenceDepth: 1 });
+    const nested = result.errors[0].details?.errors as { code: ErrorCode }[];
+    expect(nested.map((e) => e.code)).toEqual([ErrorCode.REFERENCE_DEPTH_EXCEEDED]);
+  });
+});
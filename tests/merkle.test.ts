@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  createMerkleAccumulator,
+  merkleAuditPath,
+  merkleConsistencyProof,
+  merkleLeafHash,
+  merkleNodeHash,
+  merkleRoot,
+  rootFromAuditPath,
+  verifyMerkleConsistency,
+} from "../src/merkle.js";
+
+function leaves(n: number): string[] {
+  return Array.from({ length: n }, (_, i) => merkleLeafHash(`leaf-${i}`));
+}
+
+describe("merkleRoot", () => {
+  it("returns the leaf itself for a single-leaf tree", () => {
+    const [leaf] = leaves(1);
+    expect(merkleRoot([leaf])).toBe(leaf);
+  });
+
+  it("splits at the largest power of two below n", () => {
+    const [a, b, c] = leaves(3);
+    expect(merkleRoot([a, b, c])).toBe(merkleNodeHash(merkleNodeHash(a, b), c));
+  });
+
+  it("domain-separates leaves from interior nodes", () => {
+    const [a, b] = leaves(2);
+    expect(merkleLeafHash(`${a}|${b}`)).not.toBe(merkleNodeHash(a, b));
+  });
+
+  it("throws on an empty tree", () => {
+    expect(() => merkleRoot([])).toThrow(/at least one leaf/);
+  });
+});
+
+describe("createMerkleAccumulator", () => {
+  it("matches merkleRoot after every leaf", () => {
+    const all = leaves(33);
+    const accumulator = createMerkleAccumulator();
+    all.forEach((leaf, i) => {
+      accumulator.add(leaf);
+      expect(accumulator.root()).toBe(merkleRoot(all.slice(0, i + 1)));
+    });
+  });
+
+  it("throws with no leaves", () => {
+    expect(() => createMerkleAccumulator().root()).toThrow("at least one leaf");
+  });
+});
+
+describe("audit paths", () => {
+  for (const size of [1, 2, 3, 5, 7, 8, 13]) {
+    it(`round-trips every leaf of a ${size}-leaf tree`, () => {
+      const tree = leaves(size);
+      const root = merkleRoot(tree);
+      for (let i = 0; i < size; i++) {
+        const path = merkleAuditPath(tree, i);
+        expect(rootFromAuditPath(tree[i], i, size, path)).toBe(root);
+      }
+    });
+  }
+
+  it("rejects a path that is too short or too long", () => {
+    const tree = leaves(5);
+    const path = merkleAuditPath(tree, 1);
+    expect(rootFromAuditPath(tree[1], 1, 5, path.slice(1))).toBeNull();
+    expect(rootFromAuditPath(tree[1], 1, 5, [...path, path[0]])).toBeNull();
+  });
+
+  it("rejects an index outside the tree", () => {
+    const tree = leaves(4);
+    expect(rootFromAuditPath(tree[0], 4, 4, [])).toBeNull();
+    expect(() => merkleAuditPath(tree, 4)).toThrow(/out of range/);
+  });
+
+  it("does not reproduce the root from the wrong index", () => {
+    const tree = leaves(6);
+    const root = merkleRoot(tree);
+    const path = merkleAuditPath(tree, 2);
+    expect(rootFromAuditPath(tree[2], 3, 6, path)).not.toBe(root);
+  });
+});
+
+describe("consistency proofs", () => {
+  it("verifies every prefix of trees up to 9 leaves", () => {
+    for (let n = 1; n <= 9; n++) {
+      const tree = leaves(n);
+      const newRoot = merkleRoot(tree);
+      for (let m = 1; m <= n; m++) {
+        const proof = merkleConsistencyProof(tree, m);
+        const oldRoot = merkleRoot(tree.slice(0, m));
+        expect(verifyMerkleConsistency(m, oldRoot, n, newRoot, proof)).toBe(true);
+      }
+    }
+  });
+
+  it("rejects a rewritten prefix", () => {
+    const tree = leaves(7);
+    const rewritten = [...tree];
+    rewritten[1] = merkleLeafHash("replaced");
+    const proof = merkleConsistencyProof(rewritten, 3);
+    expect(verifyMerkleConsistency(3, merkleRoot(tree.slice(0, 3)), 7, merkleRoot(rewritten), proof)).toBe(false);
+  });
+
+  it("rejects a tampered or truncated proof", () => {
+    const tree = leaves(6);
+    const oldRoot = merkleRoot(tree.slice(0, 3));
+    const newRoot = merkleRoot(tree);
+    const proof = merkleConsistencyProof(tree, 3);
+    expect(verifyMerkleConsistency(3, oldRoot, 6, newRoot, proof.slice(1))).toBe(false);
+    expect(verifyMerkleConsistency(3, oldRoot, 6, newRoot, [...proof, proof[0]])).toBe(false);
+    expect(verifyMerkleConsistency(3, oldRoot, 6, newRoot, [merkleLeafHash("x"), ...proof.slice(1)])).toBe(false);
+  });
+
+  it("rejects sizes out of order", () => {
+    const tree = leaves(4);
+    expect(verifyMerkleConsistency(4, merkleRoot(tree), 2, merkleRoot(tree.slice(0, 2)), [])).toBe(false);
+    expect(() => merkleConsistencyProof(tree, 0)).toThrow(/out of range/);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import {
+  canonicalJson,
+  parseBundle,
+  sealBundle,
+  verifyBundle,
+  verifyBundleDetailed,
+  ErrorCode,
+} from "../src/index.js";
+import type { EvidenceBundle } from "../src/index.js";
+
+function makeValidBundle(): EvidenceBundle {
+  const result = sealBundle({
+    items: [{ item_id: "i1", content_type: "test/a", content: { note: "café ☕", val: 1.5 } }],
+  });
+  return {
+    bundle_id: "parse-test",
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+  };
+}
+
+const utf8 = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+describe("parseBundle", () => {
+  it("parses canonical bytes and reports them as canonical", () => {
+    const bundle = makeValidBundle();
+    const parsed = parseBundle(utf8(canonicalJson(bundle)));
+    expect(parsed.bundle).toEqual(bundle);
+    expect(parsed.canonical).toBe(true);
+  });
+
+  it("reports formatted bytes as non-canonical", () => {
+    const bundle = makeValidBundle();
+    const parsed = parseBundle(utf8(JSON.stringify(bundle, null, 2)));
+    expect(parsed.bundle).toEqual(bundle);
+    expect(parsed.canonical).toBe(false);
+    expect(parseBundle(utf8('{"b":1,"a":2}')).canonical).toBe(false);
+    expect(parseBundle(utf8('{"a":"\\u00e9"}')).canonical).toBe(false);
+  });
+
+  it("agrees with JSON.parse on escapes, numbers and literals", () => {
+    const text = '{"s":"a\\"b\\\\c\\/\\b\\f\\n\\r\\t\\u263A\\uD83D\\uDE00","n":[0,-0.5,1e3,2E-2,-12],"l":[true,false,null]}';
+    expect(parseBundle(utf8(text)).bundle).toEqual(JSON.parse(text));
+  });
+
+  it("keeps a __proto__ key as data", () => {
+    const { bundle } = parseBundle(utf8('{"__proto__":{"polluted":true}}'));
+    expect(Object.keys(bundle)).toEqual(["__proto__"]);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it("rejects duplicate keys, including escaped ones", () => {
+    expect(() => parseBundle(utf8('{"bundle_id":"a","bundle_id":"b"}'))).toThrow(
+      'parseBundle: duplicate key "bundle_id" at byte 17 (/)',
+    );
+    expect(() => parseBundle(utf8('{"items":[{"a/b":1,"a\\/b":2}]}'))).toThrow(
+      'duplicate key "a/b" at byte 19 (/items/0)',
+    );
+  });
+
+  it("rejects invalid UTF-8 at the offending byte", () => {
+    const cases: [number[], number][] = [
+      [[0x7b, 0x22, 0xff, 0x22], 2],
+      [[0x22, 0xc0, 0xaf, 0x22], 1], // overlong "/"
+      [[0x22, 0xed, 0xa0, 0x80, 0x22], 1], // encoded surrogate
+      [[0x22, 0xf4, 0x90, 0x80, 0x80, 0x22], 1], // above U+10FFFF
+      [[0x22, 0xe2, 0x98], 1], // truncated
+    ];
+    for (const [bytes, offset] of cases) {
+      expect(() => parseBundle(new Uint8Array(bytes))).toThrow(`invalid UTF-8 at byte ${offset}`);
+    }
+    expect(() => parseBundle(new Uint8Array([0xef, 0xbb, 0xbf, 0x7b, 0x7d]))).toThrow(
+      "unexpected byte 0xef at byte 0",
+    );
+  });
+
+  it("rejects numbers outside double range", () => {
+    expect(() => parseBundle(utf8('{"n":1e400}'))).toThrow("number 1e400 overflows an IEEE-754 double at byte 5 (/n)");
+    expect(() => parseBundle(utf8('{"n":[-1e-400]}'))).toThrow("underflows an IEEE-754 double at byte 6 (/n/0)");
+    expect(parseBundle(utf8('{"n":0e400}')).bundle).toEqual({ n: 0 });
+  });
+
+  it("handles number literals longer than the argument limit", () => {
+    expect(() => parseBundle(utf8(`{"a":${"1".repeat(300_000)}}`))).toThrow(
+      `number ${"1".repeat(32)}... overflows an IEEE-754 double at byte 5 (/a)`,
+    );
+    expect(parseBundle(utf8(`{"a":1.${"0".repeat(300_000)}}`)).bundle).toEqual({ a: 1 });
+  });
+
+  it("rejects malformed JSON", () => {
+    for (const text of [
+      "",
+      "[]",
+      '{"a":1}x',
+      '{"a":01}',
+      '{"a":.5}',
+      '{"a":1,}',
+      "{'a':1}",
+      '{"a":"\u0001"}',
+      '{"a":"\\x"}',
+      '{"a":"\\u12G4"}',
+      '{"a":tru}',
+      '{"a":1',
+      '{"a" 1}',
+    ]) {
+      expect(() => parseBundle(utf8(text)), text).toThrow(/^parseBundle: /);
+    }
+  });
+
+  it("bounds nesting depth", () => {
+    const deep = `{"a":${"[".repeat(600)}${"]".repeat(600)}}`;
+    expect(() => parseBundle(utf8(deep))).toThrow("nesting exceeds 512 levels");
+  });
+});
+
+describe("verifyBundle with bytes", () => {
+  it("verifies parsed bytes like the object", () => {
+    const bundle = makeValidBundle();
+    expect(verifyBundle(utf8(JSON.stringify(bundle)))).toEqual(verifyBundle(bundle));
+    expect(verifyBundle(utf8(JSON.stringify(bundle))).valid).toBe(true);
+  });
+
+  it("fails a duplicate-key bundle that JSON.parse would accept", () => {
+    const bundle = makeValidBundle();
+    const text = JSON.stringify(bundle).replace(/}$/, ',"bundle_id":"other"}');
+    expect(verifyBundle(JSON.parse(text)).valid).toBe(true);
+
+    const result = verifyBundle(utf8(text));
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.BUNDLE_PARSE_FAILED]);
+    expect(result.errors[0].details).toMatchObject({ reason: 'duplicate key "bundle_id"', pointer: "" });
+  });
+
+  it("reports an overlong number literal as a parse failure", () => {
+    const result = verifyBundle(utf8(`{"a":${"1".repeat(300_000)}}`));
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.BUNDLE_PARSE_FAILED]);
+    expect(result.errors[0].details).toMatchObject({ pointer: "/a" });
+  });
+
+  it("records the parse step in detailed reports", () => {
+    const bundle = makeValidBundle();
+    const report = verifyBundleDetailed(utf8(canonicalJson(bundle)));
+    expect(report.valid).toBe(true);
+    expect(report.steps[0]).toEqual({
+      step: "parse",
+      status: "passed",
+      inputs: { byte_length: utf8(canonicalJson(bundle)).length, canonical: true },
+      errors: [],
+    });
+
+    const failed = verifyBundleDetailed(utf8("{"));
+    expect(failed.steps[0].status).toBe("failed");
+    expect(failed.steps.slice(1).every((step) => step.status === "skipped")).toBe(true);
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect } from "vitest";
+import { evaluatePolicy, resolveField, sealBundle } from "../src/index.js";
+import type {
+  EvidenceBundle,
+  FieldCondition,
+  PolicyCondition,
+  PolicyPack,
+  PolicyRule,
+} from "../src/index.js";
+
+function makeBundle(): EvidenceBundle {
+  const result = sealBundle({
+    items: [
+      { item_id: "t1", content_type: "guardspine/test-result", content: { passed: true, duration_ms: 120 } },
+      { item_id: "r1", content_type: "guardspine/rubric-result", content: { rubric: "nasa", violations_found: 2 } },
+    ],
+  });
+
+  return {
+    bundle_id: "test-bundle-001",
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    risk_tier: "L2",
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+    metadata: { scope: "repo:guardspine-kernel", reviewers: ["alice", "bob"] },
+  };
+}
+
+function rule(
+  condition: FieldCondition,
+  severity: PolicyRule["severity"] = "high",
+): PolicyRule {
+  return { rule_id: `r-${condition.field}-${condition.operator}`, name: "rule", severity, condition };
+}
+
+function pack(...rules: PolicyRule[]): PolicyPack {
+  return { policy_id: "p1", version: "1.0.0", name: "test pack", rules };
+}
+
+describe("resolveField", () => {
+  it("resolves dotted paths and array indices", () => {
+    const bundle = makeBundle();
+    expect(resolveField(bundle, "risk_tier")).toBe("L2");
+    expect(resolveField(bundle, "metadata.scope")).toBe("repo:guardspine-kernel");
+    expect(resolveField(bundle, "items.1.content.violations_found")).toBe(2);
+  });
+
+  it("projects over arrays", () => {
+    expect(resolveField(makeBundle(), "items.content_type")).toEqual([
+      "guardspine/test-result",
+      "guardspine/rubric-result",
+    ]);
+  });
+
+  it("does not read inherited properties", () => {
+    expect(resolveField(makeBundle(), "metadata.constructor")).toBeUndefined();
+    expect(resolveField(makeBundle(), "__proto__")).toBeUndefined();
+  });
+
+  it("projects over large nested arrays", () => {
+    const rows = Array.from({ length: 300_000 }, (_, i) => ({ id: i }));
+    const root = { sbom: [rows], log: rows.map(({ id }) => id) };
+    expect(resolveField(root, "sbom.id")).toHaveLength(300_000);
+
+    const result = evaluatePolicy(
+      root as unknown as EvidenceBundle,
+      pack(
+        rule({ field: "sbom.id", operator: "contains", value: 299_999 }),
+        rule({ field: "$.log[*]", operator: "contains", value: 0 }),
+      ),
+    );
+    expect(result.results.map((r) => [r.passed, r.error])).toEqual([[true, undefined], [true, undefined]]);
+  });
+});
+
+describe("evaluatePolicy", () => {
+  it("applies every operator", () => {
+    const result = evaluatePolicy(
+      makeBundle(),
+      pack(
+        rule({ field: "risk_tier", operator: "eq", value: "L2" }),
+        rule({ field: "risk_tier", operator: "neq", value: "L4" }),
+        rule({ field: "items.1.content.violations_found", operator: "gt", value: 1 }),
+        rule({ field: "items.1.content.violations_found", operator: "gte", value: 2 }),
+        rule({ field: "items.0.content.duration_ms", operator: "lt", value: 500 }),
+        rule({ field: "created_at", operator: "lte", value: "2026-02-01T00:00:00Z" }),
+        rule({ field: "metadata.reviewers", operator: "contains", value: "alice" }),
+        rule({ field: "metadata.scope", operator: "matches", value: "^repo:" }),
+        rule({ field: "policy_id", operator: "exists", value: false }),
+        rule({ field: "items.content_type", operator: "contains", value: "guardspine/test-result" }),
+      ),
+    );
+    expect(result.results.filter((r) => !r.passed)).toEqual([]);
+    expect(result.verdict).toBe("pass");
+  });
+
+  it("reports failures with severity and observed value", () => {
+    const result = evaluatePolicy(
+      makeBundle(),
+      pack(rule({ field: "items.1.content.violations_found", operator: "eq", value: 0 }, "critical")),
+    );
+    expect(result.verdict).toBe("fail");
+    expect(result.policyId).toBe("p1");
+    expect(result.results[0]).toMatchObject({ passed: false, severity: "critical", observed: 2 });
+  });
+
+  it("does not fail the verdict below failOnSeverity", () => {
+    const failing = pack(rule({ field: "risk_tier", operator: "eq", value: "L4" }, "info"));
+    expect(evaluatePolicy(makeBundle(), failing).verdict).toBe("pass");
+    expect(evaluatePolicy(makeBundle(), failing, { failOnSeverity: "info" }).verdict).toBe("fail");
+  });
+
+  it("fails rules that cannot be evaluated", () => {
+    const result = evaluatePolicy(
+      makeBundle(),
+      pack(rule({ field: "metadata.scope", operator: "matches", value: "(" })),
+    );
+    expect(result.results[0].passed).toBe(false);
+    expect(result.results[0].error).toBeDefined();
+  });
+
+  it("does not coerce types in comparisons", () => {
+    const result = evaluatePolicy(
+      makeBundle(),
+      pack(rule({ field: "items.1.content.violations_found", operator: "gt", value: "1" })),
+    );
+    expect(result.results[0].passed).toBe(false);
+  });
+
+  it("throws when rules is not an array", () => {
+    expect(() => evaluatePolicy(makeBundle(), { policy_id: "p", version: "1", name: "n" } as PolicyPack)).toThrow(
+      "pack.rules must be an array",
+    );
+  });
+});
+
+describe("evaluatePolicy combinators (schema 0.2.0)", () => {
+  function evaluate(condition: PolicyCondition, bundle = makeBundle()) {
+    const result = evaluatePolicy(bundle, {
+      policy_id: "p2",
+      version: "1.0.0",
+      name: "composite",
+      schema_version: "0.2.0",
+      rules: [{ rule_id: "r1", name: "rule", severity: "high", condition }],
+    });
+    return result.results[0];
+  }
+
+  const testsPass: PolicyCondition = {
+    every: {
+      content_type: "guardspine/test-result",
+      condition: { field: "content.passed", operator: "eq", value: true },
+    },
+  };
+  const noViolationsUnlessApproved: PolicyCondition = {
+    any: [
+      {
+        none: {
+          content_type: "guardspine/rubric-result",
+          condition: { field: "content.violations_found", operator: "gt", value: 0 },
+        },
+      },
+      { some: { content_type: "guardspine/approval" } },
+    ],
+  };
+
+  it("every checks each item of a content_type", () => {
+    const result = evaluate(testsPass);
+    expect(result.passed).toBe(true);
+    expect(result.observed).toEqual({ selected: ["t1"], matched: ["t1"] });
+  });
+
+  it("every fails when one item does not match", () => {
+    const bundle = makeBundle();
+    bundle.items[0].content = { passed: false };
+    expect(evaluate(testsPass, bundle).passed).toBe(false);
+  });
+
+  it("every over zero items is true", () => {
+    expect(evaluate({ every: { content_type: "guardspine/none", condition: testsPass } }).passed).toBe(true);
+  });
+
+  it("none/some express 'unless an approval exists'", () => {
+    expect(evaluate(noViolationsUnlessApproved).passed).toBe(false);
+
+    const approved = makeBundle();
+    approved.items.push({
+      item_id: "a1",
+      content_type: "guardspine/approval",
+      content: { approver: "alice" },
+      content_hash: "sha256:unused",
+      sequence: 2,
+    });
+    expect(evaluate(noViolationsUnlessApproved, approved).passed).toBe(true);
+  });
+
+  it("all and not combine field conditions", () => {
+    expect(
+      evaluate({
+        all: [
+          { field: "risk_tier", operator: "eq", value: "L2" },
+          { not: { field: "metadata.reviewers", operator: "contains", value: "mallory" } },
+        ],
+      }).passed,
+    ).toBe(true);
+    expect(evaluate({ not: { field: "risk_tier", operator: "eq", value: "L2" } }).passed).toBe(false);
+  });
+
+  it("fails rules nested beyond the depth limit", () => {
+    let condition: PolicyCondition = { field: "risk_tier", operator: "exists" };
+    for (let i = 0; i < 40; i++) {
+      condition = { not: condition };
+    }
+    const result = evaluate(condition);
+    expect(result.passed).toBe(false);
+    expect(result.error).toContain("nesting");
+  });
+
+  it("rejects combinators in packs without schema_version", () => {
+    expect(() =>
+      evaluatePolicy(makeBundle(), {
+        policy_id: "p1",
+        version: "1.0.0",
+        name: "old",
+        rules: [{ rule_id: "r1", name: "rule", severity: "high", condition: testsPass }],
+      }),
+    ).toThrow("require schema_version 0.2.0");
+  });
+
+  it("rejects an unknown schema_version", () => {
+    expect(() =>
+      evaluatePolicy(makeBundle(), {
+        policy_id: "p1",
+        version: "1.0.0",
+        name: "future",
+        schema_version: "9.0.0" as "0.2.0",
+        rules: [],
+      }),
+    ).toThrow("unsupported schema_version");
+  });
+});
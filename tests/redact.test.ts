@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  isRedactedContent,
+  redactItems,
+  sealBundle,
+  signBundle,
+  verifyBundle,
+  verifyContentHashes,
+  ErrorCode,
+} from "../src/index.js";
+import type { EvidenceBundle } from "../src/index.js";
+
+function makeValidBundle(): EvidenceBundle {
+  const result = sealBundle({
+    items: [
+      { item_id: "finding", content_type: "guardspine/finding", content: { rule: "no-secrets" } },
+      { item_id: "rationale", content_type: "guardspine/rationale", content: { text: "internal" } },
+      { item_id: "customer", content_type: "guardspine/customer-data", content: { email: "a@b.c" } },
+    ],
+  });
+
+  return {
+    bundle_id: "test-bundle-001",
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+  };
+}
+
+describe("redactItems", () => {
+  it("replaces content with the marker and keeps content_hash", () => {
+    const bundle = makeValidBundle();
+    const redacted = redactItems(bundle, ["rationale"]);
+    expect(redacted.items[1].content).toEqual({ _redacted: true });
+    expect(redacted.items[1].content_hash).toBe(bundle.items[1].content_hash);
+    expect(redacted.items[0]).toBe(bundle.items[0]);
+    expect(bundle.items[1].content).toEqual({ text: "internal" });
+  });
+
+  it("verifies with redacted items reported rather than tampered", () => {
+    const redacted = redactItems(makeValidBundle(), ["rationale", "customer"]);
+    expect(verifyBundle(redacted)).toEqual({
+      valid: true,
+      errors: [],
+      redactedItems: ["rationale", "customer"],
+    });
+  });
+
+  it("omits redactedItems when nothing is redacted", () => {
+    expect(verifyBundle(makeValidBundle())).toEqual({ valid: true, errors: [] });
+  });
+
+  it("still reports edited content as tampered", () => {
+    const bundle = makeValidBundle();
+    bundle.items[1].content = { _redacted: true, text: "edited" };
+    const result = verifyContentHashes(bundle.items);
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.CONTENT_HASH_MISMATCH]);
+    expect(result.redactedItems).toBeUndefined();
+  });
+
+  it("enforces non-redactable content types", () => {
+    const redacted = redactItems(makeValidBundle(), ["finding", "rationale"]);
+    const result = verifyBundle(redacted, {
+      nonRedactableContentTypes: ["guardspine/finding"],
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe(ErrorCode.REDACTION_NOT_ALLOWED);
+    expect(result.errors[0].details).toMatchObject({ item_id: "finding" });
+    expect(result.redactedItems).toEqual(["rationale"]);
+  });
+
+  it("drops signatures, which cover the original content", () => {
+    const signed = signBundle(makeValidBundle(), {
+      algorithm: "hmac-sha256",
+      signerId: "alice",
+      hmacSecret: "x",
+    });
+    const redacted = redactItems(signed, ["customer"]);
+    expect(redacted.signatures).toBeUndefined();
+    expect(verifyBundle(redacted, { hmacSecret: "x" }).valid).toBe(true);
+  });
+
+  it("leaves no proof of the original signer on the redacted copy", () => {
+    const signed = signBundle(makeValidBundle(), {
+      algorithm: "hmac-sha256",
+      signerId: "alice",
+      hmacSecret: "x",
+    });
+    const options = { hmacSecret: "x", signaturePolicy: { minSignatures: 1, allowedSigners: ["alice"] } };
+    expect(verifyBundle(signed, options).valid).toBe(true);
+
+    const redacted = redactItems(signed, ["customer"]);
+    expect(verifyBundle(redacted, options).valid).toBe(false);
+
+    // Putting the original signature back does not help: it covers the unredacted content.
+    const restored = { ...redacted, signatures: signed.signatures };
+    const result = verifyBundle(restored, options);
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.code)).toContain(ErrorCode.SIGNATURE_INVALID);
+  });
+
+  it("throws for unknown item ids", () => {
+    expect(() => redactItems(makeValidBundle(), ["missing"])).toThrow(/not found/);
+  });
+});
+
+describe("isRedactedContent", () => {
+  it("matches only the exact marker", () => {
+    expect(isRedactedContent({ _redacted: true })).toBe(true);
+    expect(isRedactedContent({ _redacted: "true" })).toBe(false);
+    expect(isRedactedContent({ _redacted: true, extra: 1 })).toBe(false);
+    expect(isRedactedContent([{ _redacted: true }])).toBe(false);
+    expect(isRedactedContent(null)).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import {
+  EVIDENCE_BUNDLE_SCHEMA,
+  sealBundle,
+  signBundle,
+  validateBundleSchema,
+  validateSchema,
+  verifyBundle,
+  ErrorCode,
+} from "../src/index.js";
+import type { EvidenceBundle } from "../src/index.js";
+
+function makeValidBundle(): EvidenceBundle {
+  const result = sealBundle({
+    items: [
+      { item_id: "i1", content_type: "test/a", content: { val: 1 } },
+      { item_id: "i2", content_type: "test/b", content: [1, 2] },
+    ],
+  });
+
+  return {
+    bundle_id: "3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e",
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+  };
+}
+
+function pointers(value: unknown, assertFormats = true): string[] {
+  return validateBundleSchema(value, { assertFormats }).errors.map(
+    (error) => `${error.details?.pointer}:${error.details?.keyword}`,
+  );
+}
+
+describe("EVIDENCE_BUNDLE_SCHEMA", () => {
+  it("is identical to evidence-bundle.schema.json", () => {
+    const file = JSON.parse(
+      readFileSync(new URL("../src/schemas/evidence-bundle.schema.json", import.meta.url), "utf-8"),
+    );
+    expect(EVIDENCE_BUNDLE_SCHEMA).toEqual(file);
+  });
+});
+
+describe("validateBundleSchema", () => {
+  it("accepts a sealed, signed bundle", () => {
+    const bundle = signBundle(makeValidBundle(), {
+      algorithm: "hmac-sha256",
+      signerId: "ci",
+      hmacSecret: "secret",
+    });
+    expect(validateBundleSchema(bundle)).toEqual({ valid: true, errors: [] });
+  });
+
+  it("accepts the golden fixtures", () => {
+    for (const name of ["local-council.bundle.json", "openclaw-hardening.bundle.json"]) {
+      const raw = readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf-8");
+      expect(validateBundleSchema(JSON.parse(raw)).errors).toEqual([]);
+    }
+  });
+
+  it("locates violations with JSON Pointers", () => {
+    const bundle = makeValidBundle() as unknown as Record<string, any>;
+    bundle.items[1].content_hash = "sha256:XYZ";
+    bundle.items[0].sequence = -1;
+    bundle.immutability_proof.hash_chain[0].chain_hash = 42;
+    bundle.signatures = [{ signature_id: "s", algorithm: "ed25519", signer_id: "x", signature_value: "AA==" }];
+    expect(pointers(bundle)).toEqual([
+      "/items/0/sequence:minimum",
+      "/items/1/content_hash:pattern",
+      "/immutability_proof/hash_chain/0/chain_hash:type",
+      "/signatures/0:required",
+    ]);
+  });
+
+  it("enforces minItems and primitive content", () => {
+    expect(pointers({ ...makeValidBundle(), items: [] })).toEqual(["/items:minItems"]);
+    const bundle = makeValidBundle() as unknown as Record<string, any>;
+    bundle.items[0].content = "text";
+    expect(pointers(bundle)).toEqual(["/items/0/content:type"]);
+  });
+
+  it("checks uuid and date-time formats unless disabled", () => {
+    const bundle = { ...makeValidBundle(), bundle_id: "test-bundle-001", created_at: "2026-02-30T00:00:00Z" };
+    expect(pointers(bundle)).toEqual(["/bundle_id:format", "/created_at:format"]);
+    expect(pointers(bundle, false)).toEqual([]);
+  });
+
+  it("escapes pointer segments", () => {
+    const bundle = {
+      ...makeValidBundle(),
+      version: "0.2.1",
+      sanitization: {
+        rules_applied: ["email"],
+        ruleset_hash: `sha256:${"0".repeat(64)}`,
+        item_redactions: { "a/b~c": { email: -1 } },
+        redaction_count: 0,
+      },
+    };
+    expect(pointers(bundle)).toEqual(["/sanitization/item_redactions/a~1b~0c/email:minimum"]);
+  });
+
+  it("reports a non-object bundle", () => {
+    const result = validateBundleSchema("bundle");
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe(ErrorCode.INPUT_VALIDATION_FAILED);
+    expect(result.errors[0].details?.pointer).toBe("");
+  });
+});
+
+describe("validateSchema", () => {
+  it("throws on keywords outside the supported subset", () => {
+    expect(() => validateSchema({}, { type: "object", oneOf: [] })).toThrow(/unsupported keyword oneOf/);
+  });
+});
+
+describe("verifyBundle schema step", () => {
+  it("reports a wrongly typed field instead of throwing", () => {
+    const bundle = makeValidBundle() as unknown as Record<string, any>;
+    bundle.items[0].content_hash = 7;
+    const result = verifyBundle(bundle as EvidenceBundle);
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => [e.code, e.details?.pointer])).toEqual([
+      [ErrorCode.INPUT_VALIDATION_FAILED, "/items/0/content_hash"],
+    ]);
+  });
+
+  it("asserts formats only when asked", () => {
+    const bundle = { ...makeValidBundle(), bundle_id: "test-bundle-001" };
+    expect(verifyBundle(bundle).valid).toBe(true);
+    const strict = verifyBundle(bundle, { assertSchemaFormats: true });
+    expect(strict.errors.map((e) => e.details?.pointer)).toEqual(["/bundle_id"]);
+  });
+});
@@ -5,6 +5,7 @@ import {
   computeRootHash,
   sealBundle,
   canonicalJson,
+  verifyBundle,
 } from "../src/index.js";
 import type { EvidenceItem } from "../src/schemas/evidence-bundle.js";
 
@@ -37,6 +38,54 @@ describe("canonicalJson", () => {
   });
 });
 
+describe("canonicalJson strict mode", () => {
+  const strict = (value: unknown) => () => canonicalJson(value, { strict: true });
+
+  it("rejects non-finite numbers with the path to them", () => {
+    expect(strict({ a: [1, NaN] })).toThrow("canonicalJson: NaN is not representable in JSON at /a/1");
+    expect(strict({ x: -Infinity })).toThrow("-Infinity is not representable in JSON at /x");
+    expect(canonicalJson({ a: [1, NaN] })).toBe('{"a":[1,null]}');
+  });
+
+  it("rejects values JSON has no literal for", () => {
+    expect(strict([undefined])).toThrow("undefined is not representable in JSON at /0");
+    expect(strict({ f: () => 1 })).toThrow("function is not representable in JSON at /f");
+    expect(strict({ s: Symbol("s") })).toThrow("symbol is not representable in JSON at /s");
+    expect(strict({ n: 10n })).toThrow("bigint is not representable in JSON at /n");
+    expect(canonicalJson([undefined, new Array(1)])).toBe("[null,[null]]");
+  });
+
+  it("still omits undefined object properties", () => {
+    expect(canonicalJson({ a: 1, b: undefined }, { strict: true })).toBe('{"a":1}');
+  });
+
+  it("rejects non-plain objects", () => {
+    class Finding {
+      severity = "high";
+    }
+    expect(strict({ at: new Date(0) })).toThrow("non-plain object Date at /at");
+    expect(strict({ m: new Map() })).toThrow("non-plain object Map at /m");
+    expect(strict([new Finding()])).toThrow("non-plain object Finding at /0");
+    expect(canonicalJson(Object.create(null), { strict: true })).toBe("{}");
+    expect(canonicalJson({ at: new Date(0) })).toBe('{"at":{}}');
+  });
+
+  it("rejects lone surrogates in strings and keys", () => {
+    expect(strict({ "a/b": "x\uD800" })).toThrow("lone UTF-16 surrogate at /a~1b");
+    expect(strict({ "\uDC00": 1 })).toThrow("key contains a lone UTF-16 surrogate");
+    expect(canonicalJson("\uD83D\uDE00", { strict: true })).toBe('"\uD83D\uDE00"');
+  });
+
+  it("rejects cycles in both modes", () => {
+    const looped: Record<string, unknown> = { a: {} };
+    (looped.a as Record<string, unknown>).back = looped;
+    expect(strict(looped)).toThrow("cyclic reference at /a/back");
+    expect(() => canonicalJson(looped)).toThrow("cyclic reference");
+    const shared = { v: 1 };
+    expect(canonicalJson([shared, shared], { strict: true })).toBe('[{"v":1},{"v":1}]');
+  });
+});
+
 describe("computeContentHash", () => {
   it("returns sha256:<hex> format", () => {
     const hash = computeContentHash({ hello: "world" });
@@ -146,6 +195,27 @@ describe("sealBundle", () => {
       })
     ).toThrow("missing item_id");
   });
+
+  it("canonicalizes content strictly by default", () => {
+    const items = [{ item_id: "i1", content_type: "test/a", content: { score: NaN } }];
+    expect(() => sealBundle({ items })).toThrow(
+      "buildHashChain: item 0 (i1) content: canonicalJson: NaN is not representable in JSON at /score",
+    );
+  });
+
+  it("seals legacy content with lenient canonicalization", () => {
+    const items = [{ item_id: "i1", content_type: "test/a", content: { score: NaN } }];
+    const result = sealBundle({ items }, { canonicalization: "lenient" });
+    expect(result.items[0].content_hash).toBe(computeContentHash({ score: null }));
+    const bundle = {
+      bundle_id: "legacy",
+      version: "0.2.0" as const,
+      created_at: "2026-01-29T00:00:00Z",
+      items: result.items,
+      immutability_proof: result.immutabilityProof,
+    };
+    expect(verifyBundle(bundle).valid).toBe(true);
+  });
 });
 
 describe("buildHashChain guards", () => {
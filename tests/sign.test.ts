@@ -0,0 +1,244 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import {
+  addSignature,
+  canonicalJson,
+  createLocalSigner,
+  createSignature,
+  signBundleWithSigner,
+  sealBundle,
+  signBundle,
+  verifyBundle,
+  ErrorCode,
+} from "../src/index.js";
+import type { EvidenceBundle, Signer } from "../src/index.js";
+
+function makeValidBundle(): EvidenceBundle {
+  const result = sealBundle({
+    items: [
+      { item_id: "i1", content_type: "test/a", content: { val: 1 } },
+      { item_id: "i2", content_type: "test/b", content: { val: 2 } },
+    ],
+  });
+
+  return {
+    bundle_id: "test-bundle-001",
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+  };
+}
+
+function pemPair(type: "ed25519" | "rsa" | "ec") {
+  const pair =
+    type === "rsa"
+      ? generateKeyPairSync("rsa", { modulusLength: 2048 })
+      : type === "ec"
+        ? generateKeyPairSync("ec", { namedCurve: "prime256v1" })
+        : generateKeyPairSync("ed25519");
+  return {
+    privateKey: pair.privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicKey: pair.publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+describe("signBundle", () => {
+  const cases = [
+    { algorithm: "ed25519", keyType: "ed25519" },
+    { algorithm: "rsa-sha256", keyType: "rsa" },
+    { algorithm: "ecdsa-p256", keyType: "ec" },
+  ] as const;
+
+  for (const { algorithm, keyType } of cases) {
+    it(`round-trips ${algorithm} with verifyBundle`, () => {
+      const keys = pemPair(keyType);
+      const signed = signBundle(makeValidBundle(), {
+        algorithm,
+        signerId: "ci-bot",
+        privateKey: keys.privateKey,
+        publicKeyId: "k1",
+      });
+
+      expect(signed.signatures).toHaveLength(1);
+      const sig = signed.signatures![0];
+      expect(sig.algorithm).toBe(algorithm);
+      expect(sig.signer_id).toBe("ci-bot");
+      expect(sig.public_key_id).toBe("k1");
+      expect(sig.signature_id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(Number.isNaN(Date.parse(sig.signed_at))).toBe(false);
+
+      const result = verifyBundle(signed, { publicKeys: { k1: keys.publicKey } });
+      expect(result.valid).toBe(true);
+    });
+  }
+
+  it("round-trips hmac-sha256 with verifyBundle", () => {
+    const signed = signBundle(makeValidBundle(), {
+      algorithm: "hmac-sha256",
+      signerId: "ci-bot",
+      hmacSecret: "s3cret",
+    });
+    expect(verifyBundle(signed, { hmacSecret: "s3cret" }).valid).toBe(true);
+    expect(verifyBundle(signed, { hmacSecret: "wrong" }).valid).toBe(false);
+  });
+
+  it("accepts a raw base64 Ed25519 seed", () => {
+    const pair = generateKeyPairSync("ed25519");
+    const seed = pair.privateKey.export({ format: "jwk" }).d!;
+    const publicRaw = Buffer.from(pair.publicKey.export({ format: "jwk" }).x!, "base64url");
+    const signed = signBundle(makeValidBundle(), {
+      algorithm: "ed25519",
+      signerId: "ci-bot",
+      privateKey: Buffer.from(seed, "base64url").toString("base64"),
+    });
+    const result = verifyBundle(signed, { publicKeys: { default: publicRaw.toString("base64") } });
+    expect(result.valid).toBe(true);
+  });
+
+  it("does not mutate the input bundle", () => {
+    const bundle = makeValidBundle();
+    signBundle(bundle, { algorithm: "hmac-sha256", signerId: "a", hmacSecret: "x" });
+    expect(bundle.signatures).toBeUndefined();
+  });
+
+  it("detects tampering after signing", () => {
+    const signed = signBundle(makeValidBundle(), {
+      algorithm: "hmac-sha256",
+      signerId: "a",
+      hmacSecret: "x",
+    });
+    signed.metadata = { injected: true };
+    const codes = verifyBundle(signed, { hmacSecret: "x" }).errors.map((e) => e.code);
+    expect(codes).toContain(ErrorCode.SIGNATURE_INVALID);
+  });
+
+  it("rejects a key that does not match the algorithm", () => {
+    const keys = pemPair("ed25519");
+    expect(() =>
+      signBundle(makeValidBundle(), {
+        algorithm: "rsa-sha256",
+        signerId: "a",
+        privateKey: keys.privateKey,
+      }),
+    ).toThrow("cannot produce rsa-sha256");
+  });
+
+  it("throws when key material is missing", () => {
+    expect(() =>
+      signBundle(makeValidBundle(), { algorithm: "hmac-sha256", signerId: "a" }),
+    ).toThrow("requires hmacSecret");
+    expect(() =>
+      signBundle(makeValidBundle(), { algorithm: "ed25519", signerId: "a" }),
+    ).toThrow("requires privateKey");
+  });
+});
+
+describe("addSignature", () => {
+  it("supports multiple independent signatures", () => {
+    const bundle = makeValidBundle();
+    const first = createSignature(bundle, {
+      algorithm: "hmac-sha256",
+      signerId: "a",
+      hmacSecret: "x",
+      signatureId: "sig-a",
+    });
+    const second = createSignature(bundle, {
+      algorithm: "hmac-sha256",
+      signerId: "b",
+      hmacSecret: "x",
+      signatureId: "sig-b",
+    });
+    const signed = addSignature(addSignature(bundle, first), second);
+    expect(signed.signatures!.map((s) => s.signature_id)).toEqual(["sig-a", "sig-b"]);
+    expect(verifyBundle(signed, { hmacSecret: "x" }).valid).toBe(true);
+  });
+
+  it("rejects a duplicate signature_id", () => {
+    const bundle = makeValidBundle();
+    const sig = createSignature(bundle, {
+      algorithm: "hmac-sha256",
+      signerId: "a",
+      hmacSecret: "x",
+      signatureId: "dup",
+    });
+    expect(() => addSignature(addSignature(bundle, sig), sig)).toThrow("duplicate signature_id");
+  });
+});
+
+describe("signBundleWithSigner", () => {
+  it("round-trips every algorithm through a local signer", async () => {
+    const ed = pemPair("ed25519");
+    const ec = pemPair("ec");
+    const signers: Signer[] = [
+      createLocalSigner({ keyId: "ed", algorithm: "ed25519", privateKey: ed.privateKey }),
+      createLocalSigner({ keyId: "ec", algorithm: "ecdsa-p256", privateKey: ec.privateKey }),
+      createLocalSigner({ keyId: "mac", algorithm: "hmac-sha256", hmacSecret: "x" }),
+    ];
+
+    let bundle = makeValidBundle();
+    for (const signer of signers) {
+      bundle = await signBundleWithSigner(bundle, signer, { signerId: `bot-${signer.keyId}` });
+    }
+
+    expect(bundle.signatures!.map((s) => s.public_key_id)).toEqual(["ed", "ec", "mac"]);
+    const result = verifyBundle(bundle, {
+      publicKeys: { ed: ed.publicKey, ec: ec.publicKey },
+      hmacSecret: "x",
+    });
+    expect(result.valid).toBe(true);
+  });
+
+  it("produces the same signature as signBundle", async () => {
+    const keys = pemPair("ed25519");
+    const bundle = makeValidBundle();
+    const fields = { signerId: "a", signatureId: "s1", signedAt: "2026-01-29T00:00:00Z" };
+    const sync = signBundle(bundle, {
+      ...fields,
+      algorithm: "ed25519",
+      privateKey: keys.privateKey,
+      publicKeyId: "k1",
+    });
+    const signer = createLocalSigner({ keyId: "k1", algorithm: "ed25519", privateKey: keys.privateKey });
+    const viaSigner = await signBundleWithSigner(bundle, signer, fields);
+    expect(viaSigner).toEqual(sync);
+  });
+
+  it("passes the canonical payload to a remote signer", async () => {
+    const seen: Uint8Array[] = [];
+    const remote: Signer = {
+      keyId: "kms-1",
+      algorithm: "hmac-sha256",
+      async sign(payload) {
+        seen.push(payload);
+        return createLocalSigner({ keyId: "kms-1", algorithm: "hmac-sha256", hmacSecret: "x" }).sign(
+          payload,
+        );
+      },
+    };
+    const bundle = makeValidBundle();
+    const signed = await signBundleWithSigner(bundle, remote, { signerId: "a" });
+    expect(Buffer.from(seen[0]).toString("utf-8")).toBe(canonicalJson(bundle));
+    expect(verifyBundle(signed, { hmacSecret: "x" }).valid).toBe(true);
+  });
+
+  it("rejects an empty signature from the signer", async () => {
+    const broken: Signer = {
+      keyId: "kms-1",
+      algorithm: "ed25519",
+      async sign() {
+        return new Uint8Array(0);
+      },
+    };
+    await expect(signBundleWithSigner(makeValidBundle(), broken, { signerId: "a" })).rejects.toThrow(
+      "empty signature",
+    );
+  });
+
+  it("createLocalSigner fails fast on mismatched key material", () => {
+    const keys = pemPair("rsa");
+    expect(() =>
+      createLocalSigner({ keyId: "k", algorithm: "ed25519", privateKey: keys.privateKey }),
+    ).toThrow("cannot produce ed25519");
+  });
+});
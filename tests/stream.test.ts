@@ -0,0 +1,225 @@
+import { describe, it, expect } from "vitest";
+import {
+  canonicalJson,
+  createStreamSealer,
+  redactItems,
+  sealBundle,
+  sealItemStream,
+  verifyItemStream,
+  ErrorCode,
+} from "../src/index.js";
+import type { EvidenceItem, SealedEntry, SealOptions } from "../src/index.js";
+
+function rawItems(n: number): Partial<EvidenceItem>[] {
+  return Array.from({ length: n }, (_, i) => ({
+    item_id: `pkg-${i}`,
+    content_type: "guardspine/sbom-component",
+    content: { name: `pkg-${i}`, version: `1.${i}.0`, licenses: ["MIT"] },
+  }));
+}
+
+async function* generate(n: number): AsyncGenerator<Partial<EvidenceItem>> {
+  for (let i = 0; i < n; i++) {
+    yield { item_id: `line-${i}`, content_type: "guardspine/log-line", content: { i } };
+  }
+}
+
+function ndjson(items: EvidenceItem[]): string {
+  return items.map((item) => `${canonicalJson(item)}\n`).join("");
+}
+
+/** Cut text into chunks of size bytes, splitting lines and multi-byte characters. */
+function chunked(text: string, size: number): Uint8Array[] {
+  const bytes = new TextEncoder().encode(text);
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += size) {
+    chunks.push(bytes.subarray(i, i + size));
+  }
+  return chunks;
+}
+
+describe("sealItemStream", () => {
+  const variants: SealOptions[] = [{}, { proofVersion: "v0.3.0" }, { hashAlgorithm: "sha384" }];
+  for (const options of variants) {
+    it(`produces sealBundle's items, chain and root (${JSON.stringify(options)})`, async () => {
+      const items = rawItems(11);
+      const expected = sealBundle({ items }, options);
+
+      const entries: SealedEntry[] = [];
+      const result = await sealItemStream(items, (entry) => {
+        entries.push(entry);
+      }, options);
+
+      expect(entries.map((entry) => entry.item)).toEqual(expected.items);
+      expect(entries.map((entry) => entry.link)).toEqual(expected.immutabilityProof.hash_chain);
+      const { hash_chain: _chain, ...summary } = expected.immutabilityProof;
+      expect(result).toEqual({ immutabilityProof: summary, itemCount: 11 });
+    });
+  }
+
+  it("seals async iterables past the in-memory item limit", async () => {
+    let written = 0;
+    const result = await sealItemStream(generate(12_000), async () => {
+      written++;
+    });
+    expect(written).toBe(12_000);
+    expect(result.itemCount).toBe(12_000);
+  });
+
+  it("rejects invalid items and empty streams", async () => {
+    const sealer = createStreamSealer();
+    expect(() => sealer.push({ content_type: "x" })).toThrow("push: item 0 missing item_id");
+    expect(() => sealer.push({ item_id: "a", content_type: "x", content: { n: NaN } })).toThrow(
+      "push: item 0 (a) content: canonicalJson: NaN is not representable in JSON at /n",
+    );
+    await expect(sealItemStream([], () => undefined)).rejects.toThrow("finish: no items were sealed");
+  });
+
+  it("refuses pushes after finish", () => {
+    const sealer = createStreamSealer();
+    sealer.push(rawItems(1)[0]);
+    sealer.finish();
+    expect(() => sealer.push(rawItems(2)[1])).toThrow("already finished");
+  });
+});
+
+describe("verifyItemStream", () => {
+  it("verifies sealBundle output however the bytes are chunked", async () => {
+    const items = rawItems(7);
+    items[3].content = { name: "café ☕", version: "2.0.0" };
+    for (const options of [{}, { proofVersion: "v0.3.0" as const }]) {
+      const sealed = sealBundle({ items }, options);
+      const text = ndjson(sealed.items);
+      for (const size of [1, 7, 64, text.length]) {
+        const result = await verifyItemStream(chunked(text, size), sealed.immutabilityProof);
+        expect(result).toEqual({ valid: true, errors: [], itemCount: 7 });
+      }
+    }
+  });
+
+  it("round-trips a streamed seal through NDJSON", async () => {
+    const lines: string[] = [];
+    const { immutabilityProof } = await sealItemStream(generate(2_000), (entry) => {
+      lines.push(`${canonicalJson(entry.item)}\r\n`);
+    });
+    const result = await verifyItemStream(lines, immutabilityProof);
+    expect(result.valid).toBe(true);
+    expect(result.itemCount).toBe(2_000);
+  });
+
+  it("reports tampered content and content hashes", async () => {
+    const sealed = sealBundle({ items: rawItems(4) });
+    const tampered = structuredClone(sealed.items);
+    tampered[1].content = { name: "evil" };
+    const contentOnly = await verifyItemStream([ndjson(tampered)], sealed.immutabilityProof);
+    expect(contentOnly.errors.map((e) => e.code)).toEqual([ErrorCode.CONTENT_HASH_MISMATCH]);
+
+    tampered[1].content_hash = `sha256:${"0".repeat(64)}`;
+    const result = await verifyItemStream([ndjson(tampered)], sealed.immutabilityProof);
+    expect(result.errors.map((e) => e.code)).toEqual([
+      ErrorCode.CONTENT_HASH_MISMATCH,
+      ErrorCode.ROOT_HASH_MISMATCH,
+    ]);
+  });
+
+  it("detects dropped and reordered items", async () => {
+    const sealed = sealBundle({ items: rawItems(4) });
+    const dropped = await verifyItemStream([ndjson(sealed.items.slice(0, 3))], sealed.immutabilityProof);
+    expect(dropped.errors.map((e) => e.code)).toEqual([ErrorCode.ROOT_HASH_MISMATCH]);
+
+    const swapped = [sealed.items[1], sealed.items[0], ...sealed.items.slice(2)];
+    const result = await verifyItemStream([ndjson(swapped)], sealed.immutabilityProof);
+    expect(result.errors.map((e) => e.code)).toEqual([
+      ErrorCode.SEQUENCE_GAP,
+      ErrorCode.SEQUENCE_GAP,
+      ErrorCode.ROOT_HASH_MISMATCH,
+    ]);
+  });
+
+  it("lists redacted items", async () => {
+    const sealed = sealBundle({ items: rawItems(3) });
+    const bundle = redactItems(
+      {
+        bundle_id: "b",
+        version: "0.2.0",
+        created_at: "2026-01-29T00:00:00Z",
+        items: sealed.items,
+        immutability_proof: sealed.immutabilityProof,
+      },
+      ["pkg-1"],
+    );
+    const result = await verifyItemStream([ndjson(bundle.items)], sealed.immutabilityProof);
+    expect(result).toMatchObject({ valid: true, redactedItems: ["pkg-1"], redactedItemCount: 1 });
+  });
+
+  it("caps the redacted item list and counts the rest", async () => {
+    const sealed = sealBundle({ items: rawItems(6) });
+    const bundle = redactItems(
+      {
+        bundle_id: "b",
+        version: "0.2.0",
+        created_at: "2026-01-29T00:00:00Z",
+        items: sealed.items,
+        immutability_proof: sealed.immutabilityProof,
+      },
+      ["pkg-0", "pkg-2", "pkg-3", "pkg-5"],
+    );
+    const result = await verifyItemStream([ndjson(bundle.items)], sealed.immutabilityProof, {
+      maxRedactedItems: 2,
+    });
+    expect(result).toEqual({
+      valid: true,
+      errors: [],
+      redactedItems: ["pkg-0", "pkg-2"],
+      redactedItemCount: 4,
+      itemCount: 6,
+    });
+  });
+
+  it("stops at a line that does not parse or match the item schema", async () => {
+    const sealed = sealBundle({ items: rawItems(2) });
+    const [first] = ndjson(sealed.items).split("\n");
+
+    const duplicate = await verifyItemStream(
+      [`${first}\n${first.replace(/}$/, ',"sequence":1}')}\n`],
+      sealed.immutabilityProof,
+    );
+    expect(duplicate.errors[0]).toMatchObject({
+      code: ErrorCode.BUNDLE_PARSE_FAILED,
+      details: { line: 2, reason: 'duplicate key "sequence"' },
+    });
+
+    const malformed = await verifyItemStream([`${first}\n{"item_id":"x"}\n`], sealed.immutabilityProof);
+    expect(malformed.itemCount).toBe(1);
+    expect(malformed.errors[0]).toMatchObject({
+      code: ErrorCode.INPUT_VALIDATION_FAILED,
+      details: { line: 2, keyword: "required" },
+    });
+  });
+
+  it("bounds line length and error count", async () => {
+    const sealed = sealBundle({ items: rawItems(5) });
+    const long = await verifyItemStream(chunked(ndjson(sealed.items), 16), sealed.immutabilityProof, {
+      maxLineBytes: 100,
+    });
+    expect(long.errors).toEqual([
+      expect.objectContaining({ code: ErrorCode.INPUT_VALIDATION_FAILED, details: { line: 1 } }),
+    ]);
+
+    const tampered = sealed.items.map((item) => ({ ...item, content: { tampered: true } }));
+    const capped = await verifyItemStream([ndjson(tampered)], sealed.immutabilityProof, { maxErrors: 2 });
+    expect(capped.errors).toHaveLength(2);
+    expect(capped.itemCount).toBe(2);
+  });
+
+  it("checks the proof before reading", async () => {
+    const sealed = sealBundle({ items: rawItems(1) }, { hashAlgorithm: "sha512" });
+    const result = await verifyItemStream([ndjson(sealed.items)], sealed.immutabilityProof, {
+      acceptHashAlgorithms: ["sha256"],
+    });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.HASH_ALGORITHM_NOT_ALLOWED]);
+    expect((await verifyItemStream([], sealed.immutabilityProof)).errors[0].code).toBe(
+      ErrorCode.INPUT_VALIDATION_FAILED,
+    );
+  });
+});
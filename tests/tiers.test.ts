@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import {
+  DEFAULT_RISK_TIER_PROFILES,
+  sealBundle,
+  signBundle,
+  verifyBundle,
+  ErrorCode,
+} from "../src/index.js";
+import type { EvidenceBundle, ProofVersion, RiskTier } from "../src/index.js";
+
+function makeBundle(tier: RiskTier | undefined, contentTypes = ["test/a"]): EvidenceBundle {
+  const result = sealBundle({
+    items: contentTypes.map((contentType, idx) => ({
+      item_id: `i${idx}`,
+      content_type: contentType,
+      content: { idx },
+    })),
+  });
+
+  return {
+    bundle_id: "test-bundle-001",
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    risk_tier: tier,
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+  };
+}
+
+function signHmac(bundle: EvidenceBundle, signerId: string): EvidenceBundle {
+  return signBundle(bundle, { algorithm: "hmac-sha256", signerId, hmacSecret: "x" });
+}
+
+const keys = { alice: generateKeyPairSync("ed25519"), bob: generateKeyPairSync("ed25519") };
+const publicKeys = {
+  alice: keys.alice.publicKey.export({ type: "spki", format: "pem" }).toString(),
+  bob: keys.bob.publicKey.export({ type: "spki", format: "pem" }).toString(),
+};
+
+function signEd(bundle: EvidenceBundle, signerId: "alice" | "bob"): EvidenceBundle {
+  return signBundle(bundle, {
+    algorithm: "ed25519",
+    signerId,
+    privateKey: keys[signerId].privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicKeyId: signerId,
+  });
+}
+
+function codes(bundle: EvidenceBundle): ErrorCode[] {
+  return verifyBundle(bundle, {
+    hmacSecret: "x",
+    riskTierProfiles: DEFAULT_RISK_TIER_PROFILES,
+  }).errors.map((e) => e.code);
+}
+
+describe("risk tier enforcement", () => {
+  it("accepts an unsigned L0 bundle", () => {
+    expect(codes(makeBundle("L0"))).toEqual([]);
+  });
+
+  it("requires a signature at L2", () => {
+    expect(codes(makeBundle("L2"))).toEqual([ErrorCode.RISK_TIER_SIGNATURES_INSUFFICIENT]);
+    expect(codes(signHmac(makeBundle("L2"), "alice"))).toEqual([]);
+  });
+
+  it("requires an approval item and bans hmac at L3", () => {
+    const result = codes(signHmac(makeBundle("L3"), "alice"));
+    expect(result).toContain(ErrorCode.RISK_TIER_CONTENT_TYPE_MISSING);
+    expect(result).toContain(ErrorCode.RISK_TIER_ALGORITHM_NOT_ALLOWED);
+  });
+
+  it("counts distinct signers only", () => {
+    const profiles = { L4: { minSignatures: 2 } };
+    const twice = signEd(signEd(makeBundle("L4"), "alice"), "alice");
+    const result = verifyBundle(twice, { publicKeys, riskTierProfiles: profiles });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.RISK_TIER_SIGNATURES_INSUFFICIENT]);
+
+    const both = signEd(signEd(makeBundle("L4"), "alice"), "bob");
+    expect(verifyBundle(both, { publicKeys, riskTierProfiles: profiles }).valid).toBe(true);
+  });
+
+  it("counts one key's signature copied under a second signer_id once", () => {
+    const signed = signEd(makeBundle("L4", ["guardspine/approval"]), "alice");
+    const copy = { ...signed.signatures![0], signature_id: "copy", signer_id: "bob" };
+    const forged = { ...signed, signatures: [...signed.signatures!, copy] };
+    const result = verifyBundle(forged, { publicKeys, riskTierProfiles: DEFAULT_RISK_TIER_PROFILES });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.RISK_TIER_SIGNATURES_INSUFFICIENT]);
+    expect(result.errors[0].details).toMatchObject({ actual: 1, distinct_keys: 1 });
+  });
+
+  it("counts signers sharing one HMAC secret as one key", () => {
+    const profiles = { L4: { minSignatures: 2 } };
+    const shared = signHmac(signHmac(makeBundle("L4"), "alice"), "bob");
+    const result = verifyBundle(shared, { hmacSecret: "x", riskTierProfiles: profiles });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.RISK_TIER_SIGNATURES_INSUFFICIENT]);
+  });
+
+  it("fails a bundle without a risk_tier or without a matching profile", () => {
+    expect(codes(makeBundle(undefined))).toEqual([ErrorCode.RISK_TIER_MISSING]);
+    const result = verifyBundle(makeBundle("L3"), { riskTierProfiles: { L0: {} } });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.RISK_TIER_MISSING]);
+  });
+
+  it("rejects legacy proofs unless the tier accepts them", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const result = sealBundle(
+      { items: [{ item_id: "i0", content_type: "test/a", content: { idx: 0 } }] },
+      { proofVersion: "legacy" },
+    );
+    const legacy = (tier: RiskTier): EvidenceBundle => ({
+      ...makeBundle(tier),
+      items: result.items,
+      immutability_proof: result.immutabilityProof,
+    });
+    const options = {
+      acceptProofVersions: ["v0.2.0", "legacy"] as ProofVersion[],
+      riskTierProfiles: { L0: { acceptLegacyProofs: true }, L1: {} },
+    };
+
+    expect(verifyBundle(legacy("L0"), options).valid).toBe(true);
+    const errors = verifyBundle(legacy("L1"), options).errors;
+    expect(errors.map((e) => e.code)).toEqual([ErrorCode.RISK_TIER_LEGACY_PROOF]);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import {
+  appendItems,
+  attachTimestamp,
+  parseTimestampToken,
+  redactItems,
+  timestampMessage,
+  verifyBundle,
+  verifyBundleTimestamps,
+  verifyTimestampToken,
+  ErrorCode,
+} from "../src/index.js";
+import type { EvidenceBundle } from "../src/index.js";
+
+interface TimestampFixture {
+  bundle: EvidenceBundle;
+  certificates: Record<"rsa_tsa" | "ec_tsa" | "rsa_tsa_no_eku" | "root_ca", string>;
+  root_token: string;
+  signature_token: string;
+}
+
+const fixture = JSON.parse(
+  readFileSync(new URL("./fixtures/rfc3161-timestamps.json", import.meta.url), "utf-8"),
+) as TimestampFixture;
+const { bundle, certificates } = fixture;
+const tsaCertificates = [certificates.rsa_tsa, certificates.ec_tsa];
+
+function stampedBundle(): EvidenceBundle {
+  return attachTimestamp(
+    attachTimestamp(bundle, fixture.root_token),
+    fixture.signature_token,
+    "sig-1",
+  );
+}
+
+function flipLastByte(token: string): Buffer {
+  const der = Buffer.from(token, "base64");
+  der[der.length - 1] ^= 0x01;
+  return der;
+}
+
+describe("parseTimestampToken", () => {
+  it("reads TSTInfo and signer fields from an OpenSSL token", () => {
+    const parsed = parseTimestampToken(Buffer.from(fixture.root_token, "base64"));
+    expect(parsed.policy).toBe("1.3.6.1.4.1.55555.1");
+    expect(parsed.imprintAlgorithm).toBe("sha256");
+    expect(parsed.signerSerialNumber).toBe("1001");
+    expect(parsed.signatureKind).toBe("rsa");
+    expect(parsed.genTime.toISOString()).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  it("throws on truncated input", () => {
+    const der = Buffer.from(fixture.root_token, "base64");
+    expect(() => parseTimestampToken(der.subarray(0, der.length - 10))).toThrow(/parseDer/);
+  });
+});
+
+describe("verifyTimestampToken", () => {
+  it("accepts RSA and ECDSA tokens from the supplied TSAs", () => {
+    const root = verifyTimestampToken(fixture.root_token, timestampMessage(bundle), tsaCertificates);
+    const sig = verifyTimestampToken(
+      fixture.signature_token,
+      timestampMessage(bundle, "sig-1"),
+      tsaCertificates,
+    );
+    expect(root.valid).toBe(true);
+    expect(sig.valid).toBe(true);
+    expect(root.genTime).toBeDefined();
+  });
+
+  it("reports TIMESTAMP_MALFORMED for bytes that are not a token", () => {
+    const result = verifyTimestampToken(Buffer.from("not a token"), "x", tsaCertificates);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].code).toBe(ErrorCode.TIMESTAMP_MALFORMED);
+  });
+
+  it("reports TIMESTAMP_IMPRINT_MISMATCH for other data", () => {
+    const result = verifyTimestampToken(fixture.root_token, "sha256:" + "0".repeat(64), tsaCertificates);
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.TIMESTAMP_IMPRINT_MISMATCH]);
+  });
+
+  it("reports TIMESTAMP_SIGNATURE_INVALID for a tampered signature", () => {
+    const result = verifyTimestampToken(
+      flipLastByte(fixture.root_token),
+      timestampMessage(bundle),
+      tsaCertificates,
+    );
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.TIMESTAMP_SIGNATURE_INVALID]);
+  });
+
+  it("reports TIMESTAMP_SIGNATURE_INVALID when the signer certificate is not supplied", () => {
+    const result = verifyTimestampToken(fixture.root_token, timestampMessage(bundle), [
+      certificates.ec_tsa,
+    ]);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].code).toBe(ErrorCode.TIMESTAMP_SIGNATURE_INVALID);
+    expect(result.errors[0].details?.signer_serial_number).toBe("1001");
+  });
+
+  it("reports INPUT_VALIDATION_FAILED for a certificate that does not parse", () => {
+    const result = verifyTimestampToken(fixture.root_token, timestampMessage(bundle), [
+      certificates.rsa_tsa,
+      "not a certificate",
+    ]);
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.INPUT_VALIDATION_FAILED]);
+    expect(result.errors[0].details).toMatchObject({ field: "tsaCertificates", index: 1 });
+  });
+
+  it("rejects a certificate without the timeStamping extended key usage", () => {
+    const result = verifyTimestampToken(
+      fixture.root_token,
+      timestampMessage(bundle),
+      certificates.rsa_tsa_no_eku,
+    );
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.TIMESTAMP_SIGNATURE_INVALID]);
+    expect(result.errors[0].message).toMatch(/time stamping/);
+  });
+});
+
+describe("attachTimestamp", () => {
+  it("keeps existing signatures valid", () => {
+    const result = verifyBundle(stampedBundle(), { hmacSecret: "fixture-secret" });
+    expect(result.valid).toBe(true);
+  });
+
+  it("throws for an unknown signature_id", () => {
+    expect(() => attachTimestamp(bundle, fixture.signature_token, "missing")).toThrow(
+      /signature missing not found/,
+    );
+  });
+});
+
+describe("verifyBundleTimestamps", () => {
+  it("accepts tokens over root_hash and a signature", () => {
+    expect(verifyBundleTimestamps(stampedBundle(), { tsaCertificates }).valid).toBe(true);
+  });
+
+  it("reports TIMESTAMP_TIME_INVALID when created_at is far from genTime", () => {
+    const backdated = { ...stampedBundle(), created_at: "2020-01-01T00:00:00Z" };
+    const result = verifyBundleTimestamps(backdated, { tsaCertificates });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.TIMESTAMP_TIME_INVALID]);
+    expect(result.errors[0].details?.target).toBe("root_hash");
+  });
+
+  it("honours maxTimestampDelaySeconds", () => {
+    const genTime = parseTimestampToken(Buffer.from(fixture.root_token, "base64")).genTime;
+    const later = new Date(genTime.getTime() + 120_000).toISOString();
+    const stamped = attachTimestamp({ ...bundle, created_at: later }, fixture.root_token);
+    expect(verifyBundleTimestamps(stamped, { tsaCertificates }).valid).toBe(true);
+    const strict = verifyBundleTimestamps(stamped, { tsaCertificates, maxTimestampDelaySeconds: 60 });
+    expect(strict.errors.map((e) => e.code)).toEqual([ErrorCode.TIMESTAMP_TIME_INVALID]);
+  });
+
+  it("reports a token moved onto another target", () => {
+    const swapped = attachTimestamp(bundle, fixture.signature_token);
+    const result = verifyBundleTimestamps(swapped, { tsaCertificates });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.TIMESTAMP_IMPRINT_MISMATCH]);
+  });
+
+  it("reports TIMESTAMP_MISSING when a root timestamp is required", () => {
+    const result = verifyBundleTimestamps(bundle, { tsaCertificates, requireTimestamp: true });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.TIMESTAMP_MISSING]);
+  });
+
+  it("requires tsaCertificates when timestamps are present", () => {
+    const result = verifyBundleTimestamps(stampedBundle(), {});
+    expect(result.errors[0].code).toBe(ErrorCode.INPUT_VALIDATION_FAILED);
+  });
+});
+
+describe("verifyBundle with tsaCertificates", () => {
+  it("includes timestamp errors", () => {
+    const stamped = attachTimestamp(bundle, flipLastByte(fixture.root_token));
+    const result = verifyBundle(stamped, { hmacSecret: "fixture-secret", tsaCertificates });
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.code)).toContain(ErrorCode.TIMESTAMP_SIGNATURE_INVALID);
+  });
+
+  it("reports an unreadable TSA certificate once instead of throwing", () => {
+    const result = verifyBundle(stampedBundle(), {
+      hmacSecret: "fixture-secret",
+      tsaCertificates: [...tsaCertificates, "-----BEGIN CERTIFICATE-----\nAAAA\n-----END CERTIFICATE-----"],
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.INPUT_VALIDATION_FAILED]);
+  });
+
+  it("ignores timestamps when no certificates are given", () => {
+    const stamped = attachTimestamp(bundle, flipLastByte(fixture.root_token));
+    expect(verifyBundle(stamped, { hmacSecret: "fixture-secret" }).valid).toBe(true);
+  });
+});
+
+describe("timestamps on derived bundles", () => {
+  it("appendItems drops timestamps over the old root and signatures", () => {
+    const appended = appendItems(stampedBundle(), [
+      { item_id: "late", content_type: "test/a", content: { late: true } },
+    ]);
+    expect(appended.timestamps).toBeUndefined();
+    expect(verifyBundle(appended, { tsaCertificates }).valid).toBe(true);
+  });
+
+  it("redactItems keeps root_hash timestamps and drops those over signatures", () => {
+    const redacted = redactItems(stampedBundle(), [bundle.items[0].item_id]);
+    expect(redacted.timestamps).toEqual([{ token: fixture.root_token }]);
+    expect(verifyBundle(redacted, { tsaCertificates, requireTimestamp: true }).valid).toBe(true);
+
+    const signatureOnly = attachTimestamp(bundle, fixture.signature_token, "sig-1");
+    expect(redactItems(signatureOnly, [bundle.items[0].item_id]).timestamps).toBeUndefined();
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createFileTransparencyLog,
+  sealBundle,
+  signBundle,
+  verifyBundle,
+  verifyLogConsistency,
+  verifyLogInclusion,
+  verifyTreeHead,
+  ErrorCode,
+} from "../src/index.js";
+import type { BundleVerificationOptions, EvidenceBundle, TransparencyLog } from "../src/index.js";
+
+const logKeys = generateKeyPairSync("ed25519");
+const publicKeys = {
+  "log-key": logKeys.publicKey.export({ type: "spki", format: "pem" }).toString(),
+};
+
+function makeBundle(bundleId: string, marker = bundleId): EvidenceBundle {
+  const result = sealBundle({
+    items: [{ item_id: `${bundleId}-item`, content_type: "guardspine/test-result", content: { marker } }],
+  });
+  return {
+    bundle_id: bundleId,
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+  };
+}
+
+function openLog(
+  file = join(mkdtempSync(join(tmpdir(), "translog-")), "log.jsonl"),
+  verification?: BundleVerificationOptions,
+): TransparencyLog {
+  return createFileTransparencyLog(file, {
+    logId: "test-log",
+    signer: {
+      algorithm: "ed25519",
+      signerId: "test-log",
+      privateKey: logKeys.privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+      publicKeyId: "log-key",
+    },
+    verification,
+  });
+}
+
+describe("createFileTransparencyLog", () => {
+  it("appends entries and returns an existing entry for a repeated root", () => {
+    const log = openLog();
+    const bundle = makeBundle("pr-1");
+    expect(log.append(bundle)).toEqual({
+      index: 0,
+      bundle_id: "pr-1",
+      root_hash: bundle.immutability_proof.root_hash,
+    });
+    log.append(makeBundle("pr-2"));
+    expect(log.append(bundle).index).toBe(0);
+    expect(log.entries()).toHaveLength(2);
+  });
+
+  it("refuses bundles that do not verify", () => {
+    const bundle = makeBundle("pr-1");
+    bundle.items[0].content = { marker: "tampered" };
+    expect(() => openLog().append(bundle)).toThrow(/does not verify/);
+  });
+
+  it("logs signed bundles with the verification options it was given", () => {
+    const file = join(mkdtempSync(join(tmpdir(), "translog-")), "log.jsonl");
+    const signed = signBundle(makeBundle("pr-1"), {
+      algorithm: "hmac-sha256",
+      signerId: "ci",
+      hmacSecret: "s3cret",
+    });
+
+    expect(() => openLog(file).append(signed)).toThrow(/does not verify \(SIGNATURE_INVALID\)/);
+
+    const log = openLog(file, { hmacSecret: "s3cret" });
+    const entry = log.append(signed);
+    expect(entry).toEqual({ index: 0, bundle_id: "pr-1", root_hash: signed.immutability_proof.root_hash });
+    const result = verifyBundle(signed, {
+      hmacSecret: "s3cret",
+      publicKeys,
+      logTreeHead: log.treeHead(),
+      logInclusionProof: log.inclusionProof(entry),
+    });
+    expect(result).toEqual({ valid: true, errors: [] });
+  });
+
+  it("signs tree heads that verify with the log key", () => {
+    const log = openLog();
+    log.append(makeBundle("pr-1"));
+    const head = log.treeHead();
+    expect(head.tree_size).toBe(1);
+    expect(verifyTreeHead(head, { publicKeys }).valid).toBe(true);
+
+    const forged = verifyTreeHead({ ...head, tree_size: 2 }, { publicKeys });
+    expect(forged.errors[0].code).toBe(ErrorCode.LOG_TREE_HEAD_INVALID);
+    expect(forged.errors[0].details?.cause).toBe(ErrorCode.SIGNATURE_INVALID);
+  });
+
+  it("throws for tree heads of an empty log", () => {
+    expect(() => openLog().treeHead()).toThrow(/out of range/);
+  });
+
+  it("rejects a log file with a torn final entry", () => {
+    const file = join(mkdtempSync(join(tmpdir(), "translog-")), "log.jsonl");
+    const log = openLog(file);
+    log.append(makeBundle("pr-1"));
+    writeFileSync(file, `${readFileSync(file, "utf-8")}{"bundle_id":`);
+    expect(() => log.entries()).toThrow(/incomplete entry/);
+  });
+});
+
+describe("log inclusion", () => {
+  it("proves every logged bundle against the tree head", () => {
+    const log = openLog();
+    const bundles = Array.from({ length: 5 }, (_, i) => makeBundle(`pr-${i}`));
+    bundles.forEach((bundle) => log.append(bundle));
+    const head = log.treeHead();
+    for (const bundle of bundles) {
+      const proof = log.inclusionProof({
+        bundle_id: bundle.bundle_id,
+        root_hash: bundle.immutability_proof.root_hash,
+      });
+      expect(verifyLogInclusion(bundle, proof, head, { publicKeys }).valid).toBe(true);
+    }
+  });
+
+  it("rejects a proof for a replaced bundle", () => {
+    const log = openLog();
+    const original = makeBundle("pr-1");
+    log.append(original);
+    log.append(makeBundle("pr-2"));
+    const head = log.treeHead();
+    const proof = log.inclusionProof({ bundle_id: "pr-1", root_hash: original.immutability_proof.root_hash });
+
+    const replacement = makeBundle("pr-1", "replaced");
+    const result = verifyLogInclusion(replacement, proof, head, { publicKeys });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.LOG_INCLUSION_INVALID]);
+
+    const forgedProof = { ...proof, bundle_root_hash: replacement.immutability_proof.root_hash };
+    expect(verifyLogInclusion(replacement, forgedProof, head, { publicKeys }).errors[0].code).toBe(
+      ErrorCode.LOG_INCLUSION_INVALID,
+    );
+  });
+
+  it("throws when the bundle was never logged", () => {
+    const log = openLog();
+    log.append(makeBundle("pr-1"));
+    const other = makeBundle("pr-2");
+    expect(() =>
+      log.inclusionProof({ bundle_id: "pr-2", root_hash: other.immutability_proof.root_hash }),
+    ).toThrow(/not in the first 1 entries/);
+  });
+});
+
+describe("verifyBundle with a log proof", () => {
+  it("accepts a logged bundle and reports a tree head from another key", () => {
+    const log = openLog();
+    const bundle = makeBundle("pr-1");
+    log.append(bundle);
+    const logTreeHead = log.treeHead();
+    const logInclusionProof = log.inclusionProof(log.entries()[0]);
+
+    expect(verifyBundle(bundle, { publicKeys, logTreeHead, logInclusionProof }).valid).toBe(true);
+
+    const otherKey = generateKeyPairSync("ed25519").publicKey.export({ type: "spki", format: "pem" });
+    const result = verifyBundle(bundle, {
+      publicKeys: { "log-key": otherKey.toString() },
+      logTreeHead,
+      logInclusionProof,
+    });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.LOG_TREE_HEAD_INVALID]);
+  });
+
+  it("requires the proof and tree head together", () => {
+    const log = openLog();
+    const bundle = makeBundle("pr-1");
+    log.append(bundle);
+    const result = verifyBundle(bundle, { publicKeys, logTreeHead: log.treeHead() });
+    expect(result.errors[0].code).toBe(ErrorCode.INPUT_VALIDATION_FAILED);
+  });
+});
+
+describe("verifyLogConsistency", () => {
+  it("accepts a grown log", () => {
+    const log = openLog();
+    log.append(makeBundle("pr-1"));
+    log.append(makeBundle("pr-2"));
+    log.append(makeBundle("pr-3"));
+    const older = log.treeHead();
+    log.append(makeBundle("pr-4"));
+    log.append(makeBundle("pr-5"));
+    const newer = log.treeHead();
+
+    const proof = log.consistencyProof(older.tree_size);
+    expect(verifyLogConsistency(older, newer, proof, { publicKeys }).valid).toBe(true);
+  });
+
+  it("detects a deleted entry", () => {
+    const file = join(mkdtempSync(join(tmpdir(), "translog-")), "log.jsonl");
+    const log = openLog(file);
+    ["pr-1", "pr-2", "pr-3"].forEach((id) => log.append(makeBundle(id)));
+    const older = log.treeHead();
+
+    // Rewrite the file without pr-2, then keep appending.
+    const lines = readFileSync(file, "utf-8").split("\n");
+    writeFileSync(file, [lines[0], lines[2], ""].join("\n"));
+    log.append(makeBundle("pr-4"));
+    log.append(makeBundle("pr-5"));
+    const newer = log.treeHead();
+
+    const proof = log.consistencyProof(older.tree_size);
+    const result = verifyLogConsistency(older, newer, proof, { publicKeys });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.LOG_CONSISTENCY_INVALID]);
+  });
+
+  it("rejects a proof for other tree sizes", () => {
+    const log = openLog();
+    ["pr-1", "pr-2", "pr-3"].forEach((id) => log.append(makeBundle(id)));
+    const older = log.treeHead(2);
+    const newer = log.treeHead();
+    const proof = log.consistencyProof(1);
+    const result = verifyLogConsistency(older, newer, proof, { publicKeys });
+    expect(result.errors[0].code).toBe(ErrorCode.LOG_CONSISTENCY_INVALID);
+  });
+});
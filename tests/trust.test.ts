@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import {
+  checkTrustedKey,
+  sealBundle,
+  signBundle,
+  verifyBundle,
+  ErrorCode,
+} from "../src/index.js";
+import type { EvidenceBundle, Signature, TrustStore } from "../src/index.js";
+
+function makeValidBundle(): EvidenceBundle {
+  const result = sealBundle({
+    items: [{ item_id: "i1", content_type: "test/a", content: { val: 1 } }],
+  });
+
+  return {
+    bundle_id: "test-bundle-001",
+    version: "0.2.0",
+    created_at: "2026-01-29T00:00:00Z",
+    items: result.items,
+    immutability_proof: result.immutabilityProof,
+  };
+}
+
+const ed = generateKeyPairSync("ed25519");
+const edPrivate = ed.privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+const edPublic = ed.publicKey.export({ type: "spki", format: "pem" }).toString();
+const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const rsaPublic = rsa.publicKey.export({ type: "spki", format: "pem" }).toString();
+
+function signedAt(time: string, keyId = "k1"): EvidenceBundle {
+  return signBundle(makeValidBundle(), {
+    algorithm: "ed25519",
+    signerId: "alice",
+    privateKey: edPrivate,
+    publicKeyId: keyId,
+    signedAt: time,
+  });
+}
+
+function store(overrides: Partial<TrustStore["keys"][number]> = {}): TrustStore {
+  return {
+    keys: [
+      {
+        key_id: "k1",
+        public_key: edPublic,
+        algorithms: ["ed25519"],
+        not_before: "2026-01-01T00:00:00Z",
+        not_after: "2027-01-01T00:00:00Z",
+        ...overrides,
+      },
+    ],
+  };
+}
+
+function codes(bundle: EvidenceBundle, trustStore: TrustStore): ErrorCode[] {
+  return verifyBundle(bundle, { trustStore }).errors.map((e) => e.code);
+}
+
+describe("trustStore verification", () => {
+  it("accepts a signature inside the validity window", () => {
+    expect(codes(signedAt("2026-06-01T00:00:00Z"), store())).toEqual([]);
+  });
+
+  it("rejects keys that are not in the store", () => {
+    expect(codes(signedAt("2026-06-01T00:00:00Z", "k2"), store())).toEqual([
+      ErrorCode.KEY_NOT_TRUSTED,
+    ]);
+  });
+
+  it("ignores publicKeys when a trust store is set", () => {
+    const result = verifyBundle(signedAt("2026-06-01T00:00:00Z", "k2"), {
+      publicKeys: { k2: edPublic },
+      trustStore: store(),
+    });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.KEY_NOT_TRUSTED]);
+  });
+
+  it("enforces not_before and not_after", () => {
+    expect(codes(signedAt("2025-12-31T23:59:59Z"), store())).toEqual([
+      ErrorCode.KEY_NOT_YET_VALID,
+    ]);
+    expect(codes(signedAt("2027-01-01T00:00:00Z"), store())).toEqual([ErrorCode.KEY_EXPIRED]);
+  });
+
+  it("rejects signatures made at or after revocation", () => {
+    const revoked = store({ revoked_at: "2026-06-01T00:00:00Z" });
+    expect(codes(signedAt("2026-05-31T00:00:00Z"), revoked)).toEqual([]);
+    expect(codes(signedAt("2026-06-01T00:00:00Z"), revoked)).toEqual([ErrorCode.KEY_REVOKED]);
+  });
+
+  it("rejects algorithms the key is not allowed for", () => {
+    expect(codes(signedAt("2026-06-01T00:00:00Z"), store({ algorithms: ["rsa-sha256"] }))).toEqual(
+      [ErrorCode.KEY_ALGORITHM_MISMATCH],
+    );
+  });
+
+  it("reports a key whose type does not match the algorithm", () => {
+    const wrongKey = store({ public_key: rsaPublic, algorithms: ["ed25519"] });
+    const result = verifyBundle(signedAt("2026-06-01T00:00:00Z"), { trustStore: wrongKey });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.KEY_ALGORITHM_MISMATCH]);
+    expect(result.errors[0].details).toMatchObject({ key_type: "rsa", algorithm: "ed25519" });
+  });
+
+  it("reports a mismatched key type without a trust store", () => {
+    const result = verifyBundle(signedAt("2026-06-01T00:00:00Z"), {
+      publicKeys: { k1: rsaPublic },
+    });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.KEY_ALGORITHM_MISMATCH]);
+  });
+});
+
+describe("checkTrustedKey", () => {
+  it("rejects an unparseable signed_at", () => {
+    const sig: Signature = {
+      signature_id: "s1",
+      algorithm: "ed25519",
+      signer_id: "alice",
+      signature_value: "AA==",
+      signed_at: "yesterday",
+    };
+    expect(checkTrustedKey(store().keys[0], sig)?.code).toBe(ErrorCode.INPUT_VALIDATION_FAILED);
+  });
+});
@@ -1,13 +1,19 @@
 import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
 import {
   verifyBundle,
+  verifyBundleDetailed,
+  verificationReportJson,
   verifyHashChain,
   verifyContentHashes,
   verifyRootHash,
+  verifySignatures,
   sealBundle,
+  signBundle,
+  computePolicyHash,
   ErrorCode,
 } from "../src/index.js";
-import type { EvidenceBundle } from "../src/index.js";
+import type { EvidenceBundle, PolicyPack } from "../src/index.js";
 
 function makeValidBundle(): EvidenceBundle {
   const result = sealBundle({
@@ -113,3 +119,326 @@ describe("verifyRootHash", () => {
     expect(result.valid).toBe(true);
   });
 });
+
+describe("signaturePolicy", () => {
+  const keys = Object.fromEntries(
+    ["alice", "bob", "carol", "mallory"].map((name) => [name, generateKeyPairSync("ed25519")]),
+  );
+  const publicKeys = Object.fromEntries(
+    Object.entries(keys).map(([name, pair]) => [
+      name,
+      pair.publicKey.export({ type: "spki", format: "pem" }).toString(),
+    ]),
+  );
+
+  /** Sign as signerId with keyOwner's key, published under keyOwner's key id. */
+  function signAs(bundle: EvidenceBundle, signerId: string, keyOwner = signerId): EvidenceBundle {
+    return signBundle(bundle, {
+      algorithm: "ed25519",
+      signerId,
+      privateKey: keys[keyOwner].privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+      publicKeyId: keyOwner,
+    });
+  }
+
+  /** Append a copy of signature index under a new name and signature_id. */
+  function relabel(bundle: EvidenceBundle, index: number, signerId: string, publicKeyId?: string): EvidenceBundle {
+    const copy = { ...bundle.signatures![index], signature_id: `copy-${signerId}`, signer_id: signerId };
+    if (publicKeyId !== undefined) {
+      copy.public_key_id = publicKeyId;
+    }
+    return { ...bundle, signatures: [...bundle.signatures!, copy] };
+  }
+
+  const policy = {
+    minSignatures: 2,
+    allowedSigners: ["alice", "bob", "carol"],
+    signerRoles: { alice: ["approver"], bob: ["author"], carol: ["author"] },
+    requiredRoles: ["approver"],
+    uniqueSigners: true,
+  };
+
+  it("passes when the quorum and roles are met", () => {
+    const bundle = signAs(signAs(makeValidBundle(), "alice"), "bob");
+    const result = verifyBundle(bundle, { publicKeys, signaturePolicy: policy });
+    expect(result.valid).toBe(true);
+  });
+
+  it("fails an unsigned bundle when a policy is set", () => {
+    const result = verifyBundle(makeValidBundle(), { signaturePolicy: { minSignatures: 1 } });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].code).toBe(ErrorCode.SIGNATURE_THRESHOLD_NOT_MET);
+  });
+
+  it("does not count signers outside allowedSigners", () => {
+    const bundle = signAs(signAs(makeValidBundle(), "alice"), "mallory");
+    const codes = verifyBundle(bundle, { publicKeys, signaturePolicy: policy }).errors.map(
+      (e) => e.code,
+    );
+    expect(codes).toEqual([ErrorCode.SIGNATURE_THRESHOLD_NOT_MET]);
+  });
+
+  it("does not count invalid signatures", () => {
+    const bundle = signBundle(signAs(makeValidBundle(), "alice"), {
+      algorithm: "hmac-sha256",
+      signerId: "bob",
+      hmacSecret: "wrong",
+    });
+    const codes = verifyBundle(bundle, { publicKeys, hmacSecret: "x", signaturePolicy: policy }).errors.map(
+      (e) => e.code,
+    );
+    expect(codes).toContain(ErrorCode.SIGNATURE_INVALID);
+    expect(codes).toContain(ErrorCode.SIGNATURE_THRESHOLD_NOT_MET);
+  });
+
+  it("reports a missing required role", () => {
+    const bundle = signAs(signAs(makeValidBundle(), "bob"), "carol");
+    const result = verifyBundle(bundle, { publicKeys, signaturePolicy: policy });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.SIGNATURE_ROLE_MISSING]);
+    expect(result.errors[0].details).toMatchObject({ role: "approver" });
+  });
+
+  it("rejects the same signer signing twice", () => {
+    const bundle = signAs(signAs(signAs(makeValidBundle(), "alice"), "alice"), "bob");
+    const codes = verifyBundle(bundle, { publicKeys, signaturePolicy: policy }).errors.map(
+      (e) => e.code,
+    );
+    expect(codes).toEqual([ErrorCode.DUPLICATE_SIGNER]);
+  });
+
+  it("counts a signature copied under a second signer_id once", () => {
+    const forged = relabel(signAs(makeValidBundle(), "alice"), 0, "bob");
+    const probe = {
+      minSignatures: 2,
+      allowedSigners: ["alice", "bob"],
+      signerRoles: { bob: ["approver"] },
+      requiredRoles: ["approver"],
+    };
+    expect(verifySignatures(forged, { publicKeys }).valid).toBe(true);
+    const result = verifyBundle(forged, { publicKeys, signaturePolicy: probe });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.SIGNATURE_THRESHOLD_NOT_MET]);
+    expect(result.errors[0].details).toMatchObject({ actual: 1, distinct_keys: 1 });
+
+    const trustStore = {
+      keys: ["alice", "bob"].map((name) => ({
+        key_id: name,
+        public_key: publicKeys[name],
+        algorithms: ["ed25519" as const],
+      })),
+    };
+    const trusted = verifyBundle(forged, { trustStore, signaturePolicy: probe });
+    expect(trusted.errors.map((e) => e.code)).toEqual([ErrorCode.SIGNATURE_THRESHOLD_NOT_MET]);
+  });
+
+  it("counts one key reached through the default key once", () => {
+    const forged = relabel(signAs(makeValidBundle(), "alice"), 0, "bob", "unknown");
+    const result = verifyBundle(forged, {
+      publicKeys: { alice: publicKeys.alice, default: publicKeys.alice },
+      signaturePolicy: { minSignatures: 2 },
+    });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.SIGNATURE_THRESHOLD_NOT_MET]);
+  });
+
+  it("reports a relabelled key under uniqueSigners", () => {
+    const forged = relabel(signAs(makeValidBundle(), "alice"), 0, "bob", "unknown");
+    const result = verifyBundle(forged, {
+      publicKeys: { alice: publicKeys.alice, default: publicKeys.alice },
+      signaturePolicy: { uniqueSigners: true },
+    });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.DUPLICATE_SIGNER]);
+    expect(result.errors[0].details).toMatchObject({ signature_id: "copy-bob" });
+  });
+
+  it("rejects a signature whose key is not bound to its signer under signerKeys", () => {
+    const signerKeys = { alice: ["alice"], bob: ["bob"] };
+    const bound = { ...policy, signerKeys };
+    const genuine = signAs(signAs(makeValidBundle(), "alice"), "bob");
+    expect(verifyBundle(genuine, { publicKeys, signaturePolicy: bound }).valid).toBe(true);
+
+    // Mallory signs with their own key but claims to be alice, the approver.
+    const impostor = signAs(signAs(makeValidBundle(), "alice", "mallory"), "bob");
+    const result = verifyBundle(impostor, { publicKeys, signaturePolicy: bound });
+    expect(result.errors.map((e) => e.code)).toEqual([
+      ErrorCode.SIGNER_KEY_MISMATCH,
+      ErrorCode.SIGNATURE_THRESHOLD_NOT_MET,
+      ErrorCode.SIGNATURE_ROLE_MISSING,
+    ]);
+    expect(result.errors[0].details).toMatchObject({ signer_id: "alice", key_id: "mallory" });
+  });
+});
+
+describe("policy binding", () => {
+  const pack: PolicyPack = {
+    policy_id: "release-gate",
+    version: "1.2.0",
+    name: "Release gate",
+    rules: [
+      {
+        rule_id: "max-violations",
+        name: "violations",
+        severity: "high",
+        condition: { field: "items.0.content.val", operator: "lte", value: 1 },
+      },
+    ],
+  };
+
+  function makeBoundBundle(): EvidenceBundle {
+    const result = sealBundle(
+      { items: [{ item_id: "i1", content_type: "test/a", content: { val: 1 } }] },
+      { policyPack: pack },
+    );
+    return {
+      bundle_id: "test-bundle-001",
+      version: "0.2.0",
+      created_at: "2026-01-29T00:00:00Z",
+      ...result.policyBinding,
+      items: result.items,
+      immutability_proof: result.immutabilityProof,
+    };
+  }
+
+  it("records the policy binding when sealing", () => {
+    const bundle = makeBoundBundle();
+    expect(bundle.policy_id).toBe("release-gate");
+    expect(bundle.policy_version).toBe("1.2.0");
+    expect(bundle.policy_hash).toBe(computePolicyHash(pack));
+  });
+
+  it("passes with the exact policy pack", () => {
+    expect(verifyBundle(makeBoundBundle(), { policyPack: pack }).valid).toBe(true);
+  });
+
+  it("detects a loosened policy pack with the same id and version", () => {
+    const loosened = structuredClone(pack);
+    loosened.rules[0].condition = { field: "items.0.content.val", operator: "lte", value: 100 };
+    const result = verifyBundle(makeBoundBundle(), { policyPack: loosened });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.POLICY_MISMATCH]);
+    expect(result.errors[0].details).toMatchObject({ field: "policy_hash" });
+  });
+
+  it("detects a policy_id or version mismatch", () => {
+    const bundle = makeBoundBundle();
+    bundle.policy_version = "1.1.0";
+    const result = verifyBundle(bundle, { policyPack: pack });
+    expect(result.errors.map((e) => e.details?.field)).toEqual(["policy_version"]);
+  });
+
+  it("fails when the bundle records no policy_hash", () => {
+    const result = verifyBundle(makeValidBundle(), { policyPack: pack });
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.POLICY_MISMATCH]);
+  });
+
+  it("refuses to seal against a different policy_id", () => {
+    expect(() =>
+      sealBundle(
+        { policy_id: "other", items: [{ item_id: "i1", content_type: "test/a", content: {} }] },
+        { policyPack: pack },
+      ),
+    ).toThrow("does not match policy pack");
+  });
+});
+
+describe("verifyBundleDetailed", () => {
+  function stepNames(bundle: EvidenceBundle, options?: Parameters<typeof verifyBundle>[1]) {
+    return verifyBundleDetailed(bundle, options).steps.map((step) => `${step.step}:${step.status}`);
+  }
+
+  it("lists every step for a valid unsigned bundle", () => {
+    const report = verifyBundleDetailed(makeValidBundle());
+    expect(report.valid).toBe(true);
+    expect(report.bundle_id).toBe("test-bundle-001");
+    expect(report.steps.map((step) => step.step)).toEqual([
+      "schema",
+      "required_fields",
+      "version",
+      "sanitization",
+      "hash_algorithm",
+      "content_hashes",
+      "hash_chain",
+      "root_hash",
+      "cross_check",
+      "signatures",
+      "signature_policy",
+      "risk_tier",
+      "policy_binding",
+      "timestamps",
+      "log_inclusion",
+      "references",
+    ]);
+    const signatures = report.steps.find((step) => step.step === "signatures");
+    expect(signatures?.status).toBe("skipped");
+    expect(signatures?.reason).toBe("bundle has no signatures");
+  });
+
+  it("reports each signature with its key source", () => {
+    const bundle = signBundle(signBundle(makeValidBundle(), {
+      algorithm: "hmac-sha256",
+      signerId: "ci",
+      hmacSecret: "secret",
+      signatureId: "hmac-1",
+    }), {
+      algorithm: "hmac-sha256",
+      signerId: "bot",
+      hmacSecret: "other-secret",
+      signatureId: "hmac-2",
+    });
+
+    const report = verifyBundleDetailed(bundle, { hmacSecret: "secret" });
+    const signatureSteps = report.steps.filter((step) => step.step === "signature");
+    expect(signatureSteps.map((step) => [step.inputs.signature_id, step.status])).toEqual([
+      ["hmac-1", "passed"],
+      ["hmac-2", "failed"],
+    ]);
+    expect(signatureSteps[0].inputs.key_source).toBe("hmac_secret");
+  });
+
+  it("distinguishes a missing hmacSecret from a bad HMAC", () => {
+    const bundle = signBundle(makeValidBundle(), {
+      algorithm: "hmac-sha256",
+      signerId: "ci",
+      hmacSecret: "secret",
+    });
+
+    const missing = verifyBundleDetailed(bundle).steps.find((step) => step.step === "signature");
+    const wrong = verifyBundleDetailed(bundle, { hmacSecret: "wrong" }).steps.find(
+      (step) => step.step === "signature",
+    );
+    expect(missing?.inputs.key_source).toBe("none");
+    expect(missing?.reason).toMatch(/no hmacSecret provided/);
+    expect(wrong?.inputs.key_source).toBe("hmac_secret");
+    expect(wrong?.reason).toMatch(/verification failed/);
+  });
+
+  it("marks steps after an early stop as skipped", () => {
+    const bundle = makeValidBundle();
+    delete (bundle as Partial<EvidenceBundle>).immutability_proof;
+    const names = stepNames(bundle);
+    expect(names.slice(0, 4)).toEqual([
+      "schema:passed",
+      "required_fields:failed",
+      "version:passed",
+      "sanitization:skipped",
+    ]);
+    expect(names.slice(3).every((name) => name.endsWith(":skipped"))).toBe(true);
+    const report = verifyBundleDetailed(bundle);
+    expect(report.steps.at(-1)?.reason).toBe("items or immutability_proof is missing");
+  });
+
+  it("matches verifyBundle's errors and validity", () => {
+    const bundle = makeValidBundle();
+    bundle.items[1].content = { val: 999 };
+    bundle.immutability_proof.hash_chain[2].previous_hash = `sha256:${"0".repeat(64)}`;
+    const report = verifyBundleDetailed(bundle);
+    const result = verifyBundle(bundle);
+    expect(report.valid).toBe(result.valid);
+    expect(report.steps.flatMap((step) => step.errors)).toEqual(result.errors);
+  });
+
+  it("serializes to stable canonical JSON", () => {
+    const bundle = makeValidBundle();
+    const first = verificationReportJson(verifyBundleDetailed(bundle));
+    const second = verificationReportJson(verifyBundleDetailed(structuredClone(bundle)));
+    expect(first).toBe(second);
+    expect(JSON.parse(first).report_version).toBe("1.0");
+  });
+});